@@ -0,0 +1,216 @@
+// Local RFC 3161 timestamp authority for development and testing.
+// Issues timestamp tokens signed by a throwaway ECDSA P-256 key and self-signed
+// certificate, generated on every start. Tokens are not trusted by anyone else.
+//
+//   npm run tsa:local              listens on http://localhost:3161
+//   TSA_PORT=8080 npm run tsa:local
+//
+// Then set VITE_TSA_URL=http://localhost:3161 in .env, and VITE_TSA_TRUST_ANCHOR
+// to the certificate printed on start. Tokens from earlier runs become untrusted.
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.TSA_PORT) || 3161;
+
+const OID = {
+  sha256: "2.16.840.1.101.3.4.2.1",
+  ecdsaWithSHA256: "1.2.840.10045.4.3.2",
+  commonName: "2.5.4.3",
+  organization: "2.5.4.10",
+  extKeyUsage: "2.5.29.37",
+  timeStamping: "1.3.6.1.5.5.7.3.8",
+  signedData: "1.2.840.113549.1.7.2",
+  tstInfo: "1.2.840.113549.1.9.16.1.4",
+  contentType: "1.2.840.113549.1.9.3",
+  messageDigest: "1.2.840.113549.1.9.4",
+  signingTime: "1.2.840.113549.1.9.5",
+  signingCertificateV2: "1.2.840.113549.1.9.16.2.47",
+  // Placeholder policy for this stand-in
+  policy: "1.3.6.1.4.1.99999.3161.1",
+};
+
+// Minimal DER encoding
+
+const tlv = (tag, value) => {
+  const length = value.length;
+  if (length < 0x80) return Buffer.concat([Buffer.from([tag, length]), value]);
+  const lengthBytes = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    lengthBytes.unshift(remaining & 0xff);
+  }
+  return Buffer.concat([Buffer.from([tag, 0x80 | lengthBytes.length, ...lengthBytes]), value]);
+};
+
+const sequence = (...items) => tlv(0x30, Buffer.concat(items));
+// DER sorts SET OF members by their encoding
+const set = (...items) => tlv(0x31, Buffer.concat([...items].sort(Buffer.compare)));
+const explicit = (tagNumber, value) => tlv(0xa0 | tagNumber, value);
+const octetString = (value) => tlv(0x04, value);
+const utf8String = (value) => tlv(0x0c, Buffer.from(value, "utf8"));
+const booleanTrue = () => Buffer.from([0x01, 0x01, 0xff]);
+
+const integer = (value) => {
+  const hex = Buffer.isBuffer(value) ? null : value.toString(16);
+  let bytes = hex === null ? value : Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  while (bytes.length > 1 && bytes[0] === 0 && !(bytes[1] & 0x80)) bytes = bytes.subarray(1);
+  if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  return tlv(0x02, bytes);
+};
+
+const oid = (dotted) => {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const part of rest) {
+    const encoded = [part & 0x7f];
+    for (let value = Math.floor(part / 128); value > 0; value = Math.floor(value / 128)) {
+      encoded.unshift(0x80 | (value & 0x7f));
+    }
+    bytes.push(...encoded);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+};
+
+const pad = (value, length = 2) => String(value).padStart(length, "0");
+const timeDigits = (date) =>
+  `${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+const utcTime = (date) => tlv(0x17, Buffer.from(`${pad(date.getUTCFullYear() % 100)}${timeDigits(date)}Z`));
+const generalizedTime = (date) => tlv(0x18, Buffer.from(`${date.getUTCFullYear()}${timeDigits(date)}Z`));
+
+// Minimal DER decoding, enough for a TimeStampReq
+
+const decode = (bytes, offset = 0) => {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[offset + 2 + i];
+    header += count;
+  }
+  const end = offset + header + length;
+  if (tag === undefined || end > bytes.length) throw new Error("Truncated DER");
+  const value = bytes.subarray(offset + header, end);
+  const children = [];
+  if (tag & 0x20) {
+    for (let childOffset = 0; childOffset < value.length; ) {
+      const child = decode(value, childOffset);
+      children.push(child);
+      childOffset += child.bytes.length;
+    }
+  }
+  return { tag, bytes: bytes.subarray(offset, end), value, children };
+};
+
+// The authority's key and certificate
+
+const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const signatureAlgorithm = sequence(oid(OID.ecdsaWithSHA256));
+const tsaName = sequence(
+  set(sequence(oid(OID.commonName), utf8String("DigiSigini Local TSA"))),
+  set(sequence(oid(OID.organization), utf8String("Development only"))),
+);
+const certificateSerial = integer(Buffer.concat([Buffer.from([0x01]), randomBytes(15)]));
+const notBefore = new Date(Date.now() - 60 * 60 * 1000);
+const notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+const tbsCertificate = sequence(
+  explicit(0, integer(2)),
+  certificateSerial,
+  signatureAlgorithm,
+  tsaName,
+  sequence(utcTime(notBefore), utcTime(notAfter)),
+  tsaName,
+  publicKey.export({ type: "spki", format: "der" }),
+  // RFC 3161 requires a critical extended key usage of timeStamping only
+  explicit(3, sequence(sequence(oid(OID.extKeyUsage), booleanTrue(), octetString(sequence(oid(OID.timeStamping)))))),
+);
+const certificate = sequence(
+  tbsCertificate,
+  signatureAlgorithm,
+  tlv(0x03, Buffer.concat([Buffer.from([0]), sign("sha256", tbsCertificate, { key: privateKey, dsaEncoding: "der" })])),
+);
+const certificateHash = createHash("sha256").update(certificate).digest();
+
+let nextSerial = 1;
+
+const createToken = (request) => {
+  const [, messageImprint, ...optional] = request.children;
+  const nonce = optional.find((field) => field.tag === 0x02);
+  const certReq = optional.some((field) => field.tag === 0x01 && field.value[0] !== 0);
+
+  const tstInfo = sequence(
+    integer(1),
+    oid(OID.policy),
+    messageImprint.bytes,
+    integer(nextSerial++),
+    generalizedTime(new Date()),
+    // Accuracy of one second
+    sequence(integer(1)),
+    ...(nonce ? [nonce.bytes] : []),
+  );
+
+  const attributes = [
+    sequence(oid(OID.contentType), set(oid(OID.tstInfo))),
+    sequence(oid(OID.signingTime), set(utcTime(new Date()))),
+    sequence(oid(OID.messageDigest), set(octetString(createHash("sha256").update(tstInfo).digest()))),
+    // RFC 5816 ESSCertIDv2 with the default SHA-256 hash algorithm
+    sequence(oid(OID.signingCertificateV2), set(sequence(sequence(sequence(octetString(certificateHash)))))),
+  ];
+  const signedAttributes = set(...attributes);
+
+  const signerInfo = sequence(
+    integer(1),
+    sequence(tsaName, certificateSerial),
+    sequence(oid(OID.sha256)),
+    Buffer.concat([Buffer.from([0xa0]), signedAttributes.subarray(1)]),
+    signatureAlgorithm,
+    octetString(sign("sha256", signedAttributes, { key: privateKey, dsaEncoding: "der" })),
+  );
+
+  const signedData = sequence(
+    integer(3),
+    set(sequence(oid(OID.sha256))),
+    sequence(oid(OID.tstInfo), explicit(0, octetString(tstInfo))),
+    ...(certReq ? [explicit(0, certificate)] : []),
+    set(signerInfo),
+  );
+  return sequence(oid(OID.signedData), explicit(0, signedData));
+};
+
+// PKIStatus 2 is "rejection", with PKIFailureInfo bit 5, badDataFormat
+const rejection = () => sequence(sequence(integer(2), tlv(0x03, Buffer.from([0x02, 0x04]))));
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== "POST") {
+    res.writeHead(405, { Allow: "POST, OPTIONS" }).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    let response;
+    try {
+      response = sequence(sequence(integer(0)), createToken(decode(Buffer.concat(chunks))));
+    } catch (error) {
+      console.error("Rejected timestamp request:", error.message);
+      response = rejection();
+    }
+    res.writeHead(200, { "Content-Type": "application/timestamp-reply" }).end(response);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Local timestamp authority listening on http://localhost:${PORT}`);
+  console.log(`Certificate SHA-256: ${certificateHash.toString("hex")}`);
+  console.log(`VITE_TSA_TRUST_ANCHOR=${certificate.toString("base64")}`);
+});
@@ -8,9 +8,14 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import SignDocument from "./pages/SignDocument";
 import Documents from "./pages/Documents";
+import DocumentDetail from "./pages/DocumentDetail";
 import VerifySignature from "./pages/VerifySignature";
+import PublicVerify from "./pages/PublicVerify";
 import AuditTrail from "./pages/AuditTrail";
 import Profile from "./pages/Profile";
+import SigningRequests from "./pages/SigningRequests";
+import Inbox from "./pages/Inbox";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,9 +32,14 @@ const App = () => (
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/sign" element={<SignDocument />} />
           <Route path="/documents" element={<Documents />} />
+          <Route path="/documents/:id" element={<DocumentDetail />} />
           <Route path="/verify" element={<VerifySignature />} />
+          <Route path="/v/:documentId" element={<PublicVerify />} />
           <Route path="/audit" element={<AuditTrail />} />
           <Route path="/profile" element={<Profile />} />
+          <Route path="/requests" element={<SigningRequests />} />
+          <Route path="/inbox" element={<Inbox />} />
+          <Route path="/admin" element={<Admin />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,167 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_RESOURCE_TYPES,
+  EMPTY_AUDIT_LOG_FILTERS,
+  hasAuditLogFilters,
+  type AuditLogFilters,
+} from "@/utils/auditLog";
+
+// Radix selects can't have an empty value, so "no filter" gets its own
+const ALL = "all";
+
+interface FilterOption {
+  id: string;
+  label: string;
+}
+
+interface AuditLogFilterBarProps {
+  filters: AuditLogFilters;
+  onChange: (changes: Partial<AuditLogFilters>) => void;
+  // The document and user filters are only offered when there is something to pick from
+  documents?: FilterOption[];
+  users?: FilterOption[];
+  children?: ReactNode;
+}
+
+const FilterSelect = ({
+  label,
+  allLabel,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  allLabel: string;
+  value: string | null;
+  options: FilterOption[];
+  onChange: (value: string | null) => void;
+}) => {
+  // A bookmarked filter can name something that no longer exists
+  const withCurrent = value && !options.some((option) => option.id === value)
+    ? [...options, { id: value, label: `${label} ${value.slice(0, 8)}` }]
+    : options;
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value ?? ALL} onValueChange={(selected) => onChange(selected === ALL ? null : selected)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{allLabel}</SelectItem>
+          {withCurrent.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+// Filter controls for audit log views; the filters themselves live in the URL
+const AuditLogFilterBar = ({ filters, onChange, documents, users, children }: AuditLogFilterBarProps) => {
+  const [searchInput, setSearchInput] = useState(filters.search ?? "");
+
+  // Keeps the search box in step with the URL, e.g. after going back
+  useEffect(() => {
+    setSearchInput(filters.search ?? "");
+  }, [filters.search]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ search: searchInput.trim() || null });
+  };
+
+  return (
+    <Card className="border-border mb-6">
+      <CardContent className="pt-6 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          {users && (
+            <FilterSelect
+              label="User"
+              allLabel="All users"
+              value={filters.userId}
+              options={users}
+              onChange={(userId) => onChange({ userId })}
+            />
+          )}
+          <FilterSelect
+            label="Action"
+            allLabel="All actions"
+            value={filters.action}
+            options={Object.entries(AUDIT_ACTIONS).map(([action, { label }]) => ({ id: action, label }))}
+            onChange={(action) => onChange({ action })}
+          />
+          <FilterSelect
+            label="Resource"
+            allLabel="All resources"
+            value={filters.resourceType}
+            options={Object.entries(AUDIT_RESOURCE_TYPES).map(([resourceType, label]) => ({ id: resourceType, label }))}
+            onChange={(resourceType) => onChange({ resourceType })}
+          />
+          {documents && (
+            <FilterSelect
+              label="Document"
+              allLabel="All documents"
+              value={filters.documentId}
+              options={documents}
+              onChange={(documentId) => onChange({ documentId })}
+            />
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from ?? ""}
+              max={filters.to ?? undefined}
+              onChange={(e) => onChange({ from: e.target.value || null })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={filters.to ?? ""}
+              min={filters.from ?? undefined}
+              onChange={(e) => onChange({ to: e.target.value || null })}
+            />
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+            <Input
+              placeholder="Search entry details, e.g. a file name, email or key fingerprint"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+            <Button type="submit" variant="outline">
+              <Search className="w-4 h-4 mr-2" />
+              Search
+            </Button>
+          </form>
+          {hasAuditLogFilters(filters) && (
+            <Button variant="ghost" onClick={() => onChange(EMPTY_AUDIT_LOG_FILTERS)}>
+              <X className="w-4 h-4 mr-2" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+        {children}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLogFilterBar;
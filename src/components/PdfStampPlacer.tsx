@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { getPdfPageSizes } from "@/utils/pades";
+import {
+  HANDWRITING_BAND_HEIGHT,
+  STAMP_HEIGHT,
+  getStampLines,
+  getStampSize,
+  type StampDetails,
+  type StampPlacement,
+} from "@/utils/pdfStamp";
+import { encodeQrCode, toSvgPath } from "@/utils/qrcode";
+import { toSvgDataUrl } from "@/utils/handwriting";
+
+interface PdfStampPlacerProps {
+  file: File;
+  details: StampDetails;
+  placement: StampPlacement | null;
+  onPlacementChange: (placement: StampPlacement | null) => void;
+}
+
+// The same layout as the PDF appearance, in PDF points with the y axis flipped
+const StampPreview = ({ details }: { details: StampDetails }) => {
+  const lines = getStampLines(details);
+  const { width, height } = getStampSize(details);
+  const qr = useMemo(() => encodeQrCode(details.verifyUrl), [details.verifyUrl]);
+  const handwriting = useMemo(
+    () => (details.handwriting ? toSvgDataUrl(details.handwriting) : null),
+    [details.handwriting]
+  );
+  const qrSide = STAMP_HEIGHT - 16;
+  const textX = 16 + qrSide;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-full" preserveAspectRatio="none">
+      <rect x="0.5" y="0.5" width={width - 1} height={height - 1} fill="white" stroke="rgb(38, 89, 191)" />
+      {handwriting && (
+        <>
+          <image href={handwriting} x="8" y="3" width={width - 16} height={HANDWRITING_BAND_HEIGHT - 6} />
+          <line x1="8" y1={HANDWRITING_BAND_HEIGHT} x2={width - 8} y2={HANDWRITING_BAND_HEIGHT} stroke="#b3b3b3" strokeWidth="0.5" />
+        </>
+      )}
+      <g transform={`translate(0 ${height - STAMP_HEIGHT})`}>
+        <svg x="8" y="8" width={qrSide} height={qrSide} viewBox={`0 0 ${qr.size} ${qr.size}`} shapeRendering="crispEdges">
+          <path d={toSvgPath(qr)} fill="black" />
+        </svg>
+        <g fontFamily="Helvetica, Arial, sans-serif">
+          <text x={textX} y={14} fontSize="6.5" fill="#4d4d4d">{lines.title}</text>
+          <text x={textX} y={27} fontSize="10" fontWeight="bold" fill="black">{lines.name}</text>
+          {lines.organization && <text x={textX} y={38} fontSize="7.5" fill="black">{lines.organization}</text>}
+          <text x={textX} y={49} fontSize="7" fill="black">{lines.date}</text>
+          <text x={textX} y={STAMP_HEIGHT - 21} fontSize="5.5" fill="#4d4d4d">Key fingerprint</text>
+        </g>
+        <g fontFamily="Courier, monospace" fontSize="5" fill="#4d4d4d">
+          <text x={textX} y={STAMP_HEIGHT - 14}>{lines.fingerprint[0]}</text>
+          <text x={textX} y={STAMP_HEIGHT - 8}>{lines.fingerprint[1]}</text>
+        </g>
+      </g>
+    </svg>
+  );
+};
+
+const PdfStampPlacer = ({ file, details, placement, onPlacementChange }: PdfStampPlacerProps) => {
+  const [pageSizes, setPageSizes] = useState<{ width: number; height: number }[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragOffset = useRef<{ x: number; y: number } | null>(null);
+  const previewUrl = useMemo(() => URL.createObjectURL(file), [file]);
+
+  useEffect(() => () => URL.revokeObjectURL(previewUrl), [previewUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPageSizes(null);
+    setError(null);
+    file.arrayBuffer()
+      .then((data) => getPdfPageSizes(new Uint8Array(data)))
+      .then((sizes) => {
+        if (!cancelled) setPageSizes(sizes);
+      })
+      .catch((error) => {
+        console.error("Error reading PDF pages:", error);
+        if (!cancelled) setError(error.message || "This PDF cannot be stamped");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">Signature stamp unavailable: {error}</p>;
+  }
+  if (!pageSizes) {
+    return (
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Reading PDF pages...
+      </p>
+    );
+  }
+
+  const page = pageSizes[placement?.pageIndex ?? 0] ?? pageSizes[0];
+  const stampSize = getStampSize(details);
+  const stampWidth = Math.min(stampSize.width / page.width, 1);
+  const stampHeight = Math.min(stampSize.height / page.height, 1);
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  // Moves the stamp so the pointer keeps its grab offset; positions are page fractions
+  const moveTo = (event: React.PointerEvent, offset: { x: number; y: number }) => {
+    if (!placement || !overlayRef.current) return;
+    const bounds = overlayRef.current.getBoundingClientRect();
+    onPlacementChange({
+      ...placement,
+      x: clamp((event.clientX - bounds.left) / bounds.width - offset.x, 1 - stampWidth),
+      y: clamp((event.clientY - bounds.top) / bounds.height - offset.y, 1 - stampHeight),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="visible-stamp">Visible signature stamp</Label>
+          <p className="text-xs text-muted-foreground">
+            Shows your name, organization, signing date, key fingerprint, handwritten signature if attached and a QR code to the verification page.
+          </p>
+        </div>
+        <Switch
+          id="visible-stamp"
+          checked={placement !== null}
+          onCheckedChange={(checked) =>
+            onPlacementChange(checked ? { pageIndex: pageSizes.length - 1, x: 1 - stampWidth - 0.05, y: 1 - stampHeight - 0.05 } : null)
+          }
+        />
+      </div>
+
+      {placement && (
+        <>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="stamp-page" className="whitespace-nowrap">Page</Label>
+            <Select
+              value={String(placement.pageIndex)}
+              onValueChange={(value) => onPlacementChange({ ...placement, pageIndex: Number(value) })}
+            >
+              <SelectTrigger id="stamp-page" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizes.map((_, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {index + 1} of {pageSizes.length}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <AspectRatio ratio={page.width / page.height} className="border border-border rounded-md overflow-hidden bg-white">
+            {/* The browser's viewer renders the page; it is scaled to fit, so the preview matches the page box */}
+            <iframe
+              key={placement.pageIndex}
+              src={`${previewUrl}#page=${placement.pageIndex + 1}&toolbar=0&navpanes=0&view=Fit`}
+              title="PDF preview"
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            />
+            <div
+              ref={overlayRef}
+              className="absolute inset-0 cursor-crosshair touch-none"
+              onPointerDown={(event) => {
+                // Clicking the page centres the stamp on the pointer
+                dragOffset.current = { x: stampWidth / 2, y: stampHeight / 2 };
+                event.currentTarget.setPointerCapture(event.pointerId);
+                moveTo(event, dragOffset.current);
+              }}
+              onPointerMove={(event) => {
+                if (dragOffset.current) moveTo(event, dragOffset.current);
+              }}
+              onPointerUp={() => {
+                dragOffset.current = null;
+              }}
+            >
+              <div
+                className="absolute shadow-md cursor-move"
+                style={{
+                  left: `${placement.x * 100}%`,
+                  top: `${placement.y * 100}%`,
+                  width: `${stampWidth * 100}%`,
+                  height: `${stampHeight * 100}%`,
+                }}
+                onPointerDown={(event) => {
+                  event.stopPropagation();
+                  const bounds = event.currentTarget.getBoundingClientRect();
+                  const overlay = overlayRef.current!.getBoundingClientRect();
+                  dragOffset.current = {
+                    x: (event.clientX - bounds.left) / overlay.width,
+                    y: (event.clientY - bounds.top) / overlay.height,
+                  };
+                  overlayRef.current!.setPointerCapture(event.pointerId);
+                }}
+              >
+                <StampPreview details={details} />
+              </div>
+            </div>
+          </AspectRatio>
+          <p className="text-xs text-muted-foreground">
+            Drag the stamp or click where it should go. The QR code links to this document's verification page.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PdfStampPlacer;
@@ -0,0 +1,112 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser, Undo2 } from "lucide-react";
+import { drawStrokes, isDrawingEmpty, type HandwrittenSignature } from "@/utils/handwriting";
+
+// Drawing size in CSS pixels; the canvas is scaled to fit its container
+const PAD_WIDTH = 480;
+const PAD_HEIGHT = 160;
+
+interface SignaturePadProps {
+  value: HandwrittenSignature | null;
+  onChange: (drawing: HandwrittenSignature | null) => void;
+  disabled?: boolean;
+}
+
+const SignaturePad = ({ value, onChange, disabled }: SignaturePadProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The stroke in progress, kept out of state so drawing doesn't re-render on every move
+  const currentStroke = useRef<[number, number][] | null>(null);
+  const strokes = value?.strokes ?? [];
+
+  const redraw = (extra?: [number, number][]) => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== PAD_WIDTH * ratio) {
+      canvas.width = PAD_WIDTH * ratio;
+      canvas.height = PAD_HEIGHT * ratio;
+    }
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    drawStrokes(context, { width: PAD_WIDTH, height: PAD_HEIGHT, strokes: extra ? [...strokes, extra] : strokes });
+  };
+
+  useEffect(() => {
+    redraw();
+  });
+
+  const toPoint = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return [
+      ((event.clientX - bounds.left) / bounds.width) * PAD_WIDTH,
+      ((event.clientY - bounds.top) / bounds.height) * PAD_HEIGHT,
+    ];
+  };
+
+  const finishStroke = () => {
+    const stroke = currentStroke.current;
+    currentStroke.current = null;
+    if (stroke) {
+      onChange({ width: PAD_WIDTH, height: PAD_HEIGHT, strokes: [...strokes, stroke] });
+    }
+  };
+
+  const updateStrokes = (next: [number, number][][]) => {
+    const drawing = { width: PAD_WIDTH, height: PAD_HEIGHT, strokes: next };
+    onChange(isDrawingEmpty(drawing) ? null : drawing);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        aria-label="Signature pad"
+        className="w-full rounded-lg border-2 border-dashed border-border bg-white touch-none cursor-crosshair"
+        style={{ aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}` }}
+        onPointerDown={(event) => {
+          if (disabled) return;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          currentStroke.current = [toPoint(event)];
+          redraw(currentStroke.current);
+        }}
+        onPointerMove={(event) => {
+          if (!currentStroke.current) return;
+          currentStroke.current.push(toPoint(event));
+          redraw(currentStroke.current);
+        }}
+        onPointerUp={finishStroke}
+        onPointerCancel={finishStroke}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">Sign inside the box with your mouse, finger or stylus</p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateStrokes(strokes.slice(0, -1))}
+            disabled={disabled || strokes.length === 0}
+          >
+            <Undo2 className="w-3 h-3 mr-1" />
+            Undo
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateStrokes([])}
+            disabled={disabled || strokes.length === 0}
+          >
+            <Eraser className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import { CheckCircle, XCircle, PenLine, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatFingerprint, isSignatureAlgorithm, SIGNATURE_ALGORITHMS } from "@/utils/crypto";
+import type { SignatureNode } from "@/utils/countersign";
+
+interface SignatureTreeProps {
+  nodes: SignatureNode[];
+  currentUserId?: string;
+  busyId?: string | null;
+  onCountersign?: (node: SignatureNode) => void;
+}
+
+// Signatures of a document with their countersignatures nested below them
+const SignatureTree = ({ nodes, currentUserId, busyId, onCountersign }: SignatureTreeProps) => (
+  <div className="space-y-2">
+    {nodes.map((node) => {
+      const { signature } = node;
+      const key = signature.public_keys;
+      const isOwn = signature.user_id === currentUserId;
+      // Countersigning your own signature, or one you already countersigned, attests nothing new
+      const canCountersign = onCountersign && node.valid && !isOwn &&
+        !node.countersignatures.some((child) => child.signature.user_id === currentUserId);
+
+      return (
+        <div key={signature.id} className="space-y-2">
+          <div className="flex items-start gap-2 rounded-md border border-border p-2 text-sm">
+            {node.valid ? (
+              <CheckCircle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${key?.revoked_at ? "text-yellow-500" : "text-primary"}`} />
+            ) : (
+              <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+            )}
+            <div className="flex-1 min-w-0 space-y-0.5">
+              <p className="font-medium">
+                {signature.parent_signature_id ? "Countersignature" : "Signature"}
+                {isOwn && <span className="text-muted-foreground font-normal"> (you)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(signature.created_at), "PPP 'at' p")}
+                {isSignatureAlgorithm(signature.algorithm) && ` · ${SIGNATURE_ALGORITHMS[signature.algorithm].label}`}
+                {key && ` · key version ${key.version}`}
+              </p>
+              {key && (
+                <p className="text-xs text-muted-foreground font-mono truncate">{formatFingerprint(key.fingerprint)}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {node.valid
+                  ? signature.parent_signature_id ? "Valid, covers the signature above" : "Valid for this content"
+                  : key ? "Invalid signature" : "Signing key not found"}
+                {node.valid && key?.revoked_at && `, but the key was revoked on ${new Date(key.revoked_at).toLocaleString()}`}
+              </p>
+            </div>
+            {canCountersign && (
+              <Button variant="outline" size="sm" onClick={() => onCountersign(node)} disabled={!!busyId}>
+                {busyId === signature.id ? (
+                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                ) : (
+                  <PenLine className="w-3 h-3 mr-1" />
+                )}
+                Countersign
+              </Button>
+            )}
+          </div>
+          {node.countersignatures.length > 0 && (
+            <div className="ml-4 pl-3 border-l border-border">
+              <SignatureTree
+                nodes={node.countersignatures}
+                currentUserId={currentUserId}
+                busyId={busyId}
+                onCountersign={onCountersign}
+              />
+            </div>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default SignatureTree;
@@ -0,0 +1,49 @@
+import { format } from "date-fns";
+import { getCurrentSigners, sortSigners, type DocumentSigner, type SigningRequest } from "@/utils/signingRequests";
+
+interface SignerListProps {
+  request: SigningRequest;
+  currentEmail?: string;
+}
+
+const describeSigner = (signer: DocumentSigner, isCurrent: boolean) => {
+  const at = (value: string | null) => (value ? ` ${format(new Date(value), "PPP 'at' p")}` : "");
+  switch (signer.status) {
+    case "signed":
+      return `Signed${at(signer.signed_at)}`;
+    case "declined":
+      return `Declined${at(signer.responded_at)}`;
+    case "delegated":
+      return `Delegated to ${signer.delegated_to}${at(signer.responded_at)}`;
+    default:
+      return isCurrent ? "Waiting for signature" : "Not yet their turn";
+  }
+};
+
+// Signers of a request in signing order, with where each of them stands
+const SignerList = ({ request, currentEmail }: SignerListProps) => {
+  const current = getCurrentSigners(request).map((signer) => signer.id);
+  return (
+    <div className="space-y-1">
+      {sortSigners(request.document_signers).map((signer) => (
+        <div key={signer.id} className="text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className={`truncate ${signer.status === "delegated" ? "line-through text-muted-foreground" : ""}`}>
+              {request.signing_order === "sequential" && <span className="text-muted-foreground mr-2">{signer.position}.</span>}
+              {signer.email}
+              {signer.email === currentEmail?.toLowerCase() && <span className="text-muted-foreground"> (you)</span>}
+            </span>
+            <span className={`text-xs whitespace-nowrap ${signer.status === "declined" ? "text-destructive" : "text-muted-foreground"}`}>
+              {describeSigner(signer, current.includes(signer.id))}
+            </span>
+          </div>
+          {signer.decline_reason && (
+            <p className="text-xs text-muted-foreground ml-6">Reason: {signer.decline_reason}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SignerList;
@@ -17,39 +17,114 @@ export type Database = {
       audit_logs: {
         Row: {
           action: string
+          chain_position: number
           created_at: string
+          entry_hash: string
           id: string
           ip_address: string | null
           metadata: Json | null
+          metadata_search: string | null
+          previous_hash: string | null
           resource_id: string | null
           resource_type: string
           user_agent: string | null
           user_id: string | null
+          user_previous_hash: string | null
         }
         Insert: {
           action: string
+          chain_position?: number
           created_at?: string
+          entry_hash?: string
           id?: string
           ip_address?: string | null
           metadata?: Json | null
+          metadata_search?: never
+          previous_hash?: string | null
           resource_id?: string | null
           resource_type: string
           user_agent?: string | null
           user_id?: string | null
+          user_previous_hash?: string | null
         }
         Update: {
           action?: string
+          chain_position?: number
           created_at?: string
+          entry_hash?: string
           id?: string
           ip_address?: string | null
           metadata?: Json | null
+          metadata_search?: never
+          previous_hash?: string | null
           resource_id?: string | null
           resource_type?: string
           user_agent?: string | null
           user_id?: string | null
+          user_previous_hash?: string | null
         }
         Relationships: []
       }
+      document_signers: {
+        Row: {
+          created_at: string
+          decline_reason: string | null
+          delegated_to: string | null
+          document_id: string
+          email: string
+          id: string
+          position: number
+          responded_at: string | null
+          signature_id: string | null
+          signed_at: string | null
+          status: Database["public"]["Enums"]["signer_status"]
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          decline_reason?: string | null
+          delegated_to?: string | null
+          document_id: string
+          email: string
+          id?: string
+          position: number
+          responded_at?: string | null
+          signature_id?: string | null
+          signed_at?: string | null
+          status?: Database["public"]["Enums"]["signer_status"]
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          decline_reason?: string | null
+          delegated_to?: string | null
+          document_id?: string
+          email?: string
+          id?: string
+          position?: number
+          responded_at?: string | null
+          signature_id?: string | null
+          signed_at?: string | null
+          status?: Database["public"]["Enums"]["signer_status"]
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_signers_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_signers_signature_id_fkey"
+            columns: ["signature_id"]
+            isOneToOne: false
+            referencedRelation: "signatures"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           created_at: string
@@ -57,6 +132,7 @@ export type Database = {
           file_name: string
           file_path: string
           id: string
+          signing_order: Database["public"]["Enums"]["signing_order"] | null
           status: Database["public"]["Enums"]["document_status"]
           updated_at: string
           user_id: string
@@ -67,6 +143,7 @@ export type Database = {
           file_name: string
           file_path: string
           id?: string
+          signing_order?: Database["public"]["Enums"]["signing_order"] | null
           status?: Database["public"]["Enums"]["document_status"]
           updated_at?: string
           user_id: string
@@ -77,6 +154,7 @@ export type Database = {
           file_name?: string
           file_path?: string
           id?: string
+          signing_order?: Database["public"]["Enums"]["signing_order"] | null
           status?: Database["public"]["Enums"]["document_status"]
           updated_at?: string
           user_id?: string
@@ -87,6 +165,7 @@ export type Database = {
         Row: {
           created_at: string
           full_name: string | null
+          handwritten_signature: string | null
           id: string
           organization: string | null
           updated_at: string
@@ -94,6 +173,7 @@ export type Database = {
         Insert: {
           created_at?: string
           full_name?: string | null
+          handwritten_signature?: string | null
           id: string
           organization?: string | null
           updated_at?: string
@@ -101,40 +181,98 @@ export type Database = {
         Update: {
           created_at?: string
           full_name?: string | null
+          handwritten_signature?: string | null
           id?: string
           organization?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      public_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          fingerprint: string
+          id: string
+          retired_at: string | null
+          revocation_reason: string | null
+          revocation_recorded_at: string | null
+          revoked_at: string | null
+          spki: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          fingerprint: string
+          id?: string
+          retired_at?: string | null
+          revocation_reason?: string | null
+          revocation_recorded_at?: string | null
+          revoked_at?: string | null
+          spki: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          fingerprint?: string
+          id?: string
+          retired_at?: string | null
+          revocation_reason?: string | null
+          revocation_recorded_at?: string | null
+          revoked_at?: string | null
+          spki?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
       signatures: {
         Row: {
+          algorithm: string
           created_at: string
           document_id: string
+          handwritten_signature: string | null
           id: string
           ip_address: string | null
+          parent_signature_id: string | null
+          public_key_id: string | null
           signature_data: string
           signature_hash: string
+          timestamp_token: string | null
           user_agent: string | null
           user_id: string
         }
         Insert: {
+          algorithm?: string
           created_at?: string
           document_id: string
+          handwritten_signature?: string | null
           id?: string
           ip_address?: string | null
+          parent_signature_id?: string | null
+          public_key_id?: string | null
           signature_data: string
           signature_hash: string
+          timestamp_token?: string | null
           user_agent?: string | null
           user_id: string
         }
         Update: {
+          algorithm?: string
           created_at?: string
           document_id?: string
+          handwritten_signature?: string | null
           id?: string
           ip_address?: string | null
+          parent_signature_id?: string | null
+          public_key_id?: string | null
           signature_data?: string
           signature_hash?: string
+          timestamp_token?: string | null
           user_agent?: string | null
           user_id?: string
         }
@@ -146,6 +284,20 @@ export type Database = {
             referencedRelation: "documents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "signatures_parent_signature_id_fkey"
+            columns: ["parent_signature_id"]
+            isOneToOne: false
+            referencedRelation: "signatures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signatures_public_key_id_fkey"
+            columns: ["public_key_id"]
+            isOneToOne: false
+            referencedRelation: "public_keys"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -174,6 +326,100 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_list_users: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          document_count: number
+          email: string
+          full_name: string
+          id: string
+          last_sign_in_at: string
+          organization: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          signature_count: number
+        }[]
+      }
+      admin_set_role: {
+        Args: {
+          _granted: boolean
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      admin_statistics: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          active_key_count: number
+          admin_count: number
+          countersignature_count: number
+          document_count: number
+          documents_last_30_days: number
+          pending_document_count: number
+          rejected_document_count: number
+          revoked_key_count: number
+          signature_count: number
+          signatures_last_30_days: number
+          signed_document_count: number
+          signing_request_count: number
+          timestamped_signature_count: number
+          user_count: number
+          verified_document_count: number
+        }[]
+      }
+      audit_log_entry_hash: {
+        Args: {
+          entry: Database["public"]["Tables"]["audit_logs"]["Row"]
+        }
+        Returns: string
+      }
+      current_user_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      decline_signing_request: {
+        Args: {
+          _document_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      delegate_signing_request: {
+        Args: {
+          _document_id: string
+          _email: string
+        }
+        Returns: undefined
+      }
+      get_document_participants: {
+        Args: {
+          _document_id: string
+        }
+        Returns: {
+          email: string
+          full_name: string
+          user_id: string
+        }[]
+      }
+      get_public_key_owner_name: {
+        Args: {
+          _key_id: string
+        }
+        Returns: string
+      }
+      get_public_verification: {
+        Args: {
+          _document_id: string
+        }
+        Returns: {
+          algorithm: string
+          file_hash: string
+          public_key: string
+          signature_data: string
+          signer_name: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -181,10 +427,67 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_document_owner: {
+        Args: {
+          _document_id: string
+        }
+        Returns: boolean
+      }
+      is_document_signer: {
+        Args: {
+          _document_id: string
+        }
+        Returns: boolean
+      }
+      is_recorded_document_owner: {
+        Args: {
+          _document_id: string
+        }
+        Returns: boolean
+      }
+      request_client_info: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          ip_address: string
+          user_agent: string
+        }[]
+      }
+      revoke_public_key: {
+        Args: {
+          _effective_at: string
+          _key_id: string
+          _reason: string
+        }
+        Returns: {
+          algorithm: string
+          created_at: string
+          fingerprint: string
+          id: string
+          retired_at: string | null
+          revocation_reason: string | null
+          revocation_recorded_at: string | null
+          revoked_at: string | null
+          spki: string
+          user_id: string
+          version: number
+        }
+      }
+      write_audit_log: {
+        Args: {
+          _action: string
+          _metadata: Json
+          _resource_id: string
+          _resource_type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
       document_status: "pending" | "signed" | "verified" | "rejected"
+      signer_status: "pending" | "signed" | "declined" | "delegated"
+      signing_order: "sequential" | "parallel"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -314,6 +617,8 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "user"],
       document_status: ["pending", "signed", "verified", "rejected"],
+      signer_status: ["pending", "signed", "declined", "delegated"],
+      signing_order: ["sequential", "parallel"],
     },
   },
 } as const
@@ -0,0 +1,517 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Shield,
+  ArrowLeft,
+  Activity,
+  BarChart3,
+  Users,
+  FileText,
+  FileSignature,
+  Key,
+  Clock,
+  Loader2,
+  Lock,
+} from "lucide-react";
+import { format } from "date-fns";
+import type { User } from "@supabase/supabase-js";
+import AuditLogFilterBar from "@/components/AuditLogFilterBar";
+import {
+  AUDIT_ACTIONS,
+  EMPTY_AUDIT_LOG_FILTERS,
+  fetchAuditLogs,
+  getAuditEntrySubject,
+  hasAuditLogFilters,
+  parseAuditLogFilters,
+  toAuditLogSearchParams,
+  type AuditLog,
+  type AuditLogFilters,
+} from "@/utils/auditLog";
+import { getAdminStatistics, isAdmin, listUsers, setUserRole, type AdminStatistics, type AdminUser } from "@/utils/admin";
+
+const TABS = ["overview", "users", "audit"] as const;
+type AdminTab = (typeof TABS)[number];
+
+const getUserLabel = (user: Pick<AdminUser, "full_name" | "email" | "id">) =>
+  user.full_name || user.email || user.id;
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Tab and audit filters live in the URL, so views can be bookmarked
+  const filters = useMemo(() => parseAuditLogFilters(searchParams), [searchParams]);
+  const tab: AdminTab = TABS.find((value) => value === searchParams.get("tab")) ?? "overview";
+  const [user, setUser] = useState<User | null>(null);
+  // null until the role check has come back
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const [statistics, setStatistics] = useState<AdminStatistics | null>(null);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [userSearch, setUserSearch] = useState("");
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [logsLoading, setLogsLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      setUser(session.user);
+
+      let admin = false;
+      try {
+        admin = await isAdmin(session.user.id);
+      } catch (error) {
+        console.error("Error checking admin role:", error);
+      }
+      setAuthorized(admin);
+      if (admin) {
+        loadStatistics();
+        loadUsers();
+      }
+    });
+  }, [navigate]);
+
+  // Reloads from the newest entry whenever the filters change
+  useEffect(() => {
+    if (!authorized) return;
+    let cancelled = false;
+
+    const loadAuditLogs = async () => {
+      setLogsLoading(true);
+      try {
+        const page = await fetchAuditLogs({ userId: null, filters });
+        if (cancelled) return;
+        setLogs(page.logs);
+        setNextCursor(page.nextCursor);
+      } catch (error: any) {
+        if (cancelled) return;
+        toast({
+          title: "Error",
+          description: error.message || "Failed to load audit logs",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLogsLoading(false);
+      }
+    };
+
+    loadAuditLogs();
+    return () => {
+      cancelled = true;
+    };
+  }, [authorized, filters, toast]);
+
+  const loadStatistics = async () => {
+    try {
+      setStatistics(await getAdminStatistics());
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load statistics",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await listUsers());
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load users",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (nextCursor === null) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchAuditLogs({ userId: null, filters, cursor: nextCursor });
+      setLogs((current) => [...current, ...page.logs]);
+      setNextCursor(page.nextCursor);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load audit logs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleAdminChange = async (target: AdminUser, granted: boolean) => {
+    setUpdatingUserId(target.id);
+    try {
+      await setUserRole(target.id, "admin", granted);
+      toast({
+        title: granted ? "Admin role granted" : "Admin role removed",
+        description: `${getUserLabel(target)} ${granted ? "is now an administrator" : "is no longer an administrator"}`,
+      });
+      await loadUsers();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the role",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const updateSearchParams = (tabValue: AdminTab, filterValues: AuditLogFilters) => {
+    const params = toAuditLogSearchParams(filterValues, searchParams);
+    params.set("tab", tabValue);
+    setSearchParams(params, { replace: true });
+  };
+
+  const showUserActivity = (target: AdminUser) => {
+    updateSearchParams("audit", { ...EMPTY_AUDIT_LOG_FILTERS, userId: target.id });
+  };
+
+  const usersById = useMemo(() => new Map(users.map((entry) => [entry.id, entry])), [users]);
+
+  const visibleUsers = users.filter((entry) => {
+    const query = userSearch.trim().toLowerCase();
+    return !query || [entry.full_name, entry.email, entry.organization]
+      .some((value) => value?.toLowerCase().includes(query));
+  });
+
+  const getActionBadge = (action: string) => {
+    const config = AUDIT_ACTIONS[action] || { label: action, variant: "secondary" as const };
+    return <Badge variant={config.variant}>{config.label}</Badge>;
+  };
+
+  if (authorized === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Shield className="w-12 h-12 mx-auto mb-4 text-primary animate-pulse" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const statisticCards = statistics
+    ? [
+        { title: "Users", value: statistics.user_count, detail: `${statistics.admin_count} administrators`, icon: Users },
+        {
+          title: "Documents",
+          value: statistics.document_count,
+          detail: `${statistics.documents_last_30_days} in the last 30 days`,
+          icon: FileText,
+        },
+        {
+          title: "Signatures",
+          value: statistics.signature_count,
+          detail: `${statistics.signatures_last_30_days} in the last 30 days`,
+          icon: FileSignature,
+        },
+        {
+          title: "Signing Keys",
+          value: statistics.active_key_count,
+          detail: `active, ${statistics.revoked_key_count} revoked`,
+          icon: Key,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold">DigiSigini</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold mb-2">Administration</h2>
+          <p className="text-muted-foreground">Users, roles and activity across the whole organization</p>
+        </div>
+
+        {!authorized ? (
+          <Card className="border-border">
+            <CardContent className="py-12 text-center">
+              <Lock className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <CardTitle className="mb-2">Administrators only</CardTitle>
+              <CardDescription className="mb-4">
+                Your account does not have the admin role. Ask an administrator to grant it.
+              </CardDescription>
+              <Button variant="outline" onClick={() => navigate("/dashboard")}>
+                Back to Dashboard
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs value={tab} onValueChange={(value) => updateSearchParams(value as AdminTab, filters)}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="overview">
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Overview
+              </TabsTrigger>
+              <TabsTrigger value="users">
+                <Users className="w-4 h-4 mr-2" />
+                Users
+              </TabsTrigger>
+              <TabsTrigger value="audit">
+                <Activity className="w-4 h-4 mr-2" />
+                Audit Trail
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-6">
+              {!statistics ? (
+                <div className="text-center py-12">
+                  <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                    {statisticCards.map(({ title, value, detail, icon: Icon }) => (
+                      <Card key={title} className="border-border bg-gradient-to-br from-card to-card/50">
+                        <CardHeader className="flex flex-row items-center justify-between pb-2">
+                          <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+                          <Icon className="w-4 h-4 text-primary" />
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold">{value}</div>
+                          <p className="text-xs text-muted-foreground">{detail}</p>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <Card className="border-border">
+                      <CardHeader>
+                        <CardTitle className="text-lg">Documents by Status</CardTitle>
+                        <CardDescription>{statistics.signing_request_count} sent as signing requests</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {[
+                          { label: "Pending", value: statistics.pending_document_count },
+                          { label: "Signed", value: statistics.signed_document_count },
+                          { label: "Verified", value: statistics.verified_document_count },
+                          { label: "Rejected", value: statistics.rejected_document_count },
+                        ].map(({ label, value }) => (
+                          <div key={label} className="space-y-1">
+                            <div className="flex justify-between text-sm">
+                              <span>{label}</span>
+                              <span className="text-muted-foreground">{value}</span>
+                            </div>
+                            <div className="h-2 rounded-full bg-muted">
+                              <div
+                                className="h-2 rounded-full bg-primary"
+                                style={{ width: `${statistics.document_count ? (value / statistics.document_count) * 100 : 0}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+
+                    <Card className="border-border">
+                      <CardHeader>
+                        <CardTitle className="text-lg">Signatures</CardTitle>
+                        <CardDescription>{statistics.signature_count} signatures in total</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-3 text-sm">
+                        <div className="flex justify-between">
+                          <span className="flex items-center gap-2">
+                            <FileSignature className="w-4 h-4 text-primary" />
+                            Signatures on documents
+                          </span>
+                          <span className="text-muted-foreground">
+                            {statistics.signature_count - statistics.countersignature_count}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="flex items-center gap-2">
+                            <FileSignature className="w-4 h-4 text-primary" />
+                            Countersignatures
+                          </span>
+                          <span className="text-muted-foreground">{statistics.countersignature_count}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="flex items-center gap-2">
+                            <Clock className="w-4 h-4 text-primary" />
+                            With a trusted timestamp
+                          </span>
+                          <span className="text-muted-foreground">{statistics.timestamped_signature_count}</span>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="users" className="space-y-4">
+              <Input
+                placeholder="Search by name, email or organization"
+                value={userSearch}
+                onChange={(e) => setUserSearch(e.target.value)}
+                className="max-w-sm"
+              />
+              <Card className="border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Organization</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Last sign-in</TableHead>
+                      <TableHead className="text-right">Documents</TableHead>
+                      <TableHead className="text-right">Signatures</TableHead>
+                      <TableHead>Admin</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleUsers.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <div className="font-medium">{entry.full_name || "Unnamed user"}</div>
+                          <div className="text-xs text-muted-foreground">{entry.email}</div>
+                        </TableCell>
+                        <TableCell>{entry.organization || "—"}</TableCell>
+                        <TableCell>{format(new Date(entry.created_at), "PPP")}</TableCell>
+                        <TableCell>
+                          {entry.last_sign_in_at ? format(new Date(entry.last_sign_in_at), "PPP 'at' p") : "Never"}
+                        </TableCell>
+                        <TableCell className="text-right">{entry.document_count}</TableCell>
+                        <TableCell className="text-right">{entry.signature_count}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={entry.roles.includes("admin")}
+                            onCheckedChange={(checked) => handleAdminChange(entry, checked)}
+                            // Admins can't demote themselves, so there is always one left
+                            disabled={updatingUserId !== null || entry.id === user?.id}
+                            aria-label={`Admin role for ${getUserLabel(entry)}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => showUserActivity(entry)}>
+                            <Activity className="w-4 h-4 mr-2" />
+                            Activity
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {visibleUsers.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                          {users.length === 0 ? "Loading users..." : "No users match this search"}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="audit">
+              <AuditLogFilterBar
+                filters={filters}
+                onChange={(changes) => updateSearchParams("audit", { ...filters, ...changes })}
+                users={users.map((entry) => ({ id: entry.id, label: getUserLabel(entry) }))}
+              />
+
+              {logsLoading ? (
+                <div className="text-center py-12">
+                  <Shield className="w-12 h-12 mx-auto mb-4 text-primary animate-pulse" />
+                  <p className="text-muted-foreground">Loading audit logs...</p>
+                </div>
+              ) : logs.length === 0 ? (
+                <Card className="border-border">
+                  <CardContent className="py-12 text-center">
+                    <Activity className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                    <CardTitle className="mb-2">
+                      {hasAuditLogFilters(filters) ? "No matching entries" : "No audit logs yet"}
+                    </CardTitle>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="space-y-4">
+                  <Card className="border-border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>Time</TableHead>
+                          <TableHead>User</TableHead>
+                          <TableHead>Action</TableHead>
+                          <TableHead>Subject</TableHead>
+                          <TableHead>IP</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {logs.map((log) => {
+                          const actor = log.user_id ? usersById.get(log.user_id) : undefined;
+                          return (
+                            <TableRow key={log.id}>
+                              <TableCell className="font-mono text-xs">{log.chain_position}</TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {format(new Date(log.created_at), "PPP 'at' p")}
+                              </TableCell>
+                              <TableCell>
+                                {actor ? getUserLabel(actor) : log.user_id ?? "Deleted user"}
+                              </TableCell>
+                              <TableCell>{getActionBadge(log.action)}</TableCell>
+                              <TableCell className="max-w-xs truncate">{getAuditEntrySubject(log)}</TableCell>
+                              <TableCell className="text-xs text-muted-foreground">{log.ip_address ?? "—"}</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </Card>
+                  {nextCursor !== null && (
+                    <div className="text-center">
+                      <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                        {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Load older entries
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
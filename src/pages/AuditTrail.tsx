@@ -1,13 +1,34 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, ArrowLeft, Activity } from "lucide-react";
+import { Shield, ArrowLeft, Activity, Link2, CheckCircle, XCircle, Loader2, Download, FileDown } from "lucide-react";
 import { format } from "date-fns";
 import type { User } from "@supabase/supabase-js";
+import { loadAuditChain, verifyAuditChain, type AuditChainBreak, type AuditChainVerification } from "@/utils/auditChain";
+import AuditLogFilterBar from "@/components/AuditLogFilterBar";
+import {
+  AUDIT_ACTIONS,
+  fetchAllAuditLogs,
+  fetchAuditLogs,
+  hasAuditLogFilters,
+  parseAuditLogFilters,
+  toAuditLogSearchParams,
+  type AuditLogFilters,
+} from "@/utils/auditLog";
+import {
+  AUDIT_EXPORT_TYPES,
+  createSignedAuditReport,
+  getAuditExportFileName,
+  toAuditLogCsv,
+  toAuditLogJsonl,
+  type AuditExportFormat,
+} from "@/utils/auditExport";
+import { getKeyPair } from "@/utils/keyStore";
+import { downloadBlob } from "@/utils/download";
 
 interface AuditLog {
   id: string;
@@ -16,14 +37,25 @@ interface AuditLog {
   created_at: string;
   ip_address: string | null;
   metadata: any;
+  chain_position: number;
+  entry_hash: string;
 }
 
 const AuditTrail = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The URL holds the filter state, so filtered views can be bookmarked
+  const filters = useMemo(() => parseAuditLogFilters(searchParams), [searchParams]);
   const [user, setUser] = useState<User | null>(null);
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [documents, setDocuments] = useState<{ id: string; file_name: string }[]>([]);
+  const [exporting, setExporting] = useState<AuditExportFormat | null>(null);
+  const [verifyingChain, setVerifyingChain] = useState(false);
+  const [chainResults, setChainResults] = useState<AuditChainVerification[]>([]);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -31,22 +63,53 @@ const AuditTrail = () => {
         navigate("/auth");
       } else {
         setUser(session.user);
-        loadAuditLogs(session.user.id);
+        supabase
+          .from("documents")
+          .select("id, file_name")
+          .order("created_at", { ascending: false })
+          .then(({ data }) => setDocuments(data || []));
       }
     });
   }, [navigate]);
 
-  const loadAuditLogs = async (userId: string) => {
+  // Reloads from the newest entry whenever the filters change
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const loadAuditLogs = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchAuditLogs({ userId: user.id, filters });
+        if (cancelled) return;
+        setLogs(page.logs);
+        setNextCursor(page.nextCursor);
+      } catch (error: any) {
+        if (cancelled) return;
+        toast({
+          title: "Error",
+          description: error.message || "Failed to load audit logs",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadAuditLogs();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, filters, toast]);
+
+  const handleLoadMore = async () => {
+    if (!user || nextCursor === null) return;
+
+    setLoadingMore(true);
     try {
-      const { data, error } = await supabase
-        .from("audit_logs")
-        .select("*")
-        .eq("user_id", userId)
-        .order("created_at", { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-      setLogs(data || []);
+      const page = await fetchAuditLogs({ userId: user.id, filters, cursor: nextCursor });
+      setLogs((current) => [...current, ...page.logs]);
+      setNextCursor(page.nextCursor);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -54,19 +117,113 @@ const AuditTrail = () => {
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  const getActionBadge = (action: string) => {
-    const actionMap: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
-      document_signed: { label: "Signed", variant: "default" },
-      document_uploaded: { label: "Uploaded", variant: "secondary" },
-      signature_verified: { label: "Verified", variant: "default" },
-      document_deleted: { label: "Deleted", variant: "destructive" },
-    };
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    setSearchParams(toAuditLogSearchParams({ ...filters, ...changes }, searchParams), { replace: true });
+  };
+
+  // Exports every entry matching the filters, not just the loaded pages
+  const handleExport = async (exportFormat: AuditExportFormat) => {
+    if (!user) return;
+
+    setExporting(exportFormat);
+    try {
+      const exportedAt = new Date();
+      const entries = await fetchAllAuditLogs({ userId: user.id, filters });
+      let contents: string | Uint8Array;
+
+      if (exportFormat === "csv") {
+        contents = toAuditLogCsv(entries);
+      } else if (exportFormat === "jsonl") {
+        contents = toAuditLogJsonl(entries);
+      } else {
+        const keys = await getKeyPair(user.id);
+        if (!keys) {
+          throw new Error("Generate your signing keys on the Sign Document page to export a signed report");
+        }
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("full_name, organization")
+          .eq("id", user.id)
+          .maybeSingle();
+        contents = await createSignedAuditReport({
+          logs: entries,
+          filters,
+          documentName: documents.find((doc) => doc.id === filters.documentId)?.file_name,
+          userId: user.id,
+          keys,
+          signer: {
+            name: profile?.full_name || null,
+            organization: profile?.organization || null,
+            email: user.email ?? null,
+          },
+          exportedAt,
+        });
+      }
+
+      downloadBlob(
+        new Blob([contents], { type: AUDIT_EXPORT_TYPES[exportFormat] }),
+        getAuditExportFileName(exportFormat, exportedAt)
+      );
+      toast({
+        title: "Audit log exported",
+        description: exportFormat === "pdf"
+          ? `Signed report of ${entries.length} entries. Its signature can be checked on the Verify page.`
+          : `${entries.length} entries exported`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message || "Failed to export the audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
 
-    const config = actionMap[action] || { label: action, variant: "secondary" as const };
+  // Walks the user's own chain, and for admins the chain of the whole log
+  const handleVerifyChain = async () => {
+    if (!user) return;
+
+    setVerifyingChain(true);
+    setChainResults([]);
+
+    try {
+      const results = [await verifyAuditChain(await loadAuditChain(user.id), "user")];
+
+      const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+      if (isAdmin) {
+        results.push(await verifyAuditChain(await loadAuditChain(null), "global"));
+      }
+      setChainResults(results);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to verify the audit chain",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifyingChain(false);
+    }
+  };
+
+  const chainBreaks = new Map<string, AuditChainBreak[]>();
+  for (const result of chainResults) {
+    for (const chainBreak of result.breaks) {
+      const entryBreaks = chainBreaks.get(chainBreak.entryId) ?? [];
+      // An altered entry is reported by both chains
+      if (!entryBreaks.some((existing) => existing.reason === chainBreak.reason)) {
+        chainBreaks.set(chainBreak.entryId, [...entryBreaks, chainBreak]);
+      }
+    }
+  }
+
+  const getActionBadge = (action: string) => {
+    const config = AUDIT_ACTIONS[action] || { label: action, variant: "secondary" as const };
     return <Badge variant={config.variant}>{config.label}</Badge>;
   };
 
@@ -93,6 +250,86 @@ const AuditTrail = () => {
           <p className="text-muted-foreground">Complete history of all security events and actions</p>
         </div>
 
+        <Card className="border-border mb-6">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Link2 className="w-5 h-5 text-primary" />
+                  Chain Integrity
+                </CardTitle>
+                <CardDescription>
+                  Every entry carries the hash of the one before it. Verifying recomputes each hash
+                  and shows any entry that was changed, removed or inserted afterwards.
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleVerifyChain} disabled={verifyingChain}>
+                {verifyingChain ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Link2 className="w-4 h-4 mr-2" />
+                )}
+                Verify Chain
+              </Button>
+            </div>
+          </CardHeader>
+          {chainResults.length > 0 && (
+            <CardContent className="space-y-4">
+              {chainResults.map((result) => (
+                <div key={result.scope} className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    {result.breaks.length === 0 ? (
+                      <CheckCircle className="w-4 h-4 text-primary flex-shrink-0" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+                    )}
+                    <span className="font-medium">
+                      {result.scope === "user" ? "Your entries" : "Entire log"}:
+                    </span>
+                    <span className="text-muted-foreground">
+                      {result.breaks.length === 0
+                        ? `${result.checked} entries verified, the chain is intact`
+                        : `${result.breaks.length} break(s) in ${result.checked} entries`}
+                    </span>
+                  </div>
+                  {result.breaks.map((chainBreak) => (
+                    <div
+                      key={`${chainBreak.entryId}-${chainBreak.reason}`}
+                      className="ml-6 text-xs rounded-md border border-destructive/50 bg-destructive/5 p-2"
+                    >
+                      <span className="font-mono">#{chainBreak.chainPosition}</span>
+                      <span className="text-muted-foreground"> · </span>
+                      {chainBreak.message}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+
+        <AuditLogFilterBar
+          filters={filters}
+          onChange={updateFilters}
+          documents={documents.map((doc) => ({ id: doc.id, label: doc.file_name }))}
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground mr-2">Export matching entries:</span>
+            <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={exporting !== null}>
+              {exporting === "csv" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("jsonl")} disabled={exporting !== null}>
+              {exporting === "jsonl" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              JSON Lines
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("pdf")} disabled={exporting !== null}>
+              {exporting === "pdf" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+              Signed PDF Report
+            </Button>
+          </div>
+        </AuditLogFilterBar>
+
         {loading ? (
           <div className="text-center py-12">
             <Shield className="w-12 h-12 mx-auto mb-4 text-primary animate-pulse" />
@@ -102,16 +339,27 @@ const AuditTrail = () => {
           <Card className="border-border">
             <CardContent className="py-12 text-center">
               <Activity className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-              <CardTitle className="mb-2">No audit logs yet</CardTitle>
-              <CardDescription>
-                Activity will appear here once you start using the platform
-              </CardDescription>
+              {hasAuditLogFilters(filters) ? (
+                <>
+                  <CardTitle className="mb-2">No matching entries</CardTitle>
+                  <CardDescription>
+                    No audit log entries match these filters
+                  </CardDescription>
+                </>
+              ) : (
+                <>
+                  <CardTitle className="mb-2">No audit logs yet</CardTitle>
+                  <CardDescription>
+                    Activity will appear here once you start using the platform
+                  </CardDescription>
+                </>
+              )}
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-4">
             {logs.map((log) => (
-              <Card key={log.id} className="border-border">
+              <Card key={log.id} className={chainBreaks.has(log.id) ? "border-destructive" : "border-border"}>
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex items-start gap-4">
@@ -124,6 +372,7 @@ const AuditTrail = () => {
                             {log.action.replace(/_/g, " ")}
                           </CardTitle>
                           {getActionBadge(log.action)}
+                          {chainBreaks.has(log.id) && <Badge variant="destructive">Chain Break</Badge>}
                         </div>
                         <CardDescription className="space-y-1">
                           <div>
@@ -137,7 +386,14 @@ const AuditTrail = () => {
                                 <span>IP: {log.ip_address}</span>
                               </>
                             )}
+                            <span>•</span>
+                            <span className="font-mono">#{log.chain_position} {log.entry_hash.slice(0, 12)}</span>
                           </div>
+                          {chainBreaks.get(log.id)?.map((chainBreak) => (
+                            <div key={chainBreak.reason} className="text-xs text-destructive">
+                              {chainBreak.message}
+                            </div>
+                          ))}
                           {log.metadata && Object.keys(log.metadata).length > 0 && (
                             <div className="mt-2 text-xs">
                               {log.metadata.file_name && (
@@ -155,6 +411,14 @@ const AuditTrail = () => {
                 </CardHeader>
               </Card>
             ))}
+            {nextCursor !== null && (
+              <div className="text-center">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Load older entries
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </main>
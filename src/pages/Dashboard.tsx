@@ -4,14 +4,16 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, Upload, CheckCircle, Shield, LogOut, FileSignature, User } from "lucide-react";
+import { FileText, Upload, CheckCircle, Shield, LogOut, FileSignature, User, Users, Inbox, ShieldCheck } from "lucide-react";
 import type { User as SupabaseUser } from "@supabase/supabase-js";
+import { isAdmin } from "@/utils/admin";
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [user, setUser] = useState<SupabaseUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showAdmin, setShowAdmin] = useState(false);
   const [stats, setStats] = useState({
     totalDocuments: 0,
     signed: 0,
@@ -32,6 +34,7 @@ const Dashboard = () => {
         navigate("/auth");
       } else {
         loadStats(session.user.id);
+        isAdmin(session.user.id).then(setShowAdmin).catch(() => setShowAdmin(false));
       }
       setLoading(false);
     });
@@ -101,6 +104,12 @@ const Dashboard = () => {
             <h1 className="text-xl font-bold">DigiSigini</h1>
           </div>
           <div className="flex items-center gap-4">
+            {showAdmin && (
+              <Button variant="outline" size="sm" onClick={() => navigate("/admin")}>
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Admin
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={() => navigate("/profile")}>
               <User className="w-4 h-4 mr-2" />
               Profile
@@ -185,6 +194,26 @@ const Dashboard = () => {
             </CardHeader>
           </Card>
 
+          <Card className="border-border hover:border-primary transition-all cursor-pointer group" onClick={() => navigate("/requests")}>
+            <CardHeader>
+              <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                <Users className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle>Signing Requests</CardTitle>
+              <CardDescription>Ask others to sign a document and follow their progress</CardDescription>
+            </CardHeader>
+          </Card>
+
+          <Card className="border-border hover:border-primary transition-all cursor-pointer group" onClick={() => navigate("/inbox")}>
+            <CardHeader>
+              <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                <Inbox className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle>Inbox</CardTitle>
+              <CardDescription>Sign, decline or delegate documents sent to you</CardDescription>
+            </CardHeader>
+          </Card>
+
           <Card className="border-border hover:border-primary transition-all cursor-pointer group" onClick={() => navigate("/audit")}>
             <CardHeader>
               <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
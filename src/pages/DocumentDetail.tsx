@@ -0,0 +1,365 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Shield,
+  ArrowLeft,
+  Activity,
+  Upload,
+  Send,
+  UserPlus,
+  FileSignature,
+  PenLine,
+  XCircle,
+  Forward,
+  ShieldCheck,
+  Download,
+  RefreshCw,
+  Trash2,
+  Link,
+  AlertTriangle,
+  type LucideIcon,
+} from "lucide-react";
+import { format } from "date-fns";
+import type { User } from "@supabase/supabase-js";
+import { formatFingerprint, isSignatureAlgorithm, SIGNATURE_ALGORITHMS } from "@/utils/crypto";
+import { AUDIT_ACTIONS } from "@/utils/auditLog";
+import {
+  loadDocumentTimeline,
+  type DocumentTimeline,
+  type TimelineEvent,
+  type TimelineEventKind,
+} from "@/utils/documentTimeline";
+
+const EVENT_STYLES: Record<TimelineEventKind, { title: string; icon: LucideIcon; destructive?: boolean }> = {
+  uploaded: { title: "Uploaded", icon: Upload },
+  request_created: { title: "Signing request created", icon: Send },
+  signer_added: { title: "Signer added", icon: UserPlus },
+  signed: { title: "Signed", icon: FileSignature },
+  countersigned: { title: "Countersigned", icon: PenLine },
+  declined: { title: "Signing declined", icon: XCircle, destructive: true },
+  delegated: { title: "Signing delegated", icon: Forward },
+  verified: { title: "Verification attempt", icon: ShieldCheck },
+  downloaded: { title: "Downloaded", icon: Download },
+  status_changed: { title: "Status changed", icon: RefreshCw },
+  deleted: { title: "Deleted", icon: Trash2, destructive: true },
+  other: { title: "Activity", icon: Activity },
+};
+
+interface DetailRow {
+  label: string;
+  value: string;
+  mono?: boolean;
+}
+
+const text = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+const rows = (...candidates: [string, unknown, boolean?][]): DetailRow[] =>
+  candidates.flatMap(([label, value, mono]) => {
+    const shown = typeof value === "number" || typeof value === "boolean" ? String(value) : text(value);
+    return shown ? [{ label, value: shown, mono }] : [];
+  });
+
+const algorithmLabel = (value: unknown) =>
+  typeof value === "string" && isSignatureAlgorithm(value) ? SIGNATURE_ALGORITHMS[value].label : value;
+
+const fingerprint = (value: unknown) => (typeof value === "string" && value ? formatFingerprint(value) : null);
+
+const getEventDetails = (event: TimelineEvent): DetailRow[] => {
+  const { metadata, signature } = event;
+  switch (event.kind) {
+    case "uploaded":
+    case "request_created":
+    case "deleted":
+      return rows(
+        ["File", metadata.file_name],
+        ["Document hash (SHA-256)", metadata.file_hash, true],
+        ["Status", event.kind === "deleted" ? metadata.status : null],
+        ["Signing order", metadata.signing_order]
+      );
+    case "signer_added":
+      return rows(["Signer", metadata.email], ["Position", metadata.position]);
+    case "signed":
+    case "countersigned": {
+      const key = signature?.public_keys;
+      return rows(
+        ["Key fingerprint (SHA-256)", fingerprint(key?.fingerprint ?? metadata.key_fingerprint), true],
+        ["Key version", key?.version ?? metadata.key_version],
+        ["Algorithm", algorithmLabel(signature?.algorithm ?? metadata.algorithm)],
+        ["Document hash (SHA-256)", signature?.signature_hash, true],
+        ["Signature", signature?.signature_data ?? metadata.signature, true],
+        ["Trusted timestamp", signature ? (signature.timestamp_token ? "Yes" : "No") : null],
+        ["Key revoked", key?.revoked_at ? format(new Date(key.revoked_at), "PPP 'at' p") : null]
+      );
+    }
+    case "declined":
+      return rows(["Signer", metadata.email], ["Reason", metadata.reason]);
+    case "delegated":
+      return rows(["Signer", metadata.email], ["Delegated to", metadata.delegated_to]);
+    case "verified":
+      return rows(
+        ["Result", typeof metadata.verified === "boolean" ? (metadata.verified ? "Valid" : "Invalid") : null],
+        ["Checked", metadata.verify_mode],
+        ["File", metadata.file_name],
+        ["Content hash (SHA-256)", metadata.file_hash, true],
+        ["Key fingerprint (SHA-256)", fingerprint(metadata.key_fingerprint), true],
+        ["Algorithm", algorithmLabel(metadata.algorithm)],
+        [
+          "Timestamp",
+          typeof metadata.timestamp_valid === "boolean"
+            ? !metadata.timestamp_valid
+              ? "Invalid"
+              : metadata.timestamp_trusted === false ? "Valid, from an untrusted authority" : "Valid"
+            : null,
+        ]
+      );
+    case "downloaded":
+      return rows(["File", metadata.file_name], ["Document hash (SHA-256)", metadata.file_hash, true]);
+    case "status_changed":
+      return rows(["From", metadata.previous_status], ["To", metadata.status]);
+    default:
+      return [];
+  }
+};
+
+const DocumentDetail = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const [timeline, setTimeline] = useState<DocumentTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+        if (id) loadTimeline(id);
+      }
+    });
+  }, [navigate, id]);
+
+  const loadTimeline = async (documentId: string) => {
+    setLoading(true);
+    try {
+      setTimeline(await loadDocumentTimeline(documentId));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load the document history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeActor = (actorId: string | null, actorEmail?: string | null) => {
+    const participant = actorId ? timeline?.participants.get(actorId) : undefined;
+    const you = actorId && actorId === user?.id ? " (you)" : "";
+    if (participant) {
+      const identity = participant.name && participant.email
+        ? `${participant.name} <${participant.email}>`
+        : participant.name || participant.email || actorId;
+      return `${identity}${you}`;
+    }
+    if (actorEmail) return actorEmail;
+    if (you) return "You";
+    return actorId ? `Unknown user (${actorId.slice(0, 8)})` : "Unknown or deleted user";
+  };
+
+  const doc = timeline?.document;
+  const events = timeline?.events ?? [];
+  // A deleted document is only known from the entries of its upload and deletion
+  const recorded = events.filter((event) => ["uploaded", "request_created", "deleted"].includes(event.kind));
+  const fileName = doc?.file_name
+    ?? text(recorded.find((event) => text(event.metadata.file_name))?.metadata.file_name)
+    ?? "Document";
+  const fileHash = doc?.file_hash
+    ?? text(recorded.find((event) => text(event.metadata.file_hash))?.metadata.file_hash);
+  const deleted = !doc && events.some((event) => event.kind === "deleted");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => navigate("/documents")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold">DigiSigini</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {loading ? (
+          <div className="text-center py-12">
+            <Shield className="w-12 h-12 mx-auto mb-4 text-primary animate-pulse" />
+            <p className="text-muted-foreground">Loading document history...</p>
+          </div>
+        ) : !doc && events.length === 0 ? (
+          <Card className="border-border">
+            <CardContent className="py-12 text-center">
+              <Activity className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <CardTitle className="mb-2">Document not found</CardTitle>
+              <CardDescription>
+                This document does not exist or you do not have access to its history
+              </CardDescription>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-8">
+              <h2 className="text-3xl font-bold mb-2 break-all">{fileName}</h2>
+              <p className="text-muted-foreground">Evidence timeline of every recorded event for this document</p>
+            </div>
+
+            <Card className="border-border mb-6">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg">Document</CardTitle>
+                    {doc && (
+                      <CardDescription>
+                        Created {format(new Date(doc.created_at), "PPP 'at' p")} by {describeActor(doc.user_id)}
+                      </CardDescription>
+                    )}
+                  </div>
+                  {doc && (
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{doc.status}</Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/v/${doc.id}`)}
+                        title="Open the public verification page"
+                      >
+                        <Link className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {deleted && (
+                  <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/5 p-3">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                    <span>This document was deleted. Its history below comes from the audit log.</span>
+                  </div>
+                )}
+                {fileHash && (
+                  <div>
+                    <p className="text-xs text-muted-foreground">Document hash (SHA-256)</p>
+                    <p className="font-mono text-xs break-all">{fileHash}</p>
+                  </div>
+                )}
+                {timeline && timeline.signers.length > 0 && (
+                  <div>
+                    <p className="text-xs text-muted-foreground">
+                      Signers{doc?.signing_order ? `, ${doc.signing_order} order` : ""}
+                    </p>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {timeline.signers.map((signer) => (
+                        <Badge key={signer.id} variant={signer.status === "declined" ? "destructive" : "secondary"}>
+                          {signer.email} · {signer.status}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="relative space-y-4 before:absolute before:left-5 before:top-2 before:bottom-2 before:w-px before:bg-border">
+              {events.map((event) => {
+                const style = EVENT_STYLES[event.kind];
+                const Icon = style.icon;
+                const details = getEventDetails(event);
+                const entry = event.auditEntry;
+                const parent = event.signature?.parent_signature_id
+                  ? events.find((other) => other.signature?.id === event.signature?.parent_signature_id)
+                  : undefined;
+
+                return (
+                  <div key={`${event.kind}-${event.id}`} className="relative flex gap-4">
+                    <div
+                      className={`relative z-10 w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 ${
+                        style.destructive ? "bg-destructive/10 text-destructive" : "bg-primary/10 text-primary"
+                      }`}
+                    >
+                      <Icon className="w-5 h-5" />
+                    </div>
+                    <Card className="flex-1 border-border">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <CardTitle className="text-base">
+                              {event.kind === "other" ? AUDIT_ACTIONS[entry?.action ?? ""]?.label ?? entry?.action : style.title}
+                            </CardTitle>
+                            <CardDescription>
+                              {format(event.at, "PPP 'at' p")} · {describeActor(event.actorId, event.actorEmail)}
+                            </CardDescription>
+                          </div>
+                          {event.kind === "verified" && typeof event.metadata.verified === "boolean" && (
+                            <Badge variant={event.metadata.verified ? "default" : "destructive"}>
+                              {event.metadata.verified ? "Valid" : "Invalid"}
+                            </Badge>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-2 text-sm">
+                        {parent && (
+                          <p className="text-xs text-muted-foreground">
+                            Countersigns the signature by {describeActor(parent.actorId, parent.actorEmail)} of{" "}
+                            {format(parent.at, "PPP 'at' p")}
+                          </p>
+                        )}
+                        {details.map((row) => (
+                          <div key={row.label}>
+                            <p className="text-xs text-muted-foreground">{row.label}</p>
+                            <p className={row.mono ? "font-mono text-xs break-all" : ""}>{row.value}</p>
+                          </div>
+                        ))}
+                        <div className="pt-2 border-t border-border text-xs text-muted-foreground space-y-0.5">
+                          {entry ? (
+                            <>
+                              <p>
+                                Audit log <span className="font-mono">#{entry.chain_position} {entry.entry_hash.slice(0, 16)}</span>
+                                {entry.ip_address && ` · IP ${entry.ip_address}`}
+                              </p>
+                              {entry.user_agent && <p className="truncate">{entry.user_agent}</p>}
+                            </>
+                          ) : (
+                            <p>
+                              Recorded in the {event.signature ? "signatures" : "documents"} table, without an audit entry
+                              {event.signature?.ip_address && event.signature.ip_address !== "client-side"
+                                ? ` · IP ${event.signature.ip_address}`
+                                : ""}
+                            </p>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DocumentDetail;
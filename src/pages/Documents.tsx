@@ -5,14 +5,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, ArrowLeft, FileText, Download, Trash2, CheckCircle, Clock } from "lucide-react";
+import { Shield, ArrowLeft, FileText, Download, Trash2, CheckCircle, Clock, XCircle, Link, History } from "lucide-react";
 import { format } from "date-fns";
 import type { User } from "@supabase/supabase-js";
+import { getVerifyUrl } from "@/utils/verifyUrl";
+import { logAuditEvent } from "@/utils/audit";
 
 interface Document {
   id: string;
   file_name: string;
   file_path: string;
+  file_hash: string;
   status: string;
   created_at: string;
 }
@@ -73,6 +76,8 @@ const Documents = () => {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
+      await logAuditEvent("document_downloaded", doc.id, { file_name: doc.file_name, file_hash: doc.file_hash });
+
       toast({
         title: "Download started",
         description: "Your document is being downloaded",
@@ -86,6 +91,15 @@ const Documents = () => {
     }
   };
 
+  // Recipients can verify their copy through this link without an account
+  const handleCopyVerifyLink = async (doc: Document) => {
+    await navigator.clipboard.writeText(getVerifyUrl(doc.id));
+    toast({
+      title: "Link copied",
+      description: "Anyone with this link can verify their copy of the document",
+    });
+  };
+
   const handleDelete = async (doc: Document) => {
     if (!confirm("Are you sure you want to delete this document?")) return;
 
@@ -143,6 +157,13 @@ const Documents = () => {
             Verified
           </Badge>
         );
+      case "rejected":
+        return (
+          <Badge variant="destructive">
+            <XCircle className="w-3 h-3 mr-1" />
+            Declined
+          </Badge>
+        );
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -216,6 +237,22 @@ const Documents = () => {
                       </div>
                     </div>
                     <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/documents/${doc.id}`)}
+                        title="Evidence timeline"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCopyVerifyLink(doc)}
+                        title="Copy public verification link"
+                      >
+                        <Link className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
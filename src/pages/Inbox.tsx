@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Shield, ArrowLeft, Inbox as InboxIcon, FileSignature, Download, XCircle, UserPlus, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { User } from "@supabase/supabase-js";
+import { getKeyPair } from "@/utils/keyStore";
+import { downloadBlob } from "@/utils/download";
+import { logAuditEvent } from "@/utils/audit";
+import {
+  declineRequest,
+  delegateRequest,
+  findPendingSigner,
+  getActiveSigners,
+  getSignedCount,
+  isSignersTurn,
+  listReceivedRequests,
+  signRequest,
+  SIGNING_ORDERS,
+  type SignerStatus,
+  type SigningRequest,
+} from "@/utils/signingRequests";
+import SignerList from "@/components/SignerList";
+
+type InboxAction = { type: "decline" | "delegate"; request: SigningRequest };
+
+const RESPONSE_LABELS: Record<SignerStatus, string> = {
+  pending: "Not signed",
+  signed: "You signed",
+  declined: "You declined",
+  delegated: "You delegated",
+};
+
+const Inbox = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const [requests, setRequests] = useState<SigningRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [action, setAction] = useState<InboxAction | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+  const [delegateEmail, setDelegateEmail] = useState("");
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+        loadRequests(session.user.email);
+      }
+    });
+  }, [navigate]);
+
+  const loadRequests = async (email: string | undefined) => {
+    try {
+      setRequests(email ? await listReceivedRequests(email) : []);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load your inbox",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (request: SigningRequest) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from("documents")
+        .download(request.file_path);
+
+      if (error) throw error;
+      downloadBlob(data, request.file_name);
+      await logAuditEvent("document_downloaded", request.id, { file_name: request.file_name, file_hash: request.file_hash });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to download document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSign = async (request: SigningRequest) => {
+    if (!user) return;
+
+    setBusyId(request.id);
+
+    try {
+      const keys = await getKeyPair(user.id);
+      if (!keys) {
+        throw new Error("No signing keys in this browser. Generate or restore your keys first.");
+      }
+
+      const { timestampError } = await signRequest(request, user.id, keys);
+
+      await loadRequests(user.email);
+
+      toast({
+        title: "Document signed",
+        description: timestampError
+          ? `Your signature on ${request.file_name} has been recorded without a trusted timestamp: ${timestampError}`
+          : `Your signature on ${request.file_name} has been recorded`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign document",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openAction = (type: InboxAction["type"], request: SigningRequest) => {
+    setAction({ type, request });
+    setDeclineReason("");
+    setDelegateEmail("");
+  };
+
+  const handleConfirmAction = async () => {
+    if (!user || !action) return;
+    const { type, request } = action;
+
+    setBusyId(request.id);
+
+    try {
+      if (type === "decline") {
+        await declineRequest(request.id, declineReason);
+        toast({
+          title: "Request declined",
+          description: `${request.file_name} has been marked as declined`,
+        });
+      } else {
+        if (delegateEmail.trim().toLowerCase() === user.email?.toLowerCase()) {
+          throw new Error("You can't delegate a request to yourself");
+        }
+        const delegate = await delegateRequest(request.id, delegateEmail);
+        toast({
+          title: "Request delegated",
+          description: `${delegate} will sign ${request.file_name} in your place`,
+        });
+      }
+
+      setAction(null);
+      await loadRequests(user.email);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || `Failed to ${type} request`,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const progress = (request: SigningRequest) =>
+    `${getSignedCount(request)} of ${getActiveSigners(request).length} signed`;
+
+  const myEntry = (request: SigningRequest) =>
+    request.document_signers.find((signer) => signer.email === user?.email?.toLowerCase());
+
+  const pending = requests.filter((request) => request.status === "pending" && findPendingSigner(request, user?.email));
+  const handled = requests.filter((request) => !pending.includes(request));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold">DigiSigini</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Inbox</h2>
+          <p className="text-muted-foreground">Documents others have asked you to sign</p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <Shield className="w-12 h-12 mx-auto mb-4 text-primary animate-pulse" />
+            <p className="text-muted-foreground">Loading inbox...</p>
+          </div>
+        ) : pending.length === 0 ? (
+          <Card className="border-border">
+            <CardContent className="py-12 text-center">
+              <InboxIcon className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <CardTitle className="mb-2">Nothing to sign</CardTitle>
+              <CardDescription>
+                Signing requests sent to {user?.email} will appear here
+              </CardDescription>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {pending.map((request) => {
+              const canSign = isSignersTurn(request, findPendingSigner(request, user?.email)!);
+              return (
+                <Card key={request.id} className="border-border">
+                  <CardHeader>
+                    <CardTitle className="text-lg">{request.file_name}</CardTitle>
+                    <CardDescription>
+                      Requested {format(new Date(request.created_at), "PPP 'at' p")} • {SIGNING_ORDERS[request.signing_order ?? "parallel"].label} • {progress(request)}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <SignerList request={request} currentEmail={user?.email} />
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleReview(request)}>
+                        <Download className="w-4 h-4 mr-2" />
+                        Review
+                      </Button>
+                      <Button size="sm" onClick={() => handleSign(request)} disabled={!canSign || busyId !== null}>
+                        {busyId === request.id ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <FileSignature className="w-4 h-4 mr-2" />
+                        )}
+                        {canSign ? "Accept & Sign" : "Waiting for earlier signers"}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => openAction("delegate", request)} disabled={busyId !== null}>
+                        <UserPlus className="w-4 h-4 mr-2" />
+                        Delegate
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => openAction("decline", request)} disabled={busyId !== null}>
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Decline
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {handled.length > 0 && (
+          <Card className="border-border">
+            <CardHeader>
+              <CardTitle>Handled</CardTitle>
+              <CardDescription>Requests you have already responded to</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {handled.map((request) => {
+                const entry = myEntry(request);
+                return (
+                  <div key={request.id} className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{request.file_name}</p>
+                      <p className="text-sm text-muted-foreground">{progress(request)}</p>
+                    </div>
+                    <Badge variant={entry?.status === "declined" ? "destructive" : "secondary"}>
+                      {entry ? RESPONSE_LABELS[entry.status] : request.status}
+                    </Badge>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action?.type === "decline" ? "Decline" : "Delegate"} {action?.request.file_name}
+            </DialogTitle>
+            <DialogDescription>
+              {action?.type === "decline"
+                ? "The document will be marked as declined and nobody else will be able to sign it. The owner sees your reason."
+                : "The person you choose takes over your place in the signing order."}
+            </DialogDescription>
+          </DialogHeader>
+          {action?.type === "decline" ? (
+            <div className="space-y-2">
+              <Label htmlFor="decline-reason">Reason</Label>
+              <Textarea
+                id="decline-reason"
+                placeholder="Why are you declining this document?"
+                value={declineReason}
+                onChange={(e) => setDeclineReason(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="delegate-email">Delegate to</Label>
+              <Input
+                id="delegate-email"
+                type="email"
+                placeholder="colleague@example.com"
+                value={delegateEmail}
+                onChange={(e) => setDelegateEmail(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={action?.type === "decline" ? "destructive" : "default"}
+              onClick={handleConfirmAction}
+              disabled={busyId !== null || (action?.type === "decline" ? !declineReason.trim() : !delegateEmail.trim())}
+            >
+              {busyId !== null && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {action?.type === "decline" ? "Decline Request" : "Delegate Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Inbox;
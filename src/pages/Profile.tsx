@@ -5,9 +5,30 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, ArrowLeft, User, Save } from "lucide-react";
+import { Shield, ArrowLeft, User, Save, Key, Upload, Loader2, Ban, Signature, Download } from "lucide-react";
+import { format } from "date-fns";
 import type { User as SupabaseUser } from "@supabase/supabase-js";
+import { getKeyPair, saveKeyPair, type StoredKeyPair } from "@/utils/keyStore";
+import { parseKeyBackup, restoreKeyBackup } from "@/utils/keyBackup";
+import {
+  listPublicKeys,
+  revokePublicKey,
+  REVOCATION_REASONS,
+  type PublicKeyRecord,
+  type RevocationReason,
+} from "@/utils/keyRegistry";
+import { formatFingerprint, isSignatureAlgorithm, SIGNATURE_ALGORITHMS } from "@/utils/crypto";
+import { downloadBlob } from "@/utils/download";
+import {
+  drawingToPng,
+  drawingToSvg,
+  parseHandwrittenSignature,
+  type HandwrittenSignature,
+} from "@/utils/handwriting";
+import SignaturePad from "@/components/SignaturePad";
 
 const Profile = () => {
   const navigate = useNavigate();
@@ -16,6 +37,16 @@ const Profile = () => {
   const [loading, setLoading] = useState(false);
   const [fullName, setFullName] = useState("");
   const [organization, setOrganization] = useState("");
+  const [handwriting, setHandwriting] = useState<HandwrittenSignature | null>(null);
+  const [storedKeys, setStoredKeys] = useState<StoredKeyPair | null>(null);
+  const [keyHistory, setKeyHistory] = useState<PublicKeyRecord[]>([]);
+  const [revokingKey, setRevokingKey] = useState<PublicKeyRecord | null>(null);
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>("key_compromise");
+  const [revocationEffectiveAt, setRevocationEffectiveAt] = useState("");
+  const [revoking, setRevoking] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [restoring, setRestoring] = useState(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -24,6 +55,7 @@ const Profile = () => {
       } else {
         setUser(session.user);
         loadProfile(session.user.id);
+        loadKeys(session.user.id);
       }
     });
   }, [navigate]);
@@ -41,12 +73,92 @@ const Profile = () => {
       if (data) {
         setFullName(data.full_name || "");
         setOrganization(data.organization || "");
+        setHandwriting(data.handwritten_signature ? parseHandwrittenSignature(data.handwritten_signature) : null);
       }
     } catch (error: any) {
       console.error("Error loading profile:", error);
     }
   };
 
+  const loadKeys = async (userId: string) => {
+    try {
+      setStoredKeys(await getKeyPair(userId));
+      setKeyHistory(await listPublicKeys(userId));
+    } catch (error) {
+      console.error("Error loading keys:", error);
+    }
+  };
+
+  const openRevokeDialog = (key: PublicKeyRecord) => {
+    setRevokingKey(key);
+    setRevocationReason("key_compromise");
+    setRevocationEffectiveAt(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const handleRevokeKey = async () => {
+    if (!user || !revokingKey) return;
+
+    const effectiveAt = new Date(revocationEffectiveAt);
+    if (isNaN(effectiveAt.getTime())) {
+      toast({
+        title: "Invalid date",
+        description: "Please choose when the revocation takes effect",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRevoking(true);
+
+    try {
+      const revokedKey = await revokePublicKey(revokingKey.id, revocationReason, effectiveAt);
+
+      setKeyHistory(keyHistory.map((key) => (key.id === revokedKey.id ? revokedKey : key)));
+      setRevokingKey(null);
+
+      toast({
+        title: "Key revoked",
+        description: `Key version ${revokedKey.version} has been revoked`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke key",
+        variant: "destructive",
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    if (!user || !backupFile) return;
+    if (storedKeys && !confirm("Replace the signing keys currently stored in this browser?")) return;
+
+    setRestoring(true);
+
+    try {
+      const backup = parseKeyBackup(await backupFile.text());
+      const keys = await restoreKeyBackup(backup, backupPassphrase);
+      setStoredKeys(await saveKeyPair(user.id, keys));
+      setBackupFile(null);
+      setBackupPassphrase("");
+
+      toast({
+        title: "Keys restored",
+        description: "Your signing keys have been restored to this browser",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore key backup",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!user) return;
 
@@ -58,6 +170,7 @@ const Profile = () => {
         .update({
           full_name: fullName,
           organization: organization,
+          handwritten_signature: handwriting ? drawingToSvg(handwriting) : null,
         })
         .eq("id", user.id);
 
@@ -143,6 +256,125 @@ const Profile = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Signature className="w-4 h-4 text-primary" />
+                Handwritten Signature
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Optional. It can be attached to your digital signatures and appears in verification results and PDF stamps.
+              </p>
+              <SignaturePad value={handwriting} onChange={setHandwriting} />
+              {handwriting && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadBlob(new Blob([drawingToSvg(handwriting)], { type: "image/svg+xml" }), "signature.svg")}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    SVG
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => drawingToPng(handwriting).then((png) => downloadBlob(png, "signature.png"))}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    PNG
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Key className="w-4 h-4 text-primary" />
+                <span className="font-medium">Signing Keys:</span>
+              </div>
+              {storedKeys ? (
+                <div className="text-sm text-muted-foreground space-y-1">
+                  <div>Algorithm: {SIGNATURE_ALGORITHMS[storedKeys.algorithm].label}</div>
+                  <div>Created: {new Date(storedKeys.createdAt).toLocaleDateString()}</div>
+                  <div>Private key: non-extractable, stored in this browser</div>
+                  <div className="font-mono text-xs break-all">
+                    Public key: {storedKeys.publicKey.substring(0, 64)}...
+                  </div>
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground space-y-2">
+                  <div>No signing keys in this browser yet.</div>
+                  <Button variant="outline" size="sm" onClick={() => navigate("/sign")}>
+                    Generate Keys
+                  </Button>
+                </div>
+              )}
+              {keyHistory.length > 0 && (
+                <div className="pt-2 space-y-2">
+                  <div className="text-sm font-medium">Key History</div>
+                  {keyHistory.map((key) => (
+                    <div key={key.id} className="text-xs text-muted-foreground border border-border rounded-md p-2 space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-foreground">Version {key.version}</span>
+                        {key.revoked_at ? (
+                          <span className="text-destructive">Revoked {new Date(key.revoked_at).toLocaleString()}</span>
+                        ) : (
+                          <span>{key.retired_at ? `Retired ${new Date(key.retired_at).toLocaleDateString()}` : "Active"}</span>
+                        )}
+                      </div>
+                      <div>
+                        {isSignatureAlgorithm(key.algorithm) ? SIGNATURE_ALGORITHMS[key.algorithm].label : key.algorithm}
+                        {" • "}Created: {new Date(key.created_at).toLocaleDateString()}
+                      </div>
+                      {key.revocation_reason && (
+                        <div>Reason: {REVOCATION_REASONS[key.revocation_reason as RevocationReason] ?? key.revocation_reason}</div>
+                      )}
+                      <div className="font-mono break-all">{formatFingerprint(key.fingerprint)}</div>
+                      {!key.revoked_at && (
+                        <Button variant="outline" size="sm" onClick={() => openRevokeDialog(key)}>
+                          <Ban className="w-3 h-3 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="pt-2 space-y-2">
+                <Label htmlFor="key-backup">Restore from encrypted backup</Label>
+                <p className="text-xs text-muted-foreground">
+                  Backups can only be downloaded on the Sign Document page right after keys are generated. To get a
+                  backup of a key you never backed up, rotate your keys there and save a backup of the new key.
+                </p>
+                <Input
+                  id="key-backup"
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+                />
+                <Input
+                  id="key-backup-passphrase"
+                  type="password"
+                  placeholder="Backup passphrase"
+                  value={backupPassphrase}
+                  onChange={(e) => setBackupPassphrase(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRestoreBackup}
+                  disabled={!backupFile || !backupPassphrase || restoring}
+                >
+                  {restoring ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-2" />
+                  )}
+                  Restore Keys
+                </Button>
+              </div>
+            </div>
+
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
               <div className="flex items-center gap-2 text-sm">
                 <Shield className="w-4 h-4 text-primary" />
@@ -166,6 +398,52 @@ const Profile = () => {
           </CardContent>
         </Card>
       </main>
+
+      <Dialog open={!!revokingKey} onOpenChange={(open) => !open && setRevokingKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke key version {revokingKey?.version}</DialogTitle>
+            <DialogDescription>
+              Signatures made with this key after the effective time will be reported as untrusted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="revocation-reason">Reason</Label>
+              <Select value={revocationReason} onValueChange={(v) => setRevocationReason(v as RevocationReason)}>
+                <SelectTrigger id="revocation-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REVOCATION_REASONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="revocation-effective">Effective from</Label>
+              <Input
+                id="revocation-effective"
+                type="datetime-local"
+                value={revocationEffectiveAt}
+                onChange={(e) => setRevocationEffectiveAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokingKey(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevokeKey} disabled={revoking}>
+              {revoking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Revoke Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Shield, CheckCircle, XCircle, Upload, Loader2 } from "lucide-react";
+import {
+  getPublicVerification,
+  verifyPublicDocument,
+  type PublicSignature,
+  type PublicVerificationResult,
+} from "@/utils/publicVerification";
+
+// Public verification page for links and QR codes; works without signing in
+const PublicVerify = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { documentId } = useParams<{ documentId: string }>();
+  const [signatures, setSignatures] = useState<PublicSignature[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<PublicVerificationResult | null>(null);
+
+  useEffect(() => {
+    if (!documentId) return;
+
+    getPublicVerification(documentId)
+      .then(setSignatures)
+      .catch((error) => {
+        console.error("Error loading verification data:", error);
+        setSignatures([]);
+      })
+      .finally(() => setLoading(false));
+  }, [documentId]);
+
+  const handleFile = async (selectedFile: File | undefined) => {
+    if (!selectedFile) return;
+
+    setFile(selectedFile);
+    setResult(null);
+    setVerifying(true);
+
+    try {
+      setResult(await verifyPublicDocument(signatures, await selectedFile.arrayBuffer()));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to verify document",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    handleFile(e.dataTransfer.files?.[0]);
+  };
+
+  const verified = result !== null && result.hashMatches && result.signatures.every((signature) => signature.valid);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold">DigiSigini</h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate("/auth")}>
+            Sign In
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card className="border-border">
+          <CardHeader>
+            <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center mb-4">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <CardTitle className="text-2xl">Verify a Signed Document</CardTitle>
+            <CardDescription>
+              Drop in the file you received to check it against the signatures recorded for this link
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {loading ? (
+              <div className="text-center py-8">
+                <Loader2 className="w-8 h-8 mx-auto mb-2 text-primary animate-spin" />
+                <p className="text-muted-foreground">Loading signatures...</p>
+              </div>
+            ) : signatures.length === 0 ? (
+              <div className="text-center py-8">
+                <XCircle className="w-12 h-12 mx-auto mb-4 text-destructive" />
+                <p className="font-medium">No signatures found</p>
+                <p className="text-sm text-muted-foreground">
+                  This verification link is invalid, or the document hasn't been signed yet.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="p-3 bg-muted rounded-lg text-sm">
+                  <p className="font-medium text-foreground">
+                    Signed by {signatures.map((signature) => signature.signer_name).join(", ")}
+                  </p>
+                  <p className="text-muted-foreground font-mono text-xs break-all">
+                    SHA-256: {signatures[0].file_hash}
+                  </p>
+                </div>
+
+                <div>
+                  <Input
+                    id="public-verify-file"
+                    type="file"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    className="hidden"
+                  />
+                  <label
+                    htmlFor="public-verify-file"
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragging(true);
+                    }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={handleDrop}
+                    className={`block border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+                      dragging ? "border-primary bg-primary/5" : "border-border hover:border-primary"
+                    }`}
+                  >
+                    <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                    {file ? (
+                      <div>
+                        <p className="font-medium text-foreground">{file.name}</p>
+                        <p className="text-sm text-muted-foreground">{(file.size / 1024).toFixed(2)} KB</p>
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="font-medium text-foreground">Drop the document here or click to upload</p>
+                        <p className="text-sm text-muted-foreground">The file is checked in your browser and never uploaded</p>
+                      </div>
+                    )}
+                  </label>
+                </div>
+
+                {verifying && (
+                  <div className="flex items-center justify-center gap-2 text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Verifying...
+                  </div>
+                )}
+
+                {result && (
+                  <Card className={`border-2 ${verified ? "border-primary" : "border-destructive"}`}>
+                    <CardContent className="pt-6">
+                      <div className="flex items-start gap-4">
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${
+                          verified ? "bg-primary/20" : "bg-destructive/20"
+                        }`}>
+                          {verified ? (
+                            <CheckCircle className="w-6 h-6 text-primary" />
+                          ) : (
+                            <XCircle className="w-6 h-6 text-destructive" />
+                          )}
+                        </div>
+                        <div className="flex-1 space-y-3">
+                          <div>
+                            <h3 className="font-bold text-lg mb-1">
+                              {verified ? "Signature Verified" : "Verification Failed"}
+                            </h3>
+                            <p className="text-muted-foreground">
+                              {verified
+                                ? "This file is exactly the document that was signed."
+                                : result.hashMatches
+                                  ? "The file matches the signed document, but not every signature is valid."
+                                  : "This file is not the document that was signed. It may have been modified."}
+                            </p>
+                          </div>
+                          <div className="space-y-2">
+                            {result.signatures.map((signature, index) => (
+                              <div key={index} className="flex items-center gap-2 text-sm">
+                                {signature.valid ? (
+                                  <CheckCircle className="w-4 h-4 text-primary flex-shrink-0" />
+                                ) : (
+                                  <XCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+                                )}
+                                <span className="font-medium">{signature.signerName}</span>
+                                <span className="text-muted-foreground">· {signature.algorithm}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default PublicVerify;
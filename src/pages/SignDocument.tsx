@@ -7,10 +7,40 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, Upload, FileSignature, ArrowLeft, Loader2, Key, Type, Copy, CheckCircle } from "lucide-react";
+import { Shield, Upload, FileSignature, ArrowLeft, Loader2, Key, Type, Copy, CheckCircle, Download, FileDown, QrCode } from "lucide-react";
 import type { User } from "@supabase/supabase-js";
-import { generateKeyPair, signData, generateHash } from "@/utils/crypto";
+import {
+  generateKeyPair,
+  signData,
+  generateHash,
+  toNonExtractable,
+  getKeyFingerprint,
+  getKeyAlgorithm,
+  formatFingerprint,
+  DEFAULT_ALGORITHM,
+  SIGNATURE_ALGORITHMS,
+  type KeyPair,
+  type SignableData,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+import { getKeyPair, saveKeyPair } from "@/utils/keyStore";
+import { findPublicKeyByFingerprint, registerPublicKey } from "@/utils/keyRegistry";
+import { createKeyBackup, MIN_PASSPHRASE_LENGTH } from "@/utils/keyBackup";
+import { downloadBlob, downloadJson } from "@/utils/download";
+import { createSignatureBundle, getBundleFileName, type SignatureBundle } from "@/utils/signatureBundle";
+import { createSelfSignedCertificate } from "@/utils/x509";
+import { CMS_CONTENT_TYPE, createCmsSignature, getCmsFileName, isCmsExportSupported } from "@/utils/cms";
+import { getSignedPdfFileName, isPdf, signPdf } from "@/utils/pades";
+import { createJws, publicKeyToJwk, serializeJws, type JwsJson, type JwsSerialization } from "@/utils/jws";
+import type { StampDetails, StampPlacement } from "@/utils/pdfStamp";
+import { getVerifyUrl } from "@/utils/verifyUrl";
+import { drawingToSvg, parseHandwrittenSignature, toSvgDataUrl, type HandwrittenSignature } from "@/utils/handwriting";
+import { createReceiptPdf, createReceiptPng, getReceiptFileName, type ReceiptFormat } from "@/utils/receipt";
+import { timestampSignature } from "@/utils/timestamp";
+import PdfStampPlacer from "@/components/PdfStampPlacer";
 
 const SignDocument = () => {
   const navigate = useNavigate();
@@ -20,10 +50,29 @@ const SignDocument = () => {
   const [textContent, setTextContent] = useState("");
   const [loading, setLoading] = useState(false);
   const [generatingKeys, setGeneratingKeys] = useState(false);
-  const [privateKey, setPrivateKey] = useState("");
+  const [privateKey, setPrivateKey] = useState<CryptoKey | null>(null);
   const [publicKey, setPublicKey] = useState("");
+  const [keyAlgorithm, setKeyAlgorithm] = useState<SignatureAlgorithm>(DEFAULT_ALGORITHM);
+  const [keyFingerprint, setKeyFingerprint] = useState("");
+  const [keyVersion, setKeyVersion] = useState<number | null>(null);
   const [signMode, setSignMode] = useState<"file" | "text">("file");
   const [generatedSignature, setGeneratedSignature] = useState("");
+  const [signatureBundle, setSignatureBundle] = useState<SignatureBundle | null>(null);
+  const [cmsSignature, setCmsSignature] = useState<Uint8Array | null>(null);
+  const [embedPdfSignature, setEmbedPdfSignature] = useState(true);
+  const [signedPdf, setSignedPdf] = useState<{ bytes: Uint8Array; fileName: string } | null>(null);
+  const [stampPlacement, setStampPlacement] = useState<StampPlacement | null>(null);
+  const [jws, setJws] = useState<JwsJson | null>(null);
+  const [jwsSerialization, setJwsSerialization] = useState<JwsSerialization>("compact");
+  const [publicJwk, setPublicJwk] = useState("");
+  const [signerName, setSignerName] = useState<string | null>(null);
+  const [signerOrganization, setSignerOrganization] = useState<string | null>(null);
+  const [handwriting, setHandwriting] = useState<HandwrittenSignature | null>(null);
+  const [attachHandwriting, setAttachHandwriting] = useState(true);
+  // Extractable copy of freshly generated keys, held in memory only so a backup can be exported
+  const [backupKeys, setBackupKeys] = useState<KeyPair | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [exportingBackup, setExportingBackup] = useState(false);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -32,30 +81,80 @@ const SignDocument = () => {
       } else {
         setUser(session.user);
         loadStoredKeys(session.user.id);
+        loadSignerName(session.user.id);
       }
     });
   }, [navigate]);
 
+  const loadSignerName = async (userId: string) => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('full_name, organization, handwritten_signature')
+      .eq('id', userId)
+      .maybeSingle();
+    setSignerName(data?.full_name || null);
+    setSignerOrganization(data?.organization || null);
+    setHandwriting(data?.handwritten_signature ? parseHandwrittenSignature(data.handwritten_signature) : null);
+  };
+
   const loadStoredKeys = async (userId: string) => {
-    const stored = localStorage.getItem(`keys_${userId}`);
-    if (stored) {
-      const keys = JSON.parse(stored);
-      setPrivateKey(keys.privateKey);
-      setPublicKey(keys.publicKey);
+    try {
+      const keys = await getKeyPair(userId);
+      if (keys) {
+        setPrivateKey(keys.privateKey);
+        setPublicKey(keys.publicKey);
+        setKeyAlgorithm(keys.algorithm);
+        const fingerprint = await getKeyFingerprint(keys.publicKey);
+        setKeyFingerprint(fingerprint);
+        const keyRecord = await findPublicKeyByFingerprint(fingerprint);
+        setKeyVersion(keyRecord?.version ?? null);
+      }
+    } catch (error) {
+      console.error("Error loading keys:", error);
     }
   };
 
   const handleGenerateKeys = async () => {
     if (!user) return;
+    const isRotation = !!privateKey;
+    if (isRotation && !confirm("Rotate your signing keys? Your current key will be retired; documents it already signed will keep verifying.")) return;
+
     setGeneratingKeys(true);
     try {
-      const keys = await generateKeyPair();
-      setPrivateKey(keys.privateKey);
-      setPublicKey(keys.publicKey);
-      localStorage.setItem(`keys_${user.id}`, JSON.stringify(keys));
+      const keys = await generateKeyPair(keyAlgorithm, true);
+
+      // Save the new key before registering it: registration retires the previous
+      // version on the server, so it must not happen for a key this browser lost.
+      // If registration fails, signing registers the saved key on the next attempt.
+      const storedKeys = await saveKeyPair(user.id, {
+        ...keys,
+        privateKey: await toNonExtractable(keys.privateKey),
+      });
+      setPrivateKey(storedKeys.privateKey);
+      setPublicKey(storedKeys.publicKey);
+      setKeyFingerprint(await getKeyFingerprint(storedKeys.publicKey));
+      setKeyVersion(null);
+      setBackupKeys(keys);
+
+      let keyRecord;
+      try {
+        keyRecord = await registerPublicKey(user.id, keys);
+      } catch (error) {
+        console.error("Error registering public key:", error);
+        toast({
+          title: "Key not registered yet",
+          description: "Your new keys are saved in this browser and will be registered when you next sign. Download a backup before leaving this page.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setKeyVersion(keyRecord.version);
+
       toast({
-        title: "Keys generated successfully!",
-        description: "Your private and public keys are ready to use.",
+        title: isRotation ? "Keys rotated successfully!" : "Keys generated successfully!",
+        description: isRotation
+          ? `Now signing with key version ${keyRecord.version}. Download a backup before leaving this page.`
+          : "Your private and public keys are ready to use. Download a backup before leaving this page.",
       });
     } catch (error) {
       console.error("Error generating keys:", error);
@@ -69,6 +168,38 @@ const SignDocument = () => {
     }
   };
 
+  const handleExportBackup = async () => {
+    if (!backupKeys) return;
+    if (backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: "Passphrase too short",
+        description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setExportingBackup(true);
+    try {
+      const backup = await createKeyBackup(backupKeys, backupPassphrase);
+      downloadJson(backup, `digisigini-key-backup-${Date.now()}.json`);
+      setBackupPassphrase("");
+      toast({
+        title: "Backup downloaded",
+        description: "Keep the file and passphrase safe. Restore it from your Profile page.",
+      });
+    } catch (error) {
+      console.error("Error exporting key backup:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export key backup",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingBackup(false);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
@@ -81,9 +212,39 @@ const SignDocument = () => {
         return;
       }
       setFile(selectedFile);
+      setStampPlacement(null);
     }
   };
 
+  const boundHandwriting = attachHandwriting ? handwriting : null;
+
+  // Placeholder details for the on-screen stamp; the real ones are filled in when signing
+  const stampPreview: StampDetails = {
+    signerName: signerName || user?.email || "DigiSigini signer",
+    organization: signerOrganization,
+    signedAt: new Date(),
+    fingerprint: keyFingerprint || "0".repeat(64),
+    verifyUrl: getVerifyUrl("00000000-0000-0000-0000-000000000000"),
+    handwriting: boundHandwriting,
+  };
+
+  const handleDownloadReceipt = async (receiptFormat: ReceiptFormat) => {
+    if (!signatureBundle) return;
+
+    try {
+      const verifyUrl = getVerifyUrl(signatureBundle.documentId);
+      const receipt = receiptFormat === "pdf"
+        ? new Blob([createReceiptPdf(signatureBundle, verifyUrl)], { type: "application/pdf" })
+        : await createReceiptPng(signatureBundle, verifyUrl);
+      downloadBlob(receipt, getReceiptFileName(signatureBundle.fileName, receiptFormat));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create receipt",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleSign = async () => {
     if (!user || !privateKey || !publicKey) {
@@ -116,21 +277,70 @@ const SignDocument = () => {
     setLoading(true);
 
     try {
-      let dataToSign: string;
+      // Make sure the signing key is in the registry so verifiers can resolve it by id
+      const algorithm = getKeyAlgorithm(privateKey);
+      const keyRecord = await registerPublicKey(user.id, { publicKey, privateKey });
+      if (keyRecord.revoked_at) {
+        throw new Error(`Key version ${keyRecord.version} has been revoked. Rotate your keys before signing.`);
+      }
+      if (keyRecord.retired_at) {
+        throw new Error(`Key version ${keyRecord.version} has been retired. Rotate your keys before signing.`);
+      }
+      setKeyVersion(keyRecord.version);
+      setSignedPdf(null);
+
+      // Self-signed certificate for the CMS formats (.p7s export and embedded PDF signatures)
+      const certificate = await createSelfSignedCertificate(privateKey, publicKey, algorithm, {
+        commonName: signerName || user.email || user.id,
+        organization: signerOrganization,
+        email: user.email,
+      });
+
+      let dataToSign: SignableData;
       let fileName: string;
       let filePath: string | null = null;
+      // Known up front so the stamp's QR code can point at this document's verification page
+      const documentId = crypto.randomUUID();
 
       if (signMode === "file" && file) {
-        const fileContent = await file.text();
-        dataToSign = fileContent;
+        // Sign the raw bytes so binary formats (PDF, DOCX, images) survive intact
+        dataToSign = await file.arrayBuffer();
         fileName = file.name;
+        let upload: Blob = file;
+
+        // PDFs get an embedded signature first; the signed PDF is then what gets hashed, signed and stored
+        if (embedPdfSignature && isPdf(dataToSign)) {
+          const signedAt = new Date();
+          const pdfBytes = await signPdf(new Uint8Array(dataToSign), {
+            privateKey,
+            algorithm,
+            certificate,
+            signerName: signerName || user.email || "DigiSigini signer",
+            reason: "Signed with DigiSigini",
+            signingTime: signedAt,
+            stamp: stampPlacement ? {
+              placement: stampPlacement,
+              details: {
+                signerName: signerName || user.email || "DigiSigini signer",
+                organization: signerOrganization,
+                signedAt,
+                fingerprint: keyRecord.fingerprint,
+                verifyUrl: getVerifyUrl(documentId),
+                handwriting: boundHandwriting,
+              },
+            } : undefined,
+          });
+          dataToSign = pdfBytes;
+          upload = new Blob([pdfBytes], { type: "application/pdf" });
+          setSignedPdf({ bytes: pdfBytes, fileName: getSignedPdfFileName(file.name) });
+        }
 
         const fileExt = file.name.split('.').pop();
         filePath = `${user.id}/${Date.now()}.${fileExt}`;
         
         const { error: uploadError } = await supabase.storage
           .from('documents')
-          .upload(filePath, file);
+          .upload(filePath, upload);
 
         if (uploadError) throw uploadError;
       } else {
@@ -140,13 +350,18 @@ const SignDocument = () => {
 
       const fileHash = await generateHash(dataToSign);
       const signature = await signData(dataToSign, privateKey);
+      const timestamp = await timestampSignature(signature);
       
       // Store the generated signature for display
       setGeneratedSignature(signature);
+      setSignatureBundle(null);
+      setCmsSignature(null);
+      setJws(null);
 
       const { data: document, error: docError } = await supabase
         .from('documents')
         .insert({
+          id: documentId,
           user_id: user.id,
           file_name: fileName,
           file_path: filePath || `text/${user.id}/${Date.now()}`,
@@ -158,38 +373,60 @@ const SignDocument = () => {
 
       if (docError) throw docError;
 
-      const { error: sigError } = await supabase
+      const { data: signatureRow, error: sigError } = await supabase
         .from('signatures')
         .insert({
           document_id: document.id,
           user_id: user.id,
           signature_data: signature,
           signature_hash: fileHash,
-          ip_address: 'client-side',
-          user_agent: navigator.userAgent
-        });
+          public_key_id: keyRecord.id,
+          algorithm,
+          handwritten_signature: boundHandwriting ? drawingToSvg(boundHandwriting) : null,
+          timestamp_token: timestamp.token
+        })
+        .select()
+        .single();
 
       if (sigError) throw sigError;
 
-      // Store audit log with the EXACT public key used for signing
-      await supabase.from('audit_logs').insert({
-        user_id: user.id,
-        action: 'document_signed',
-        resource_type: 'document',
-        resource_id: document.id,
-        ip_address: 'client-side',
-        user_agent: navigator.userAgent,
-        metadata: {
-          file_name: fileName,
-          sign_mode: signMode,
-          public_key: publicKey,  // This exact key will be used for verification
-          signature: signature    // Also store signature for easy retrieval
-        }
-      });
+      setSignatureBundle(createSignatureBundle({
+        documentId: document.id,
+        fileName,
+        documentHash: fileHash,
+        algorithm,
+        signature,
+        publicKey,
+        keyFingerprint: keyRecord.fingerprint,
+        signer: {
+          id: user.id,
+          name: signerName,
+          email: user.email ?? null,
+        },
+        signedAt: signatureRow.created_at,
+      }));
+
+      // A detached CMS file for PKCS#7 tooling, signed over its own signed attributes
+      setCmsSignature(isCmsExportSupported(algorithm)
+        ? await createCmsSignature(dataToSign, {
+          privateKey,
+          certificate,
+          signingTime: new Date(signatureRow.created_at),
+        })
+        : null);
+
+      // Signed text is also issued as a JWS, with the JWK in the header so JOSE libraries can verify it standalone
+      if (signMode === "text") {
+        const jwk = await publicKeyToJwk(publicKey, algorithm);
+        setJws(await createJws(textContent, privateKey, { kid: jwk.kid, jwk }));
+        setPublicJwk(JSON.stringify(jwk, null, 2));
+      }
 
       toast({
         title: "Document signed successfully!",
-        description: "Your document has been cryptographically signed with RSA-2048. Copy the signature below for verification.",
+        description: timestamp.error
+          ? `Signed with ${SIGNATURE_ALGORITHMS[algorithm].label}, but without a trusted timestamp: ${timestamp.error}`
+          : `Your document has been cryptographically signed with ${SIGNATURE_ALGORITHMS[algorithm].label}. Copy the signature below for verification.`,
       });
     } catch (error: any) {
       console.error("Error signing document:", error);
@@ -229,10 +466,27 @@ const SignDocument = () => {
               </div>
               <CardTitle className="text-2xl">Cryptographic Keys</CardTitle>
               <CardDescription>
-                Generate your RSA-2048 key pair for digital signatures
+                Generate your key pair for digital signatures
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="key-algorithm">
+                  {privateKey ? "Algorithm for next key rotation" : "Signature Algorithm"}
+                </Label>
+                <Select value={keyAlgorithm} onValueChange={(v) => setKeyAlgorithm(v as SignatureAlgorithm)}>
+                  <SelectTrigger id="key-algorithm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SIGNATURE_ALGORITHMS).map(([value, { label, description }]) => (
+                      <SelectItem key={value} value={value}>
+                        {label} - {description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               {!privateKey || !publicKey ? (
                 <Button onClick={handleGenerateKeys} disabled={generatingKeys} className="w-full" size="lg">
                   {generatingKeys ? (
@@ -277,15 +531,63 @@ const SignDocument = () => {
                         Copy Public Key
                       </Button>
                     </div>
+                    {keyFingerprint && (
+                      <div>
+                        <Label className="text-xs text-muted-foreground">
+                          Key Fingerprint (SHA-256) - {SIGNATURE_ALGORITHMS[getKeyAlgorithm(privateKey)].label}
+                          {keyVersion !== null && `, Version ${keyVersion}`}
+                        </Label>
+                        <div className="mt-1 p-3 bg-muted/50 rounded-md font-mono text-xs break-all">
+                          {formatFingerprint(keyFingerprint)}
+                        </div>
+                      </div>
+                    )}
                     <div>
-                      <Label className="text-xs text-muted-foreground">Private Key (Base64) - Keep secure!</Label>
-                      <div className="mt-1 p-3 bg-muted/50 rounded-md font-mono text-xs break-all">
-                        {privateKey.substring(0, 80)}... (Stored securely in browser)
+                      <Label className="text-xs text-muted-foreground">Private Key</Label>
+                      <div className="mt-1 p-3 bg-muted/50 rounded-md text-xs">
+                        Stored as a non-extractable key in this browser. It can sign documents but cannot be read or copied.
                       </div>
                     </div>
                   </div>
-                  <Button onClick={handleGenerateKeys} variant="outline" size="sm">
-                    Regenerate Keys
+                  {backupKeys ? (
+                    <div className="p-4 border border-border rounded-lg space-y-2">
+                      <Label htmlFor="backup-passphrase">Back up your private key</Label>
+                      <p className="text-xs text-muted-foreground">
+                        The backup is encrypted with your passphrase. It can only be downloaded right after generating keys.
+                      </p>
+                      <Input
+                        id="backup-passphrase"
+                        type="password"
+                        placeholder="Backup passphrase"
+                        value={backupPassphrase}
+                        onChange={(e) => setBackupPassphrase(e.target.value)}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleExportBackup}
+                        disabled={exportingBackup || !backupPassphrase}
+                      >
+                        {exportingBackup ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <Download className="w-4 h-4 mr-2" />
+                        )}
+                        Download Encrypted Backup
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="p-4 border border-border rounded-lg space-y-1">
+                      <Label>Back up your private key</Label>
+                      <p className="text-xs text-muted-foreground">
+                        A backup can only be downloaded right after keys are generated, because the stored key cannot be
+                        read back out of this browser. If you don't have a backup of this key, rotate your keys below and
+                        download a backup of the new key before leaving this page.
+                      </p>
+                    </div>
+                  )}
+                  <Button onClick={handleGenerateKeys} disabled={generatingKeys} variant="outline" size="sm">
+                    {generatingKeys ? "Rotating Keys..." : "Rotate Keys"}
                   </Button>
                 </div>
               )}
@@ -346,6 +648,31 @@ const SignDocument = () => {
                       </label>
                     </div>
                   </div>
+                  {file && /\.pdf$/i.test(file.name) && (
+                    <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+                      <div>
+                        <Label htmlFor="embed-pdf-signature">Embed signature in PDF</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Adds a PAdES signature that PDF readers can validate. The signed PDF is the file that gets stored.
+                        </p>
+                      </div>
+                      <Switch
+                        id="embed-pdf-signature"
+                        checked={embedPdfSignature}
+                        onCheckedChange={setEmbedPdfSignature}
+                      />
+                    </div>
+                  )}
+                  {file && /\.pdf$/i.test(file.name) && embedPdfSignature && (
+                    <div className="rounded-lg border border-border p-3">
+                      <PdfStampPlacer
+                        file={file}
+                        details={stampPreview}
+                        placement={stampPlacement}
+                        onPlacementChange={setStampPlacement}
+                      />
+                    </div>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="text" className="space-y-4 mt-4">
@@ -365,6 +692,29 @@ const SignDocument = () => {
                 </TabsContent>
               </Tabs>
 
+              {handwriting && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <img
+                      src={toSvgDataUrl(handwriting)}
+                      alt="Your handwritten signature"
+                      className="h-12 w-36 object-contain rounded bg-white border border-border"
+                    />
+                    <div>
+                      <Label htmlFor="attach-handwriting">Attach handwritten signature</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Stored with this signature and shown when it is verified and on the PDF stamp.
+                      </p>
+                    </div>
+                  </div>
+                  <Switch
+                    id="attach-handwriting"
+                    checked={attachHandwriting}
+                    onCheckedChange={setAttachHandwriting}
+                  />
+                </div>
+              )}
+
               {generatedSignature && (
                 <Card className="border-2 border-primary">
                   <CardContent className="pt-6 space-y-4">
@@ -372,6 +722,76 @@ const SignDocument = () => {
                       <CheckCircle className="w-5 h-5 text-primary" />
                       <h3 className="font-bold text-lg">Document Signed Successfully!</h3>
                     </div>
+
+                    {signatureBundle && (
+                      <div className="space-y-2">
+                        <Button
+                          onClick={() => downloadJson(signatureBundle, getBundleFileName(signatureBundle.fileName))}
+                        >
+                          <FileDown className="w-4 h-4 mr-2" />
+                          Download Signature Bundle
+                        </Button>
+                        <p className="text-xs text-muted-foreground">
+                          One file with the signature, public key, document hash and signer details. Upload it on the Verify page instead of copying the values below.
+                        </p>
+                      </div>
+                    )}
+
+                    {signatureBundle && (
+                      <div className="space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                          <Button variant="outline" onClick={() => handleDownloadReceipt("pdf")}>
+                            <QrCode className="w-4 h-4 mr-2" />
+                            Receipt (PDF)
+                          </Button>
+                          <Button variant="outline" onClick={() => handleDownloadReceipt("png")}>
+                            <QrCode className="w-4 h-4 mr-2" />
+                            Receipt (PNG)
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          A printable summary with a QR code. Scanning it opens the verification page; uploading it on the Verify page fills in the signature and public key.
+                        </p>
+                      </div>
+                    )}
+
+                    {signedPdf && (
+                      <div className="space-y-2">
+                        <Button
+                          onClick={() => downloadBlob(new Blob([signedPdf.bytes], { type: "application/pdf" }), signedPdf.fileName)}
+                        >
+                          <FileDown className="w-4 h-4 mr-2" />
+                          Download Signed PDF
+                        </Button>
+                        <p className="text-xs text-muted-foreground">
+                          The PDF with its embedded signature. Share this file: its signature is checked by PDF readers and on the Verify page.
+                        </p>
+                      </div>
+                    )}
+
+                    {cmsSignature && signatureBundle && (
+                      <div className="space-y-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => downloadBlob(
+                            new Blob([cmsSignature], { type: CMS_CONTENT_TYPE }),
+                            getCmsFileName(signatureBundle.fileName)
+                          )}
+                        >
+                          <FileDown className="w-4 h-4 mr-2" />
+                          Download .p7s
+                        </Button>
+                        <p className="text-xs text-muted-foreground">
+                          Detached CMS/PKCS#7 signature with a self-signed certificate, for tools such as OpenSSL or Adobe Acrobat.
+                        </p>
+                      </div>
+                    )}
+                    {signatureBundle && !isCmsExportSupported(signatureBundle.algorithm) && (
+                      <p className="text-xs text-muted-foreground">
+                        No .p7s file is offered for Ed25519 signatures because OpenSSL and most PKCS#7 tools can't verify them.
+                        Use the signature bundle, or rotate to an ECDSA or RSA key for .p7s files.
+                      </p>
+                    )}
                     
                     <div className="space-y-2">
                       <Label htmlFor="generated-signature">Generated Signature (Base64)</Label>
@@ -397,6 +817,66 @@ const SignDocument = () => {
                       </Button>
                     </div>
 
+                    {jws && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                          <Label htmlFor="generated-jws">JSON Web Signature (RFC 7515)</Label>
+                          <Tabs value={jwsSerialization} onValueChange={(v) => setJwsSerialization(v as JwsSerialization)}>
+                            <TabsList>
+                              <TabsTrigger value="compact">Compact</TabsTrigger>
+                              <TabsTrigger value="json">JSON</TabsTrigger>
+                            </TabsList>
+                          </Tabs>
+                        </div>
+                        <Textarea
+                          id="generated-jws"
+                          value={serializeJws(jws, jwsSerialization)}
+                          readOnly
+                          className="font-mono text-xs h-32"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            navigator.clipboard.writeText(serializeJws(jws, jwsSerialization));
+                            toast({
+                              title: "Copied!",
+                              description: "JWS copied to clipboard",
+                            });
+                          }}
+                        >
+                          <Copy className="w-4 h-4 mr-2" />
+                          Copy JWS
+                        </Button>
+                      </div>
+                    )}
+
+                    {jws && (
+                      <div className="space-y-2">
+                        <Label htmlFor="public-jwk-copy">Public Key (JWK)</Label>
+                        <Textarea
+                          id="public-jwk-copy"
+                          value={publicJwk}
+                          readOnly
+                          className="font-mono text-xs h-32"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            navigator.clipboard.writeText(publicJwk);
+                            toast({
+                              title: "Copied!",
+                              description: "JWK copied to clipboard",
+                            });
+                          }}
+                        >
+                          <Copy className="w-4 h-4 mr-2" />
+                          Copy JWK
+                        </Button>
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       <Label htmlFor="public-key-copy">Public Key (for verification)</Label>
                       <Textarea
@@ -430,7 +910,7 @@ const SignDocument = () => {
                   <span className="font-medium">Security Features:</span>
                 </div>
                 <ul className="text-sm text-muted-foreground space-y-1 ml-6">
-                  <li>• RSA-2048 asymmetric cryptography</li>
+                  <li>• {SIGNATURE_ALGORITHMS[privateKey ? getKeyAlgorithm(privateKey) : keyAlgorithm].label} asymmetric cryptography</li>
                   <li>• Base64 encoded signatures</li>
                   <li>• SHA-256 hash verification</li>
                   <li>• Complete audit trail logging</li>
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Shield,
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Users,
+  Upload,
+  Plus,
+  Trash2,
+  Send,
+  Inbox,
+  Loader2,
+  CheckCircle,
+  Clock,
+  XCircle,
+} from "lucide-react";
+import { format } from "date-fns";
+import type { User } from "@supabase/supabase-js";
+import {
+  createSigningRequest,
+  getActiveSigners,
+  getSignedCount,
+  listSentRequests,
+  sortSigners,
+  SIGNING_ORDERS,
+  type SigningOrder,
+  type SigningRequest,
+} from "@/utils/signingRequests";
+import SignerList from "@/components/SignerList";
+
+const SigningRequests = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [signerEmails, setSignerEmails] = useState<string[]>([""]);
+  const [signingOrder, setSigningOrder] = useState<SigningOrder>("sequential");
+  const [creating, setCreating] = useState(false);
+  const [sentRequests, setSentRequests] = useState<SigningRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+        loadRequests(session.user.id);
+      }
+    });
+  }, [navigate]);
+
+  const loadRequests = async (userId: string) => {
+    try {
+      setSentRequests(await listSentRequests(userId));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load signing requests",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSignerEmail = (index: number, value: string) => {
+    setSignerEmails(signerEmails.map((email, i) => (i === index ? value : email)));
+  };
+
+  const moveSigner = (index: number, offset: number) => {
+    const next = [...signerEmails];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSignerEmails(next);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (selectedFile) {
+      if (selectedFile.size > 10 * 1024 * 1024) {
+        toast({
+          title: "File too large",
+          description: "Please select a file smaller than 10MB",
+          variant: "destructive",
+        });
+        return;
+      }
+      setFile(selectedFile);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!user || !file) return;
+
+    setCreating(true);
+
+    try {
+      const request = await createSigningRequest({
+        userId: user.id,
+        file,
+        signers: signerEmails,
+        order: signingOrder,
+      });
+
+      setFile(null);
+      setSignerEmails([""]);
+      await loadRequests(user.id);
+
+      toast({
+        title: "Signing request sent",
+        description: `${request.file_name} is waiting for ${request.document_signers.length} signer(s)`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create signing request",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "signed":
+        return (
+          <Badge className="bg-primary/20 text-primary">
+            <CheckCircle className="w-3 h-3 mr-1" />
+            Signed
+          </Badge>
+        );
+      case "pending":
+        return (
+          <Badge variant="secondary">
+            <Clock className="w-3 h-3 mr-1" />
+            Pending
+          </Badge>
+        );
+      case "rejected":
+        return (
+          <Badge variant="destructive">
+            <XCircle className="w-3 h-3 mr-1" />
+            Declined
+          </Badge>
+        );
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const progress = (request: SigningRequest) =>
+    `${getSignedCount(request)} of ${getActiveSigners(request).length} signed`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold">DigiSigini</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-bold mb-2">Signing Requests</h2>
+            <p className="text-muted-foreground">Collect signatures from several people on one document</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/inbox")}>
+            <Inbox className="w-4 h-4 mr-2" />
+            My Inbox
+          </Button>
+        </div>
+
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Send className="w-5 h-5 text-primary" />
+              New Signing Request
+            </CardTitle>
+            <CardDescription>
+              Upload a document and list who needs to sign it. It is marked signed once everyone has signed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="request-file">Document</Label>
+              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary transition-colors">
+                <Input
+                  id="request-file"
+                  type="file"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  accept=".pdf,.doc,.docx,.txt"
+                />
+                <label htmlFor="request-file" className="cursor-pointer">
+                  <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+                  {file ? (
+                    <p className="font-medium text-foreground">{file.name}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Click to upload (PDF, DOC, DOCX, TXT)</p>
+                  )}
+                </label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="signing-order">Signing order</Label>
+              <Select value={signingOrder} onValueChange={(v) => setSigningOrder(v as SigningOrder)}>
+                <SelectTrigger id="signing-order">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SIGNING_ORDERS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{SIGNING_ORDERS[signingOrder].description}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Signers
+              </Label>
+              {signerEmails.map((email, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  {signingOrder === "sequential" && (
+                    <span className="w-6 text-sm text-muted-foreground text-right">{index + 1}.</span>
+                  )}
+                  <Input
+                    type="email"
+                    placeholder="signer@example.com"
+                    value={email}
+                    onChange={(e) => updateSignerEmail(index, e.target.value)}
+                  />
+                  {signingOrder === "sequential" && (
+                    <>
+                      <Button variant="outline" size="icon" onClick={() => moveSigner(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => moveSigner(index, 1)}
+                        disabled={index === signerEmails.length - 1}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setSignerEmails(signerEmails.filter((_, i) => i !== index))}
+                    disabled={signerEmails.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setSignerEmails([...signerEmails, ""])}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Signer
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                Signers find the request in their inbox when they sign in with this email address. Add yourself if you need to sign too.
+              </p>
+            </div>
+
+            <Button
+              onClick={handleCreate}
+              disabled={!file || signerEmails.every((email) => !email.trim()) || creating}
+              className="w-full"
+              size="lg"
+            >
+              {creating ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Send Request
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle>Sent Requests</CardTitle>
+            <CardDescription>Progress of the documents you asked others to sign</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading requests...</p>
+            ) : sentRequests.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You haven't sent any signing requests yet.</p>
+            ) : (
+              sentRequests.map((request) => (
+                <div key={request.id} className="rounded-lg border border-border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{request.file_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Sent {format(new Date(request.created_at), "PPP 'at' p")} • {SIGNING_ORDERS[request.signing_order ?? "parallel"].label} • {progress(request)}
+                      </p>
+                    </div>
+                    {getStatusBadge(request.status)}
+                  </div>
+                  <SignerList request={request} currentEmail={user?.email} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SigningRequests;
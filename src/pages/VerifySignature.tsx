@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,39 +8,253 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, ArrowLeft, CheckCircle, XCircle, Upload, Loader2, Type, Key, Copy } from "lucide-react";
-import { verifySignature, generateHash } from "@/utils/crypto";
+import { Shield, ArrowLeft, CheckCircle, XCircle, AlertTriangle, Upload, Loader2, Type, Key, Copy, FileJson, FileBadge, FileCode, QrCode, Clock } from "lucide-react";
+import {
+  verifySignature,
+  generateHash,
+  getKeyFingerprint,
+  decodeLegacyText,
+  isSignatureAlgorithm,
+  SIGNATURE_ALGORITHMS,
+  type SignableData,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+import {
+  findPublicKeyByFingerprint,
+  getPublicKeyOwnerName,
+  listPublicKeys,
+  REVOCATION_REASONS,
+  type PublicKeyRecord,
+  type RevocationReason,
+} from "@/utils/keyRegistry";
+import { parseSignatureBundle, SIGNATURE_BUNDLE_EXTENSION, type SignatureBundle } from "@/utils/signatureBundle";
+import { CMS_EXTENSION, parseCmsSignature, verifyCmsSignature, type ParsedCmsSignature } from "@/utils/cms";
+import { jwkToPublicKey, parseJwk, parseJws, verifyJws } from "@/utils/jws";
+import { isPdf, verifyPdfSignatures, type PdfSignatureResult } from "@/utils/pades";
+import { VERIFY_DOCUMENT_PARAM } from "@/utils/verifyUrl";
+import { parseHandwrittenSignature, toSvgDataUrl, type HandwrittenSignature } from "@/utils/handwriting";
+import { buildSignatureTree, countersign, listDocumentSignatures, type SignatureNode } from "@/utils/countersign";
+import { getKeyPair } from "@/utils/keyStore";
+import SignatureTree from "@/components/SignatureTree";
+import { readQrCodeFromImage } from "@/utils/qrScanner";
+import { parseReceiptQrPayload } from "@/utils/receipt";
+import { verifyTimestampToken, type TimestampVerification } from "@/utils/timestamp";
+import { logAuditEvent } from "@/utils/audit";
+
+interface CandidateKey {
+  spki: string;
+  // Registry row and owner, for registered keys
+  id?: string;
+  userId?: string;
+  // Unknown for pasted keys that aren't in the registry; every algorithm is tried then
+  algorithm?: SignatureAlgorithm;
+  version?: number;
+  revokedAt?: string | null;
+  revocationReason?: string | null;
+}
+
+const toCandidateKey = (
+  key: Pick<PublicKeyRecord, "id" | "user_id" | "spki" | "algorithm" | "version" | "revoked_at" | "revocation_reason">
+): CandidateKey => ({
+  spki: key.spki,
+  id: key.id,
+  userId: key.user_id,
+  algorithm: isSignatureAlgorithm(key.algorithm) ? key.algorithm : undefined,
+  version: key.version,
+  revokedAt: key.revoked_at,
+  revocationReason: key.revocation_reason,
+});
+
+interface EmbeddedSignature extends PdfSignatureResult {
+  keyVersion?: number;
+  revocationWarning: string | null;
+}
+
+// Describes how a key revocation relates to the signing time, if the key is revoked.
+// `signedAt` must come from the database or a trusted timestamp. Signing times the
+// signer states themselves, e.g. in CMS or PDF signatures, could be backdated to
+// before a revocation, so they are passed as unknown.
+const describeRevocation = (key: CandidateKey, signedAt: string | null): string | null => {
+  if (!key.revokedAt) return null;
+
+  const reason = REVOCATION_REASONS[key.revocationReason as RevocationReason] ?? "unspecified reason";
+  const revokedAt = new Date(key.revokedAt);
+  const revokedOn = `${revokedAt.toLocaleString()} (${reason.toLowerCase()})`;
+
+  if (!signedAt) {
+    return `Valid signature, but the signing key was revoked on ${revokedOn}. The signing time is unknown, so this signature cannot be trusted.`;
+  }
+  return new Date(signedAt) < revokedAt
+    ? `Valid signature, but the signing key was revoked after the signing time, on ${revokedOn}.`
+    : `Valid signature, but the signing key was revoked before the signing time, on ${revokedOn}. This signature should not be trusted.`;
+};
+
+// Embedded PDF signatures, with the registry's view of each signing key
+const checkEmbeddedSignatures = async (data: ArrayBuffer): Promise<EmbeddedSignature[]> => {
+  if (!isPdf(data)) return [];
+  const signatures = await verifyPdfSignatures(new Uint8Array(data)).catch((error) => {
+    console.error("Error reading embedded PDF signatures:", error);
+    return [];
+  });
+
+  return Promise.all(signatures.map(async (signature) => {
+    if (!signature.cms || !signature.valid) {
+      return { ...signature, revocationWarning: null };
+    }
+    const fingerprint = await getKeyFingerprint(signature.cms.certificate.publicKey);
+    const registered = await findPublicKeyByFingerprint(fingerprint).catch(() => null);
+    const key = registered ? toCandidateKey(registered) : null;
+    return {
+      ...signature,
+      keyVersion: key?.version,
+      revocationWarning: key ? describeRevocation(key, null) : null,
+    };
+  }));
+};
+
+// Result for PDFs that are only verifiable through their embedded signatures
+const embeddedSignatureResult = (signatures: EmbeddedSignature[]) => {
+  const verified = signatures.every((signature) => signature.valid);
+  // Each later signature is an incremental update, so earlier ones never cover the whole
+  // file. Only the latest must, otherwise something was appended after the last signing.
+  const modifiedWarning = signatures.some((signature) => signature.coversWholeDocument)
+    ? null
+    : "Content was appended to this PDF after its last signature. " +
+      "The signatures are valid for the revisions they signed, but later changes are not covered by them.";
+  const revocationWarning = signatures.find((signature) => signature.revocationWarning)?.revocationWarning ?? null;
+  const warning = [modifiedWarning, revocationWarning].filter(Boolean).join(" ");
+  return {
+    verified,
+    message: verified
+      ? modifiedWarning
+        ? `All ${signatures.length} embedded PDF signature(s) are valid for what they signed, but the PDF was changed afterwards. This document is not recorded in DigiSigini.`
+        : `All ${signatures.length} embedded PDF signature(s) are valid. This document is not recorded in DigiSigini.`
+      : "One or more embedded PDF signatures are invalid! The PDF may have been tampered with.",
+    warning: verified && warning ? warning : undefined,
+    warningTitle: modifiedWarning
+      ? revocationWarning ? "PDF Changed After Signing, Key Revoked" : "PDF Changed After Signing"
+      : "Signature Valid, Key Revoked",
+    pdfSignatures: signatures,
+  };
+};
 
 const VerifySignature = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
   const [file, setFile] = useState<File | null>(null);
   const [textContent, setTextContent] = useState("");
   const [loading, setLoading] = useState(false);
-  const [verifyMode, setVerifyMode] = useState<"file" | "text">("file");
+  const [verifyMode, setVerifyMode] = useState<"file" | "text" | "jws">("file");
   const [verificationResult, setVerificationResult] = useState<{
     verified: boolean;
     message: string;
+    warning?: string;
+    warningTitle?: string;
+    signer?: string;
+    payload?: string;
+    pdfSignatures?: EmbeddedSignature[];
+    handwriting?: HandwrittenSignature | null;
+    signatureTree?: SignatureNode[];
+    timestamp?: TimestampVerification;
     details?: any;
   } | null>(null);
   const [manualSignature, setManualSignature] = useState("");
   const [manualPublicKey, setManualPublicKey] = useState("");
+  const [signatureBundle, setSignatureBundle] = useState<SignatureBundle | null>(null);
+  const [cmsSignature, setCmsSignature] = useState<ParsedCmsSignature | null>(null);
+  const [jwsInput, setJwsInput] = useState("");
+  const [jwkInput, setJwkInput] = useState("");
+  const [keyHistory, setKeyHistory] = useState<PublicKeyRecord[]>([]);
+  const [linkedDocument, setLinkedDocument] = useState<{
+    id: string;
+    fileName: string;
+    fileHash: string;
+    signature: string;
+    handwriting: string | null;
+    timestampToken: string | null;
+  } | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  // The recorded document the last verification was about, with the content it was checked against
+  const [treeSource, setTreeSource] = useState<{
+    documentId: string;
+    documentHash: string;
+    fileName: string;
+    content: SignableData[];
+  } | null>(null);
+  const [countersigningId, setCountersigningId] = useState<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (!session) {
         navigate("/auth");
       } else {
-        // Auto-load public key from localStorage (same as sign document)
-        const stored = localStorage.getItem(`keys_${session.user.id}`);
-        if (stored) {
-          const keys = JSON.parse(stored);
-          setManualPublicKey(keys.publicKey);
-        }
+        setUserId(session.user.id);
+        // Load every key version of the user, so a pasted signature is checked
+        // against the key that was current when it was made
+        listPublicKeys(session.user.id)
+          .then(setKeyHistory)
+          .catch((error) => console.error("Error loading key history:", error));
       }
     });
   }, [navigate]);
 
+  // Verification links (e.g. the QR code on a signature stamp) name the document,
+  // so its signature and key are filled in and only the file has to be uploaded
+  useEffect(() => {
+    const documentId = searchParams.get(VERIFY_DOCUMENT_PARAM);
+    if (!documentId) return;
+
+    const loadDocument = async () => {
+      try {
+        const { data: document, error } = await supabase
+          .from('documents')
+          .select(`
+            id,
+            file_name,
+            file_hash,
+            signatures (
+              signature_data,
+              handwritten_signature,
+              parent_signature_id,
+              timestamp_token,
+              public_keys (
+                spki
+              )
+            )
+          `)
+          .eq('id', documentId)
+          .maybeSingle();
+
+        if (error) throw error;
+        const signature = document?.signatures?.find((s) => !s.parent_signature_id);
+        if (!document || !signature?.public_keys) {
+          throw new Error("The linked document was not found or you don't have access to it");
+        }
+
+        setLinkedDocument({
+          id: document.id,
+          fileName: document.file_name,
+          fileHash: document.file_hash,
+          signature: signature.signature_data,
+          handwriting: signature.handwritten_signature,
+          timestampToken: signature.timestamp_token,
+        });
+        setManualSignature(signature.signature_data);
+        setManualPublicKey(signature.public_keys.spki);
+        setVerifyMode("file");
+      } catch (error: any) {
+        toast({
+          title: "Document not available",
+          description: error.message || "Failed to load the linked document",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadDocument();
+  }, [searchParams, toast]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
@@ -54,6 +268,146 @@ const VerifySignature = () => {
     setVerificationResult(null);
   };
 
+  const handleBundleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const bundleFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!bundleFile) return;
+
+    try {
+      const bundle = parseSignatureBundle(await bundleFile.text());
+      setSignatureBundle(bundle);
+      setManualSignature(bundle.signature);
+      setManualPublicKey(bundle.publicKey);
+      setVerificationResult(null);
+      toast({
+        title: "Signature bundle loaded",
+        description: `Signature for ${bundle.fileName} by ${bundle.signer.name || bundle.signer.email || "unknown signer"}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Invalid signature bundle",
+        description: error.message || "Failed to read signature bundle",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The QR code on a verification receipt carries a full signature bundle
+  const handleReceiptQrChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const imageFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!imageFile) return;
+
+    try {
+      const { bundle } = parseReceiptQrPayload(await readQrCodeFromImage(imageFile));
+      setSignatureBundle(bundle);
+      setManualSignature(bundle.signature);
+      setManualPublicKey(bundle.publicKey);
+      setVerificationResult(null);
+      toast({
+        title: "Receipt QR code read",
+        description: `Signature for ${bundle.fileName} by ${bundle.signer.name || bundle.signer.email || "unknown signer"}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Could not read QR code",
+        description: error.message || "Failed to read the receipt image",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCmsChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const cmsFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!cmsFile) return;
+
+    try {
+      const cms = parseCmsSignature(new Uint8Array(await cmsFile.arrayBuffer()));
+      setCmsSignature(cms);
+      setManualSignature(cms.signature);
+      setManualPublicKey(cms.certificate.publicKey);
+      setVerificationResult(null);
+      toast({
+        title: "CMS signature loaded",
+        description: `Signed by ${cms.certificate.subject.commonName || "unknown signer"} with ${SIGNATURE_ALGORITHMS[cms.algorithm].label}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Invalid CMS signature",
+        description: error.message || "Failed to read .p7s file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // A JWS carries its own payload, so it is verified without a file or database lookup
+  const handleVerifyJws = async () => {
+    setLoading(true);
+    setVerificationResult(null);
+
+    try {
+      const jws = parseJws(jwsInput);
+
+      // A pasted JWK takes precedence over the key embedded in the header
+      let publicKey: string | null = null;
+      if (jwkInput.trim()) {
+        publicKey = await jwkToPublicKey(parseJwk(jwkInput), jws.algorithm);
+      } else if (jws.header.jwk) {
+        publicKey = await jwkToPublicKey(jws.header.jwk, jws.algorithm);
+      } else if (typeof jws.header.kid === "string") {
+        publicKey = (await findPublicKeyByFingerprint(jws.header.kid))?.spki ?? null;
+      }
+
+      if (!publicKey) {
+        setVerificationResult({
+          verified: false,
+          message: "The JWS has no embedded key and its key ID is not registered. Paste the signer's public JWK to verify it."
+        });
+        return;
+      }
+
+      if (!await verifyJws(jws, publicKey)) {
+        setVerificationResult({
+          verified: false,
+          message: "Signature verification failed! The JWS payload or header may have been tampered with."
+        });
+        return;
+      }
+
+      const registered = await findPublicKeyByFingerprint(await getKeyFingerprint(publicKey)).catch(() => null);
+      const registeredKey = registered ? toCandidateKey(registered) : null;
+      const revocationWarning = registeredKey ? describeRevocation(registeredKey, null) : null;
+
+      setVerificationResult({
+        verified: true,
+        message: `JWS verified successfully! Algorithm: ${SIGNATURE_ALGORITHMS[jws.algorithm].label} (${jws.header.alg}).` +
+          (registeredKey?.version ? ` Signed with key version ${registeredKey.version}.` : ""),
+        warning: revocationWarning ??
+          (registeredKey ? undefined : "The signing key is not registered in DigiSigini. The signature only proves the text matches this key."),
+        warningTitle: revocationWarning ? "Signature Valid, Key Revoked" : "Signature Valid, Unknown Key",
+        payload: jws.payload,
+      });
+
+      toast({
+        title: "Verification Complete",
+        description: "JWS signature is valid",
+      });
+    } catch (error: any) {
+      console.error("Error verifying JWS:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to verify JWS",
+        variant: "destructive",
+      });
+      setVerificationResult({
+        verified: false,
+        message: "Error occurred during verification"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleVerify = async () => {
     if (verifyMode === "file" && !file) {
@@ -76,24 +430,53 @@ const VerifySignature = () => {
 
     setLoading(true);
     setVerificationResult(null);
+    setTreeSource(null);
 
     try {
-      let dataToVerify: string;
+      let dataToVerify: SignableData;
+      // Files signed before binary signing was introduced were signed as decoded text
+      let legacyData: string | null = null;
+      let pdfSignatures: EmbeddedSignature[] = [];
 
       if (verifyMode === "file" && file) {
-        dataToVerify = await file.text();
+        dataToVerify = await file.arrayBuffer();
+        legacyData = decodeLegacyText(dataToVerify);
+        pdfSignatures = await checkEmbeddedSignatures(dataToVerify);
       } else {
         dataToVerify = textContent;
       }
 
       // Use manual inputs if provided, otherwise fetch from database
       let signatureData = manualSignature;
-      let publicKey = manualPublicKey;
-      let documentDetails = null;
+      let candidateKeys: CandidateKey[] = [];
+      let signedAt: string | null = null;
+      let handwriting = linkedDocument?.signature === signatureData ? linkedDocument.handwriting : null;
+      let timestampToken = linkedDocument?.signature === signatureData ? linkedDocument.timestampToken : null;
+      let recordedDocument = linkedDocument?.signature === signatureData
+        ? { id: linkedDocument.id, hash: linkedDocument.fileHash, fileName: linkedDocument.fileName }
+        : null;
+
+      // A loaded .p7s is used as long as its values haven't been replaced in the fields
+      const activeCms = cmsSignature?.signature === manualSignature && cmsSignature.certificate.publicKey === manualPublicKey
+        ? cmsSignature
+        : null;
+      if (manualPublicKey) {
+        // Pick up version and revocation status if the pasted key is registered
+        const registered = await findPublicKeyByFingerprint(await getKeyFingerprint(manualPublicKey)).catch(() => null);
+        const knownAlgorithm = activeCms?.algorithm
+          ?? (signatureBundle?.publicKey === manualPublicKey ? signatureBundle.algorithm : undefined);
+        candidateKeys = [registered ? toCandidateKey(registered) : { spki: manualPublicKey, algorithm: knownAlgorithm }];
+      } else if (manualSignature) {
+        // A pasted signature without a public key is checked against the user's key history
+        candidateKeys = keyHistory.map(toCandidateKey);
+      }
 
       // If manual data not provided, try to fetch from database
-      if (!signatureData || !publicKey) {
-        const fileHash = await generateHash(dataToVerify);
+      if (!signatureData || candidateKeys.length === 0) {
+        const fileHashes = [await generateHash(dataToVerify)];
+        if (legacyData !== null) {
+          fileHashes.push(await generateHash(legacyData));
+        }
 
         const { data: documents, error: docError } = await supabase
           .from('documents')
@@ -102,16 +485,31 @@ const VerifySignature = () => {
             signatures (
               signature_data,
               signature_hash,
+              parent_signature_id,
+              algorithm,
+              handwritten_signature,
+              timestamp_token,
               created_at,
-              ip_address
+              ip_address,
+              public_key_id,
+              public_keys (
+                id,
+                user_id,
+                spki,
+                algorithm,
+                fingerprint,
+                version,
+                revoked_at,
+                revocation_reason
+              )
             )
           `)
-          .eq('file_hash', fileHash);
+          .in('file_hash', fileHashes);
 
         if (docError) throw docError;
 
         if (!documents || documents.length === 0) {
-          setVerificationResult({
+          setVerificationResult(pdfSignatures.length > 0 ? embeddedSignatureResult(pdfSignatures) : {
             verified: false,
             message: "This content has not been signed or no signature/public key provided"
           });
@@ -119,29 +517,36 @@ const VerifySignature = () => {
         }
 
         const doc = documents[0];
-        const signature = doc.signatures?.[0];
+        // Countersignatures cover another signature, not the content
+        const signature = doc.signatures?.find((s) => !s.parent_signature_id);
 
         if (!signature) {
-          setVerificationResult({
+          setVerificationResult(pdfSignatures.length > 0 ? embeddedSignatureResult(pdfSignatures) : {
             verified: false,
             message: "No signature found for this content"
           });
           return;
         }
 
-        // Get public key and signature from audit logs
-        const { data: auditLogs } = await supabase
-          .from('audit_logs')
-          .select('metadata')
-          .eq('resource_id', doc.id)
-          .eq('action', 'document_signed')
-          .limit(1)
-          .single();
-
-        const metadata = auditLogs?.metadata as { public_key?: string; signature?: string } | null;
-        const dbPublicKey = metadata?.public_key;
-        const dbSignature = metadata?.signature || signature.signature_data;
-        
+        // Resolve the signing key from the registry; signatures made before the
+        // registry existed only record their key in the audit log metadata
+        let dbPublicKey = signature.public_keys?.spki;
+        let dbSignature = signature.signature_data;
+
+        if (!dbPublicKey) {
+          const { data: auditLogs } = await supabase
+            .from('audit_logs')
+            .select('metadata')
+            .eq('resource_id', doc.id)
+            .eq('action', 'document_signed')
+            .limit(1)
+            .single();
+
+          const metadata = auditLogs?.metadata as { public_key?: string; signature?: string } | null;
+          dbPublicKey = metadata?.public_key;
+          dbSignature = metadata?.signature || signature.signature_data;
+        }
+
         if (!dbPublicKey) {
           setVerificationResult({
             verified: false,
@@ -151,29 +556,163 @@ const VerifySignature = () => {
         }
 
         signatureData = dbSignature;
-        publicKey = dbPublicKey;
+        // Dispatch on the algorithm recorded with the signature itself
+        const signatureAlgorithm = isSignatureAlgorithm(signature.algorithm) ? signature.algorithm : undefined;
+        candidateKeys = [{
+          ...(signature.public_keys ? toCandidateKey(signature.public_keys) : { spki: dbPublicKey }),
+          algorithm: signatureAlgorithm,
+        }];
+        signedAt = signature.created_at;
+        handwriting = signature.handwritten_signature;
+        timestampToken = signature.timestamp_token;
+        recordedDocument = { id: doc.id, hash: doc.file_hash, fileName: doc.file_name };
 
         // Auto-populate manual fields with the EXACT keys from database
         setManualSignature(signatureData);
-        setManualPublicKey(publicKey);
+        setManualPublicKey(dbPublicKey);
+      }
+
+      let matchedKey: CandidateKey | null = null;
+      let isLegacy = false;
+
+      verification: for (const candidate of candidateKeys) {
+        const algorithms = candidate.algorithm
+          ? [candidate.algorithm]
+          : (Object.keys(SIGNATURE_ALGORITHMS) as SignatureAlgorithm[]);
+
+        for (const algorithm of algorithms) {
+          // CMS signatures may cover signed attributes rather than the content itself
+          const verifyContent = (data: SignableData) => activeCms
+            ? verifyCmsSignature(data, activeCms)
+            : verifySignature(data, signatureData, candidate.spki, algorithm);
+
+          if (await verifyContent(dataToVerify)) {
+            matchedKey = { ...candidate, algorithm };
+            break verification;
+          }
+          if (legacyData !== null && await verifyContent(legacyData)) {
+            matchedKey = { ...candidate, algorithm };
+            isLegacy = true;
+            break verification;
+          }
+        }
+      }
+
+      const isValid = matchedKey !== null;
+      if (matchedKey && !manualPublicKey) {
+        setManualPublicKey(matchedKey.spki);
       }
+      const keyNote = matchedKey
+        ? ` Algorithm: ${SIGNATURE_ALGORITHMS[matchedKey.algorithm].label}.` +
+          (matchedKey.version ? ` Signed with key version ${matchedKey.version}.` : "")
+        : "";
 
-      const isValid = await verifySignature(dataToVerify, signatureData, publicKey);
+      // A token from the trusted TSA proves when the signature existed, independently of
+      // our database, so its time takes precedence when judging a later key revocation.
+      // Tokens from any other authority could carry whatever time their issuer chose.
+      const timestamp = timestampToken && matchedKey
+        ? await verifyTimestampToken(timestampToken, signatureData)
+        : undefined;
+      if (timestamp?.trusted && timestamp.info) {
+        signedAt = timestamp.info.genTime.toISOString();
+      }
+      const timestampWarning = timestamp && !timestamp.valid
+        ? `The trusted timestamp recorded with this signature is invalid: ${timestamp.error}`
+        : null;
+      const revocationWarning = matchedKey ? describeRevocation(matchedKey, signedAt) : null;
+
+      // Signer details are only reported when the bundle's signature is the one that verified
+      const bundleSigner = signatureBundle?.signature === signatureData ? signatureBundle.signer : null;
+      let hashWarning: string | null = null;
+      if (bundleSigner && signatureBundle.documentHash !== await generateHash(dataToVerify)) {
+        hashWarning = "The document hash recorded in the signature bundle does not match this content.";
+      }
+
+      // A bundle names its signer itself, so the signer is only confirmed when the
+      // registry has the key under the same user
+      const bundleOwnerName = bundleSigner && matchedKey?.id && matchedKey.userId === bundleSigner.id
+        ? await getPublicKeyOwnerName(matchedKey.id).catch(() => null)
+        : null;
+      const unknownKeyWarning = bundleSigner && !bundleOwnerName
+        ? "The signing key is not registered in DigiSigini to the signer named in the signature bundle. " +
+          "The signature only proves the content matches this key; the signer's name is self-declared."
+        : null;
+
+      // Certificate subjects are reported as claimed; the certificate chain is not validated
+      const cmsSigner = activeCms ? activeCms.certificate.subject : null;
+      let signer: string | undefined;
+      if (bundleOwnerName) {
+        signer = `${bundleOwnerName}, the registered owner of the signing key`;
+      } else if (bundleSigner) {
+        signer = `${bundleSigner.name || "Unnamed signer"}${bundleSigner.email ? ` <${bundleSigner.email}>` : ""}` +
+          ", as self-declared in the signature bundle";
+      } else if (cmsSigner) {
+        signer = `${cmsSigner.commonName || "Unnamed signer"}${cmsSigner.email ? ` <${cmsSigner.email}>` : ""}` +
+          (cmsSigner.organization ? ` (${cmsSigner.organization})` : "") +
+          (activeCms?.signingTime ? `, ${activeCms.signingTime.toLocaleString()}` : "") +
+          ", as stated in the signer's certificate";
+      }
+
+      // Every signature and countersignature recorded on the document, each checked on its own
+      let signatureTree: SignatureNode[] | undefined;
+      if (recordedDocument) {
+        const content = legacyData !== null ? [dataToVerify, legacyData] : [dataToVerify];
+        signatureTree = await buildSignatureTree(
+          await listDocumentSignatures(recordedDocument.id),
+          recordedDocument.hash,
+          content,
+        ).catch((error) => {
+          console.error("Error loading signature tree:", error);
+          return undefined;
+        });
+        setTreeSource({
+          documentId: recordedDocument.id,
+          documentHash: recordedDocument.hash,
+          fileName: recordedDocument.fileName,
+          content,
+        });
+      }
+
+      await logAuditEvent("signature_verified", recordedDocument?.id ?? null, {
+        verified: isValid,
+        verify_mode: verifyMode,
+        file_name: verifyMode === "file" ? file?.name : undefined,
+        file_hash: await generateHash(dataToVerify),
+        key_fingerprint: matchedKey ? await getKeyFingerprint(matchedKey.spki) : undefined,
+        algorithm: matchedKey?.algorithm,
+        timestamp_valid: timestamp?.valid,
+        timestamp_trusted: timestamp?.trusted,
+      });
 
       if (isValid) {
         setVerificationResult({
           verified: true,
-          message: "Signature verified successfully! Content is authentic and unmodified."
+          message: (isLegacy
+            ? "Signature verified successfully using the legacy text-based format. Re-sign this file to protect its exact binary content."
+            : "Signature verified successfully! Content is authentic and unmodified.") + keyNote,
+          warning: revocationWarning ?? timestampWarning ?? hashWarning ?? unknownKeyWarning ?? undefined,
+          warningTitle: revocationWarning
+            ? "Signature Valid, Key Revoked"
+            : timestampWarning
+              ? "Signature Valid, Timestamp Invalid"
+              : hashWarning ? "Signature Valid, Bundle Mismatch" : "Signature Valid, Unknown Key",
+          signer,
+          pdfSignatures,
+          handwriting: handwriting ? parseHandwrittenSignature(handwriting) : null,
+          signatureTree,
+          timestamp,
         });
 
         toast({
           title: "Verification Complete",
-          description: "Signature is valid and authentic",
+          description: revocationWarning ? "Signature is valid, but the signing key has been revoked" : "Signature is valid and authentic",
         });
       } else {
         setVerificationResult({
           verified: false,
-          message: "Signature verification failed! Content may have been tampered with."
+          message: "Signature verification failed! Content may have been tampered with.",
+          pdfSignatures,
+          signatureTree,
         });
       }
     } catch (error: any) {
@@ -192,6 +731,49 @@ const VerifySignature = () => {
     }
   };
 
+  const handleCountersign = async (node: SignatureNode) => {
+    if (!userId || !treeSource) return;
+
+    setCountersigningId(node.signature.id);
+
+    try {
+      const keys = await getKeyPair(userId);
+      if (!keys) {
+        throw new Error("No signing keys in this browser. Generate or restore your keys first.");
+      }
+
+      const { timestampError } = await countersign({
+        documentId: treeSource.documentId,
+        documentHash: treeSource.documentHash,
+        parent: node.signature,
+        userId,
+        keys,
+      });
+
+      const signatureTree = await buildSignatureTree(
+        await listDocumentSignatures(treeSource.documentId),
+        treeSource.documentHash,
+        treeSource.content,
+      );
+      setVerificationResult((result) => result && { ...result, signatureTree });
+
+      toast({
+        title: "Countersigned",
+        description: timestampError
+          ? `Your countersignature has been recorded without a trusted timestamp: ${timestampError}`
+          : "Your countersignature has been recorded",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to countersign",
+        variant: "destructive",
+      });
+    } finally {
+      setCountersigningId(null);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b border-border bg-card">
@@ -221,8 +803,16 @@ const VerifySignature = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <Tabs value={verifyMode} onValueChange={(v) => setVerifyMode(v as "file" | "text")}>
-              <TabsList className="grid w-full grid-cols-2">
+            {linkedDocument && (
+              <div className="p-3 bg-muted rounded-lg text-sm">
+                <p className="font-medium text-foreground">Verifying {linkedDocument.fileName}</p>
+                <p className="text-muted-foreground">
+                  The signature and public key of this document have been filled in. Upload your copy of the file to check it.
+                </p>
+              </div>
+            )}
+            <Tabs value={verifyMode} onValueChange={(v) => setVerifyMode(v as "file" | "text" | "jws")}>
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="file">
                   <Upload className="w-4 h-4 mr-2" />
                   Verify File
@@ -231,6 +821,10 @@ const VerifySignature = () => {
                   <Type className="w-4 h-4 mr-2" />
                   Verify Text
                 </TabsTrigger>
+                <TabsTrigger value="jws">
+                  <FileCode className="w-4 h-4 mr-2" />
+                  Verify JWS
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="file" className="space-y-4 mt-4">
@@ -281,91 +875,187 @@ const VerifySignature = () => {
                   </p>
                 </div>
               </TabsContent>
+
+              <TabsContent value="jws" className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="verify-jws">JSON Web Signature</Label>
+                  <Textarea
+                    id="verify-jws"
+                    placeholder="Paste a compact JWS (header.payload.signature) or its JSON serialization..."
+                    value={jwsInput}
+                    onChange={(e) => {
+                      setJwsInput(e.target.value);
+                      setVerificationResult(null);
+                    }}
+                    className="min-h-[160px] font-mono text-xs"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="verify-jwk">Public Key (JWK, optional)</Label>
+                  <Textarea
+                    id="verify-jwk"
+                    placeholder='{"kty": "EC", "crv": "P-256", ...}'
+                    value={jwkInput}
+                    onChange={(e) => {
+                      setJwkInput(e.target.value);
+                      setVerificationResult(null);
+                    }}
+                    className="font-mono text-xs h-24"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Without a JWK, the key embedded in the JWS header or its registered key ID is used
+                  </p>
+                </div>
+              </TabsContent>
             </Tabs>
 
-            <div className="space-y-4 p-4 border border-border rounded-lg bg-card/50">
-              <h3 className="font-semibold flex items-center gap-2">
-                <Key className="w-4 h-4" />
-                Verification Credentials
-                {manualSignature && manualPublicKey && (
-                  <span className="text-xs text-primary bg-primary/10 px-2 py-1 rounded">Auto-filled from database</span>
-                )}
-              </h3>
-              
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <Label htmlFor="manual-signature">Generated Signature (Base64)</Label>
-                  {manualSignature && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        navigator.clipboard.writeText(manualSignature);
-                        toast({
-                          title: "Copied!",
-                          description: "Signature copied to clipboard",
-                        });
-                      }}
-                    >
-                      <Copy className="w-3 h-3 mr-1" />
-                      Copy
-                    </Button>
+            {verifyMode !== "jws" && (
+              <div className="space-y-4 p-4 border border-border rounded-lg bg-card/50">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Key className="w-4 h-4" />
+                  Verification Credentials
+                  {manualSignature && manualPublicKey && (
+                    <span className="text-xs text-primary bg-primary/10 px-2 py-1 rounded">
+                      {signatureBundle?.signature === manualSignature
+                        ? "Loaded from signature bundle"
+                        : cmsSignature?.signature === manualSignature ? "Loaded from .p7s file" : "Auto-filled from database"}
+                    </span>
                   )}
+                </h3>
+
+                <div className="space-y-2">
+                  <Label htmlFor="signature-bundle">Signature Bundle ({SIGNATURE_BUNDLE_EXTENSION})</Label>
+                  <Input
+                    id="signature-bundle"
+                    type="file"
+                    onChange={handleBundleChange}
+                    className="hidden"
+                    accept={`${SIGNATURE_BUNDLE_EXTENSION},.json,application/json`}
+                  />
+                  <label
+                    htmlFor="signature-bundle"
+                    className="flex items-center gap-2 cursor-pointer border border-dashed border-border rounded-md p-3 text-sm text-muted-foreground hover:border-primary transition-colors"
+                  >
+                    <FileJson className="w-4 h-4" />
+                    {signatureBundle
+                      ? `${signatureBundle.fileName} signed by ${signatureBundle.signer.name || signatureBundle.signer.email || "unknown signer"}`
+                      : "Upload a signature bundle to fill in every field at once"}
+                  </label>
                 </div>
-                <Textarea
-                  id="manual-signature"
-                  placeholder="Paste the generated signature here or it will auto-fill from database..."
-                  value={manualSignature}
-                  onChange={(e) => setManualSignature(e.target.value)}
-                  className="font-mono text-xs h-32"
-                />
-              </div>
 
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <Label htmlFor="manual-public-key">Public Key (Same as in Sign Document)</Label>
-                  {manualPublicKey && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        navigator.clipboard.writeText(manualPublicKey);
-                        toast({
-                          title: "Copied!",
-                          description: "Public key copied to clipboard",
-                        });
-                      }}
-                    >
-                      <Copy className="w-3 h-3 mr-1" />
-                      Copy
-                    </Button>
-                  )}
+                <div className="space-y-2">
+                  <Label htmlFor="receipt-qr">Receipt QR Code (image)</Label>
+                  <Input
+                    id="receipt-qr"
+                    type="file"
+                    onChange={handleReceiptQrChange}
+                    className="hidden"
+                    accept="image/*"
+                  />
+                  <label
+                    htmlFor="receipt-qr"
+                    className="flex items-center gap-2 cursor-pointer border border-dashed border-border rounded-md p-3 text-sm text-muted-foreground hover:border-primary transition-colors"
+                  >
+                    <QrCode className="w-4 h-4" />
+                    Upload a scan or photo of a verification receipt's QR code
+                  </label>
                 </div>
-                <Textarea
-                  id="manual-public-key"
-                  placeholder="Paste the public key here or it will auto-fill from database..."
-                  value={manualPublicKey}
-                  onChange={(e) => setManualPublicKey(e.target.value)}
-                  className="font-mono text-xs h-32"
-                />
-              </div>
 
-              <div className="bg-primary/5 border border-primary/20 rounded-lg p-3">
-                <p className="text-xs text-foreground">
-                  <strong>✓ Auto-filled:</strong> Public key automatically loaded from your sign document keys.
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  <strong>Database lookup:</strong> Signature will auto-fill when you verify a document signed in this system.
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  <strong>Manual entry:</strong> You can paste both values manually if signing was done externally.
-                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="cms-signature">CMS/PKCS#7 Signature ({CMS_EXTENSION})</Label>
+                  <Input
+                    id="cms-signature"
+                    type="file"
+                    onChange={handleCmsChange}
+                    className="hidden"
+                    accept={`${CMS_EXTENSION},.p7m,.pem,application/pkcs7-signature`}
+                  />
+                  <label
+                    htmlFor="cms-signature"
+                    className="flex items-center gap-2 cursor-pointer border border-dashed border-border rounded-md p-3 text-sm text-muted-foreground hover:border-primary transition-colors"
+                  >
+                    <FileBadge className="w-4 h-4" />
+                    {cmsSignature
+                      ? `Signed by ${cmsSignature.certificate.subject.commonName || "unknown signer"} (${SIGNATURE_ALGORITHMS[cmsSignature.algorithm].label})`
+                      : "Upload a detached .p7s signature from this app or other CMS tools"}
+                  </label>
+                </div>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="manual-signature">Generated Signature (Base64)</Label>
+                    {manualSignature && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          navigator.clipboard.writeText(manualSignature);
+                          toast({
+                            title: "Copied!",
+                            description: "Signature copied to clipboard",
+                          });
+                        }}
+                      >
+                        <Copy className="w-3 h-3 mr-1" />
+                        Copy
+                      </Button>
+                    )}
+                  </div>
+                  <Textarea
+                    id="manual-signature"
+                    placeholder="Paste the generated signature here or it will auto-fill from database..."
+                    value={manualSignature}
+                    onChange={(e) => setManualSignature(e.target.value)}
+                    className="font-mono text-xs h-32"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="manual-public-key">Public Key (Same as in Sign Document)</Label>
+                    {manualPublicKey && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          navigator.clipboard.writeText(manualPublicKey);
+                          toast({
+                            title: "Copied!",
+                            description: "Public key copied to clipboard",
+                          });
+                        }}
+                      >
+                        <Copy className="w-3 h-3 mr-1" />
+                        Copy
+                      </Button>
+                    )}
+                  </div>
+                  <Textarea
+                    id="manual-public-key"
+                    placeholder="Paste the public key here or it will auto-fill from database..."
+                    value={manualPublicKey}
+                    onChange={(e) => setManualPublicKey(e.target.value)}
+                    className="font-mono text-xs h-32"
+                  />
+                </div>
+
+                <div className="bg-primary/5 border border-primary/20 rounded-lg p-3">
+                  <p className="text-xs text-foreground">
+                    <strong>✓ Key history:</strong> A pasted signature without a public key is checked against every version of your keys.
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    <strong>Database lookup:</strong> Signature will auto-fill when you verify a document signed in this system.
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    <strong>Manual entry:</strong> You can paste both values manually if signing was done externally.
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
 
             <Button
-              onClick={handleVerify}
-              disabled={(verifyMode === "file" ? !file : !textContent.trim()) || loading}
+              onClick={verifyMode === "jws" ? handleVerifyJws : handleVerify}
+              disabled={(verifyMode === "file" ? !file : verifyMode === "text" ? !textContent.trim() : !jwsInput.trim()) || loading}
               className="w-full"
               size="lg"
             >
@@ -383,10 +1073,18 @@ const VerifySignature = () => {
             </Button>
 
             {verificationResult && (
-              <Card className={`border-2 ${verificationResult.verified ? 'border-primary' : 'border-destructive'}`}>
+              <Card className={`border-2 ${
+                verificationResult.verified
+                  ? verificationResult.warning ? 'border-yellow-500' : 'border-primary'
+                  : 'border-destructive'
+              }`}>
                 <CardContent className="pt-6">
                   <div className="flex items-start gap-4">
-                    {verificationResult.verified ? (
+                    {verificationResult.verified && verificationResult.warning ? (
+                      <div className="w-12 h-12 rounded-full bg-yellow-500/20 flex items-center justify-center flex-shrink-0">
+                        <AlertTriangle className="w-6 h-6 text-yellow-500" />
+                      </div>
+                    ) : verificationResult.verified ? (
                       <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center flex-shrink-0">
                         <CheckCircle className="w-6 h-6 text-primary" />
                       </div>
@@ -397,9 +1095,96 @@ const VerifySignature = () => {
                     )}
                     <div className="flex-1">
                       <h3 className="font-bold text-lg mb-2">
-                        {verificationResult.verified ? "Signature Verified" : "Verification Failed"}
+                        {verificationResult.verified
+                          ? verificationResult.warning ? verificationResult.warningTitle : "Signature Verified"
+                          : "Verification Failed"}
                       </h3>
                       <p className="text-muted-foreground">{verificationResult.message}</p>
+                      {verificationResult.payload !== undefined && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-sm font-medium">Signed content</p>
+                          <pre className="text-xs bg-muted/50 rounded p-2 whitespace-pre-wrap break-words max-h-48 overflow-auto">
+                            {verificationResult.payload}
+                          </pre>
+                        </div>
+                      )}
+                      {verificationResult.signer && (
+                        <p className="text-sm text-muted-foreground mt-2">Signed by {verificationResult.signer}</p>
+                      )}
+                      {verificationResult.timestamp?.valid && verificationResult.timestamp.info && (
+                        verificationResult.timestamp.trusted ? (
+                          <p className="text-sm text-muted-foreground mt-2 flex items-center gap-1">
+                            <Clock className="w-4 h-4 flex-shrink-0" />
+                            Trusted timestamp: {verificationResult.timestamp.info.genTime.toLocaleString()} from{" "}
+                            {verificationResult.timestamp.info.tsaName}
+                          </p>
+                        ) : (
+                          <p className="text-sm text-yellow-600 mt-2 flex items-center gap-1">
+                            <Clock className="w-4 h-4 flex-shrink-0" />
+                            Unverified timestamp: {verificationResult.timestamp.info.genTime.toLocaleString()} from{" "}
+                            {verificationResult.timestamp.info.tsaName} (as stated in its certificate).{" "}
+                            {verificationResult.timestamp.error}, so this time is not used as the signing time.
+                          </p>
+                        )
+                      )}
+                      {verificationResult.handwriting && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-sm font-medium">Handwritten signature</p>
+                          <img
+                            src={toSvgDataUrl(verificationResult.handwriting)}
+                            alt="Handwritten signature recorded with this signature"
+                            className="h-20 max-w-xs object-contain rounded border border-border bg-white p-1"
+                          />
+                        </div>
+                      )}
+                      {verificationResult.warning && (
+                        <p className="text-sm text-yellow-600 mt-2">{verificationResult.warning}</p>
+                      )}
+                      {verificationResult.pdfSignatures && verificationResult.pdfSignatures.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                          <p className="text-sm font-medium">Embedded PDF signatures</p>
+                          {verificationResult.pdfSignatures.map((signature, index) => (
+                            <div key={index} className="flex items-start gap-2 rounded-md border border-border p-2 text-sm">
+                              {signature.valid ? (
+                                <CheckCircle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${signature.revocationWarning ? "text-yellow-500" : "text-primary"}`} />
+                              ) : (
+                                <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+                              )}
+                              <div className="space-y-0.5">
+                                <p className="font-medium">
+                                  {signature.fieldName || `Signature ${index + 1}`}: {signature.signerName || "Unknown signer"}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {signature.signingTime ? `${signature.signingTime.toLocaleString()} (stated by the signer)` : "Signing time unknown"}
+                                  {signature.cms && ` · ${SIGNATURE_ALGORITHMS[signature.cms.algorithm].label}`}
+                                  {signature.keyVersion && ` · key version ${signature.keyVersion}`}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {!signature.valid
+                                    ? `Invalid signature${signature.error ? `: ${signature.error}` : ""}`
+                                    : signature.coversWholeDocument
+                                      ? "Valid, covers the whole document"
+                                      : "Valid for the revision it signed"}
+                                </p>
+                                {signature.revocationWarning && (
+                                  <p className="text-xs text-yellow-600">{signature.revocationWarning}</p>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {verificationResult.signatureTree && verificationResult.signatureTree.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                          <p className="text-sm font-medium">Recorded signatures</p>
+                          <SignatureTree
+                            nodes={verificationResult.signatureTree}
+                            currentUserId={userId ?? undefined}
+                            busyId={countersigningId}
+                            onCountersign={handleCountersign}
+                          />
+                        </div>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -413,7 +1198,9 @@ const VerifySignature = () => {
               </div>
               <ul className="text-sm text-muted-foreground space-y-1 ml-6">
                 <li>• Content hash generated using SHA-256</li>
-                <li>• RSA-2048 signature verification with public key</li>
+                <li>• RSA, ECDSA or Ed25519 signature verification with public key</li>
+                <li>• Embedded PDF signatures (PAdES) extracted and checked</li>
+                <li>• Countersignatures checked against the signature they cover</li>
                 <li>• Base64 signature comparison</li>
                 <li>• Tamper detection through cryptographic validation</li>
               </ul>
@@ -0,0 +1,32 @@
+// Admin console data. The `admin_*` functions check the caller's admin role in
+// the database, so hiding the console from other users is only a convenience.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+export type AdminUser = Database["public"]["Functions"]["admin_list_users"]["Returns"][number];
+export type AdminStatistics = Database["public"]["Functions"]["admin_statistics"]["Returns"][number];
+
+export const isAdmin = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc("has_role", { _user_id: userId, _role: "admin" });
+  if (error) throw error;
+  return data === true;
+};
+
+export const listUsers = async (): Promise<AdminUser[]> => {
+  const { data, error } = await supabase.rpc("admin_list_users");
+  if (error) throw error;
+  return data || [];
+};
+
+export const setUserRole = async (userId: string, role: AppRole, granted: boolean) => {
+  const { error } = await supabase.rpc("admin_set_role", { _user_id: userId, _role: role, _granted: granted });
+  if (error) throw error;
+};
+
+export const getAdminStatistics = async (): Promise<AdminStatistics> => {
+  const { data, error } = await supabase.rpc("admin_statistics").single();
+  if (error) throw error;
+  return data;
+};
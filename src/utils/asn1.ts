@@ -0,0 +1,213 @@
+// Minimal ASN.1 DER encoder and decoder, enough for CMS signatures and X.509
+// certificates. Values are built and read as plain byte arrays.
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const encodeLength = (length: number): Uint8Array => {
+  if (length < 0x80) {
+    return new Uint8Array([length]);
+  }
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return new Uint8Array([0x80 | bytes.length, ...bytes]);
+};
+
+export const encodeTlv = (tag: number, value: Uint8Array): Uint8Array => {
+  return concatBytes(new Uint8Array([tag]), encodeLength(value.length), value);
+};
+
+export const sequence = (...items: Uint8Array[]) => encodeTlv(TAG.SEQUENCE, concatBytes(...items));
+
+// DER requires SET OF members in ascending order of their encodings
+export const set = (...items: Uint8Array[]) => {
+  const sorted = [...items].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  });
+  return encodeTlv(TAG.SET, concatBytes(...sorted));
+};
+
+export const explicit = (tagNumber: number, value: Uint8Array) => encodeTlv(0xa0 | tagNumber, value);
+
+// Re-tags an encoded value as an IMPLICIT context-specific constructed field
+export const implicitConstructed = (tagNumber: number, encoded: Uint8Array): Uint8Array => {
+  const retagged = new Uint8Array(encoded);
+  retagged[0] = 0xa0 | tagNumber;
+  return retagged;
+};
+
+export const nullValue = () => new Uint8Array([TAG.NULL, 0x00]);
+
+export const octetString = (value: Uint8Array) => encodeTlv(TAG.OCTET_STRING, value);
+
+export const bitString = (value: Uint8Array) => encodeTlv(TAG.BIT_STRING, concatBytes(new Uint8Array([0]), value));
+
+export const utf8String = (value: string) => encodeTlv(TAG.UTF8_STRING, new TextEncoder().encode(value));
+
+export const ia5String = (value: string) => encodeTlv(TAG.IA5_STRING, new TextEncoder().encode(value));
+
+export const boolean = (value: boolean) => encodeTlv(TAG.BOOLEAN, new Uint8Array([value ? 0xff : 0x00]));
+
+// Encodes unsigned big-endian bytes as a DER INTEGER
+export const integerFromBytes = (bytes: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  const trimmed = bytes.slice(start);
+  const value = trimmed[0] & 0x80 ? concatBytes(new Uint8Array([0]), trimmed) : trimmed;
+  return encodeTlv(TAG.INTEGER, value);
+};
+
+export const integer = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return integerFromBytes(new Uint8Array(bytes.length ? bytes : [0]));
+};
+
+export const oid = (dotted: string): Uint8Array => {
+  const parts = dotted.split(".").map(Number);
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f];
+    for (let remaining = Math.floor(part / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      chunk.unshift((remaining & 0x7f) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return encodeTlv(TAG.OID, new Uint8Array(bytes));
+};
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+
+// UTCTime for dates before 2050, GeneralizedTime afterwards (RFC 5280)
+export const time = (date: Date): Uint8Array => {
+  const rest =
+    pad(date.getUTCMonth() + 1) +
+    pad(date.getUTCDate()) +
+    pad(date.getUTCHours()) +
+    pad(date.getUTCMinutes()) +
+    pad(date.getUTCSeconds()) +
+    "Z";
+  const year = date.getUTCFullYear();
+  return year < 2050
+    ? encodeTlv(TAG.UTC_TIME, new TextEncoder().encode(pad(year % 100) + rest))
+    : encodeTlv(TAG.GENERALIZED_TIME, new TextEncoder().encode(pad(year, 4) + rest));
+};
+
+export interface Asn1Node {
+  tag: number;
+  // The complete encoding, header included
+  bytes: Uint8Array;
+  value: Uint8Array;
+  children: Asn1Node[];
+}
+
+const isConstructed = (tag: number) => (tag & 0x20) !== 0;
+
+export const decode = (bytes: Uint8Array, offset = 0): Asn1Node => {
+  const tag = bytes[offset];
+  if (tag === undefined || (tag & 0x1f) === 0x1f) {
+    throw new Error("Unsupported or truncated ASN.1 data");
+  }
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error("Unsupported ASN.1 length encoding");
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) {
+    throw new Error("Truncated ASN.1 data");
+  }
+
+  const value = bytes.subarray(offset + headerLength, end);
+  const children: Asn1Node[] = [];
+  if (isConstructed(tag)) {
+    for (let childOffset = 0; childOffset < value.length; ) {
+      const child = decode(value, childOffset);
+      children.push(child);
+      childOffset += child.bytes.length;
+    }
+  }
+
+  return { tag, bytes: bytes.subarray(offset, end), value, children };
+};
+
+export const decodeOid = (node: Asn1Node): string => {
+  if (node.tag !== TAG.OID) {
+    throw new Error("Expected an OBJECT IDENTIFIER");
+  }
+  const parts = [Math.floor(node.value[0] / 40), node.value[0] % 40];
+  let current = 0;
+  for (const byte of node.value.subarray(1)) {
+    current = current * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(current);
+      current = 0;
+    }
+  }
+  return parts.join(".");
+};
+
+export const decodeString = (node: Asn1Node): string => new TextDecoder().decode(node.value);
+
+export const decodeTime = (node: Asn1Node): Date => {
+  const text = decodeString(node);
+  const match =
+    node.tag === TAG.UTC_TIME
+      ? text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/)
+      : text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.\d+)?Z$/);
+  if (!match) {
+    throw new Error("Unsupported ASN.1 time format");
+  }
+  let year = Number(match[1]);
+  if (node.tag === TAG.UTC_TIME) {
+    year += year < 50 ? 2000 : 1900;
+  }
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6])));
+};
+
+// Unsigned big-endian bytes of an INTEGER, without the sign padding
+export const decodeIntegerBytes = (node: Asn1Node): Uint8Array => {
+  let start = 0;
+  while (start < node.value.length - 1 && node.value[start] === 0) start++;
+  return node.value.slice(start);
+};
@@ -0,0 +1,23 @@
+// Audit events that only the browser knows about, such as verification attempts
+// and downloads. They are recorded by the `audit-log` edge function, which adds the
+// caller's IP address and user agent. Changes to documents, signatures, keys and
+// profiles are audited by database triggers and need no call from the client.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type ClientAuditAction = "signature_verified" | "document_downloaded";
+
+// Failures are logged rather than thrown, so auditing never blocks the action itself
+export const logAuditEvent = async (
+  action: ClientAuditAction,
+  resourceId: string | null,
+  metadata: { [key: string]: Json | undefined }
+) => {
+  const { error } = await supabase.functions.invoke("audit-log", {
+    body: { action, resource_id: resourceId, metadata },
+  });
+  if (error) {
+    console.error("Error recording audit event:", error);
+  }
+};
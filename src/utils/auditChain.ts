@@ -0,0 +1,128 @@
+// Verification of the hash-chained audit log.
+// A database trigger links every audit entry to the previous entry in the whole log
+// and in the same user's log, and hashes it (see `audit_log_entry_hash`). Walking
+// the chain and recomputing the hashes shows whether entries were edited, removed
+// or inserted after they were written.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AuditChainScope = "user" | "global";
+
+export type AuditChainEntry = Pick<
+  Tables<"audit_logs">,
+  | "id"
+  | "user_id"
+  | "action"
+  | "resource_type"
+  | "resource_id"
+  | "ip_address"
+  | "user_agent"
+  | "created_at"
+  | "chain_position"
+  | "previous_hash"
+  | "user_previous_hash"
+  | "entry_hash"
+> & {
+  // The metadata exactly as the database serializes it, which is what was hashed
+  metadata_text: string | null;
+};
+
+export interface AuditChainBreak {
+  entryId: string;
+  chainPosition: number;
+  reason: "altered" | "missing" | "relinked";
+  message: string;
+}
+
+export interface AuditChainVerification {
+  scope: AuditChainScope;
+  checked: number;
+  breaks: AuditChainBreak[];
+  verifiedAt: Date;
+}
+
+const CHAIN_COLUMNS =
+  "id, user_id, action, resource_type, resource_id, ip_address, user_agent, created_at, chain_position, previous_hash, user_previous_hash, entry_hash, metadata_text:metadata::text";
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Mirrors `audit_log_entry_hash` in the database: one JSON value per line
+export const getAuditEntryHash = async (entry: AuditChainEntry): Promise<string> => {
+  const canonical = [
+    String(entry.chain_position),
+    JSON.stringify(entry.previous_hash),
+    JSON.stringify(entry.user_previous_hash),
+    JSON.stringify(entry.id),
+    JSON.stringify(entry.user_id),
+    JSON.stringify(entry.action),
+    JSON.stringify(entry.resource_type),
+    JSON.stringify(entry.resource_id),
+    JSON.stringify(entry.ip_address),
+    JSON.stringify(entry.user_agent),
+    JSON.stringify(new Date(entry.created_at).toISOString()),
+    JSON.stringify(entry.metadata_text),
+  ].join("\n");
+
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Loads a user's entries, or every entry the caller can read when no user is
+// given, in chain order
+export const loadAuditChain = async (userId: string | null): Promise<AuditChainEntry[]> => {
+  const entries: AuditChainEntry[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from("audit_logs").select(CHAIN_COLUMNS);
+    if (userId) query = query.eq("user_id", userId);
+    const { data, error } = await query
+      .order("chain_position", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    entries.push(...data);
+    if (data.length < PAGE_SIZE) return entries;
+  }
+};
+
+// Walks entries in chain order. The user chain links each of a user's entries to
+// their previous one; the global chain links consecutive positions in the whole
+// log, so it can only be checked by someone who can read every entry.
+export const verifyAuditChain = async (
+  entries: AuditChainEntry[],
+  scope: AuditChainScope
+): Promise<AuditChainVerification> => {
+  const breaks: AuditChainBreak[] = [];
+  let previous: AuditChainEntry | null = null;
+
+  for (const entry of entries) {
+    const report = (reason: AuditChainBreak["reason"], message: string) =>
+      breaks.push({ entryId: entry.id, chainPosition: entry.chain_position, reason, message });
+
+    if (await getAuditEntryHash(entry) !== entry.entry_hash) {
+      report("altered", "This entry was changed after it was written");
+    }
+
+    if (scope === "global") {
+      const expectedPosition = previous ? previous.chain_position + 1 : 1;
+      if (entry.chain_position > expectedPosition) {
+        const missing = entry.chain_position - expectedPosition;
+        report("missing", `${missing} entr${missing === 1 ? "y is" : "ies are"} missing before this one`);
+      } else if (entry.previous_hash !== (previous?.entry_hash ?? null)) {
+        report("relinked", "This entry does not follow the entry before it");
+      }
+    } else if (entry.user_previous_hash !== (previous?.entry_hash ?? null)) {
+      report(
+        previous ? "relinked" : "missing",
+        previous
+          ? "The entry this one follows was removed or replaced"
+          : "Earlier entries of this user are missing"
+      );
+    }
+
+    previous = entry;
+  }
+
+  return { scope, checked: entries.length, breaks, verifiedAt: new Date() };
+};
@@ -0,0 +1,316 @@
+// Audit log exports for auditors: CSV for spreadsheets, JSON Lines with every
+// column as stored, and a PDF report signed with the exporting user's key. The
+// JSON Lines export carries the metadata exactly as it was hashed, so the chain
+// can be recomputed from it (see `getAuditEntryHash`). The signed report lists
+// each entry's hash, which ties its rows to the hash chain.
+
+import { format } from "date-fns";
+import { formatFingerprint, getKeyAlgorithm } from "@/utils/crypto";
+import { registerPublicKey } from "@/utils/keyRegistry";
+import type { StoredKeyPair } from "@/utils/keyStore";
+import { signPdf } from "@/utils/pades";
+import { dict, formatPdfDate, fromBinaryString, name, ref, textString, winAnsiLiteral, writePdf, type PdfObjectUpdate } from "@/utils/pdf";
+import { createSelfSignedCertificate } from "@/utils/x509";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_RESOURCE_TYPES,
+  getAuditEntrySubject,
+  type AuditLog,
+  type AuditLogFilters,
+} from "@/utils/auditLog";
+
+export type AuditExportFormat = "csv" | "jsonl" | "pdf";
+
+export const AUDIT_EXPORT_TYPES: Record<AuditExportFormat, string> = {
+  csv: "text/csv",
+  jsonl: "application/x-ndjson",
+  pdf: "application/pdf",
+};
+
+export const getAuditExportFileName = (exportFormat: AuditExportFormat, exportedAt: Date) =>
+  `audit-log-${format(exportedAt, "yyyyMMdd-HHmmss")}.${exportFormat}`;
+
+export interface AuditReportSigner {
+  name: string | null;
+  organization: string | null;
+  email: string | null;
+}
+
+const REPORT_TITLE = "Audit Log Report";
+
+const CSV_COLUMNS = [
+  "chain_position",
+  "created_at",
+  "action",
+  "resource_type",
+  "resource_id",
+  "user_id",
+  "ip_address",
+  "user_agent",
+  "metadata",
+  "previous_hash",
+  "user_previous_hash",
+  "entry_hash",
+] as const;
+
+// Spreadsheets run cells starting with these as formulas, so they get a leading
+// quote. The JSON Lines export keeps every value unchanged.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export const toAuditLogCsv = (logs: AuditLog[]): string =>
+  [
+    CSV_COLUMNS.join(","),
+    ...logs.map((log) =>
+      CSV_COLUMNS.map((column) =>
+        csvCell(column === "metadata" ? log.metadata_search : log[column])
+      ).join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+// `metadata_search` is generated as metadata::text, the form the entry hash covers
+export const toAuditLogJsonl = (logs: AuditLog[]): string =>
+  logs
+    .map(({ metadata_search, ...log }) => JSON.stringify({ ...log, metadata_text: metadata_search }))
+    .join("\n") + "\n";
+
+export const describeAuditLogFilters = (filters: AuditLogFilters, documentName?: string | null): string[] => {
+  const description: string[] = [];
+  if (filters.userId) description.push(`User: ${filters.userId}`);
+  if (filters.action) description.push(`Action: ${AUDIT_ACTIONS[filters.action]?.label ?? filters.action}`);
+  if (filters.resourceType) {
+    description.push(`Resource: ${AUDIT_RESOURCE_TYPES[filters.resourceType] ?? filters.resourceType}`);
+  }
+  if (filters.documentId) description.push(`Document: ${documentName || filters.documentId}`);
+  if (filters.from || filters.to) {
+    description.push(`Dates: ${filters.from ?? "beginning"} to ${filters.to ?? "today"}`);
+  }
+  if (filters.search) description.push(`Search: "${filters.search}"`);
+  return description;
+};
+
+const truncate = (value: string, maxChars: number) =>
+  value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const ROW_HEIGHT = 26;
+const COLUMNS = { position: MARGIN, time: MARGIN + 44, action: MARGIN + 150, subject: MARGIN + 250 };
+
+const createAuditReportPdf = ({
+  logs,
+  filters,
+  documentName,
+  signer,
+  keyFingerprint,
+  exportedAt,
+}: {
+  logs: AuditLog[];
+  filters: AuditLogFilters;
+  documentName?: string | null;
+  signer: AuditReportSigner;
+  keyFingerprint: string;
+  exportedAt: Date;
+}): Uint8Array => {
+  const pages: string[][] = [];
+  let operators: string[] = [];
+  let y = 0;
+  const text = (font: string, size: number, x: number, value: string) =>
+    operators.push(`BT /${font} ${size} Tf ${x} ${y} Td ${winAnsiLiteral(value)} Tj ET`);
+
+  const startPage = () => {
+    operators = [];
+    pages.push(operators);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const tableHeader = () => {
+    operators.push("0.4 0.4 0.4 rg");
+    text("F2", 8, COLUMNS.position, "#");
+    text("F2", 8, COLUMNS.time, "TIME (UTC)");
+    text("F2", 8, COLUMNS.action, "ACTION");
+    text("F2", 8, COLUMNS.subject, "SUBJECT");
+    operators.push(`q 0.8 0.8 0.8 RG 0.5 w ${MARGIN} ${y - 6} m ${PAGE_WIDTH - MARGIN} ${y - 6} l S Q`, "0 0 0 rg");
+    y -= 20;
+  };
+
+  startPage();
+  operators.push(`q 0.15 0.35 0.75 rg ${MARGIN} ${y - 4} ${PAGE_WIDTH - MARGIN * 2} 4 re f Q`);
+  y -= 32;
+  text("F2", 20, MARGIN, REPORT_TITLE);
+  y -= 16;
+  operators.push("0.4 0.4 0.4 rg");
+  text("F1", 9, MARGIN, "Issued by DigiSigini");
+  y -= 32;
+
+  const signerName = signer.name || signer.email || "Unnamed user";
+  const filterLines = describeAuditLogFilters(filters, documentName);
+  const fingerprint = formatFingerprint(keyFingerprint).split(" ");
+  const summary: { label: string; value: string[]; mono?: boolean }[] = [
+    {
+      label: "Exported by",
+      value: [
+        [signer.name && signer.email ? `${signerName} <${signer.email}>` : signerName, signer.organization]
+          .filter(Boolean)
+          .join(", "),
+      ],
+    },
+    { label: "Exported at", value: [format(exportedAt, "yyyy-MM-dd HH:mm:ss xxx")] },
+    { label: "Filters", value: filterLines.length > 0 ? filterLines : ["None, every entry"] },
+    {
+      label: "Entries",
+      value: [
+        logs.length > 0
+          ? `${logs.length}, chain positions #${logs[logs.length - 1].chain_position} to #${logs[0].chain_position}`
+          : "None",
+      ],
+    },
+    { label: "Signing key fingerprint", value: [fingerprint.slice(0, 8).join(" "), fingerprint.slice(8).join(" ")], mono: true },
+  ];
+  for (const row of summary) {
+    operators.push("0.4 0.4 0.4 rg");
+    text("F1", 8, MARGIN, row.label.toUpperCase());
+    operators.push("0 0 0 rg");
+    y -= 14;
+    for (const line of row.value) {
+      text(row.mono ? "F3" : "F1", row.mono ? 10 : 11, MARGIN, truncate(line, 90));
+      y -= 13;
+    }
+    y -= 10;
+  }
+
+  operators.push("0.4 0.4 0.4 rg");
+  text("F1", 8, MARGIN, "This report is signed with the exporting user's key. Check it on the DigiSigini Verify page; the");
+  y -= 11;
+  text("F1", 8, MARGIN, "entry hashes below can be compared with the Audit Trail or recomputed from the JSON Lines export.");
+  y -= 28;
+  tableHeader();
+
+  for (const log of logs) {
+    if (y < MARGIN + 24 + ROW_HEIGHT) {
+      startPage();
+      tableHeader();
+    }
+    operators.push("0 0 0 rg");
+    text("F1", 9, COLUMNS.position, String(log.chain_position));
+    text("F1", 9, COLUMNS.time, new Date(log.created_at).toISOString().replace("T", " ").slice(0, 19));
+    text("F1", 9, COLUMNS.action, truncate(AUDIT_ACTIONS[log.action]?.label ?? log.action, 20));
+    text("F1", 9, COLUMNS.subject, truncate(getAuditEntrySubject(log), 48));
+    y -= 10;
+    operators.push("0.4 0.4 0.4 rg");
+    text("F3", 7, COLUMNS.time, log.entry_hash);
+    if (log.ip_address) text("F1", 7, COLUMNS.time + 280, truncate(`IP ${log.ip_address}`, 36));
+    y -= ROW_HEIGHT - 10;
+  }
+
+  // Page numbers go on last, once the page count is known
+  pages.forEach((page, index) => {
+    operators = page;
+    y = MARGIN - 16;
+    operators.push("0.4 0.4 0.4 rg");
+    text("F1", 8, MARGIN, `${REPORT_TITLE}, exported ${format(exportedAt, "yyyy-MM-dd HH:mm")}`);
+    text("F1", 8, PAGE_WIDTH - MARGIN - 48, `Page ${index + 1} of ${pages.length}`);
+  });
+
+  const font = (baseFont: string) =>
+    dict({ Type: name("Font"), Subtype: name("Type1"), BaseFont: name(baseFont), Encoding: name("WinAnsiEncoding") });
+
+  // Catalog, page tree, fonts and info first, then a page and its contents per page
+  const firstPage = 5;
+  const objects: PdfObjectUpdate[] = [
+    { ref: ref(1), value: dict({ Type: name("Catalog"), Pages: ref(2) }) },
+    {
+      ref: ref(2),
+      value: dict({ Type: name("Pages"), Kids: pages.map((_, index) => ref(firstPage + index * 2)), Count: pages.length }),
+    },
+    {
+      ref: ref(3),
+      value: dict({ F1: font("Helvetica"), F2: font("Helvetica-Bold"), F3: font("Courier") }),
+    },
+    {
+      ref: ref(4),
+      value: dict({
+        Title: textString(REPORT_TITLE),
+        Author: textString(signerName),
+        Producer: textString("DigiSigini"),
+        CreationDate: textString(formatPdfDate(exportedAt)),
+      }),
+    },
+  ];
+  pages.forEach((page, index) => {
+    const pageRef = ref(firstPage + index * 2);
+    const contentsRef = ref(firstPage + index * 2 + 1);
+    objects.push(
+      {
+        ref: pageRef,
+        value: dict({
+          Type: name("Page"),
+          Parent: ref(2),
+          MediaBox: [0, 0, PAGE_WIDTH, PAGE_HEIGHT],
+          Resources: dict({ Font: ref(3) }),
+          Contents: contentsRef,
+        }),
+      },
+      { ref: contentsRef, value: dict({}), stream: fromBinaryString(page.join("\n")) }
+    );
+  });
+
+  return writePdf(objects, ref(1), ref(4));
+};
+
+// The report with an invisible PAdES signature, so VerifySignature can check it
+// and match the signing key against the registry
+export const createSignedAuditReport = async ({
+  logs,
+  filters,
+  documentName,
+  userId,
+  keys,
+  signer,
+  exportedAt,
+}: {
+  logs: AuditLog[];
+  filters: AuditLogFilters;
+  documentName?: string | null;
+  userId: string;
+  keys: StoredKeyPair;
+  signer: AuditReportSigner;
+  exportedAt: Date;
+}): Promise<Uint8Array> => {
+  const algorithm = getKeyAlgorithm(keys.privateKey);
+  const keyRecord = await registerPublicKey(userId, keys);
+  if (keyRecord.revoked_at || keyRecord.retired_at) {
+    throw new Error(`Key version ${keyRecord.version} can no longer be used. Rotate your keys before signing.`);
+  }
+
+  const report = createAuditReportPdf({
+    logs,
+    filters,
+    documentName,
+    signer,
+    keyFingerprint: keyRecord.fingerprint,
+    exportedAt,
+  });
+
+  const signerName = signer.name || signer.email || userId;
+  const certificate = await createSelfSignedCertificate(keys.privateKey, keys.publicKey, algorithm, {
+    commonName: signerName,
+    organization: signer.organization,
+    email: signer.email,
+  });
+  return signPdf(report, {
+    privateKey: keys.privateKey,
+    algorithm,
+    certificate,
+    signerName,
+    reason: "Audit log export",
+    signingTime: exportedAt,
+  });
+};
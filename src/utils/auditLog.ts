@@ -0,0 +1,176 @@
+// Querying the audit log: filters, cursor pagination and their URL form.
+// Pages run backwards through `chain_position`, which is unique and only grows,
+// so a page boundary never skips or repeats entries written in the meantime.
+
+import { addDays, isValid, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AuditLog = Tables<"audit_logs">;
+
+export const AUDIT_ACTIONS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  document_signed: { label: "Signed", variant: "default" },
+  signature_countersigned: { label: "Countersigned", variant: "default" },
+  document_uploaded: { label: "Uploaded", variant: "secondary" },
+  document_downloaded: { label: "Downloaded", variant: "secondary" },
+  document_status_changed: { label: "Status Changed", variant: "secondary" },
+  signature_verified: { label: "Verified", variant: "default" },
+  document_deleted: { label: "Deleted", variant: "destructive" },
+  key_registered: { label: "Key Registered", variant: "secondary" },
+  key_retired: { label: "Key Retired", variant: "secondary" },
+  key_revoked: { label: "Key Revoked", variant: "destructive" },
+  profile_created: { label: "Account Created", variant: "secondary" },
+  profile_updated: { label: "Profile Updated", variant: "secondary" },
+  signing_request_created: { label: "Request Sent", variant: "secondary" },
+  signer_added: { label: "Signer Added", variant: "secondary" },
+  signing_request_declined: { label: "Declined", variant: "destructive" },
+  signing_request_delegated: { label: "Delegated", variant: "secondary" },
+  role_granted: { label: "Role Granted", variant: "secondary" },
+  role_revoked: { label: "Role Revoked", variant: "destructive" },
+};
+
+export const AUDIT_RESOURCE_TYPES: Record<string, string> = {
+  document: "Document",
+  public_key: "Key",
+  profile: "Profile",
+};
+
+// A short description of what the entry is about, from its metadata
+export const getAuditEntrySubject = (log: Pick<AuditLog, "metadata" | "resource_id">) => {
+  const metadata = (log.metadata ?? {}) as Record<string, unknown>;
+  const subject = [metadata.file_name, metadata.full_name, metadata.email, metadata.key_fingerprint]
+    .find((value) => typeof value === "string" && value);
+  return (subject as string | undefined) ?? log.resource_id ?? "";
+};
+
+export interface AuditLogFilters {
+  // Only offered where the caller can read other users' entries
+  userId: string | null;
+  action: string | null;
+  resourceType: string | null;
+  // yyyy-MM-dd, in local time; both ends are inclusive
+  from: string | null;
+  to: string | null;
+  documentId: string | null;
+  search: string | null;
+}
+
+export const EMPTY_AUDIT_LOG_FILTERS: AuditLogFilters = {
+  userId: null,
+  action: null,
+  resourceType: null,
+  from: null,
+  to: null,
+  documentId: null,
+  search: null,
+};
+
+// Query string names, so a filtered view can be bookmarked and shared
+const FILTER_PARAMS: Record<keyof AuditLogFilters, string> = {
+  userId: "user",
+  action: "action",
+  resourceType: "resource",
+  from: "from",
+  to: "to",
+  documentId: "document",
+  search: "q",
+};
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+export const parseAuditLogFilters = (params: URLSearchParams): AuditLogFilters => {
+  const filters = { ...EMPTY_AUDIT_LOG_FILTERS };
+  for (const [key, param] of Object.entries(FILTER_PARAMS) as [keyof AuditLogFilters, string][]) {
+    filters[key] = params.get(param)?.trim() || null;
+  }
+  return filters;
+};
+
+// Keeps parameters that aren't filters, such as those of other features on the page
+export const toAuditLogSearchParams = (filters: AuditLogFilters, current = new URLSearchParams()) => {
+  const params = new URLSearchParams(current);
+  for (const [key, param] of Object.entries(FILTER_PARAMS) as [keyof AuditLogFilters, string][]) {
+    const value = filters[key]?.trim();
+    if (value) {
+      params.set(param, value);
+    } else {
+      params.delete(param);
+    }
+  }
+  return params;
+};
+
+export const hasAuditLogFilters = (filters: AuditLogFilters) => Object.values(filters).some(Boolean);
+
+const parseDay = (value: string | null) => {
+  if (!value) return null;
+  const day = parseISO(value);
+  return isValid(day) ? day : null;
+};
+
+// LIKE treats % and _ as wildcards, and the backslash escapes them
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// One page of entries, newest first. `userId` limits the page to one user's
+// entries; without it, the page holds every entry the caller is allowed to read.
+export const fetchAuditLogs = async ({
+  userId,
+  filters,
+  cursor = null,
+  pageSize = AUDIT_LOG_PAGE_SIZE,
+}: {
+  userId: string | null;
+  filters: AuditLogFilters;
+  cursor?: number | null;
+  pageSize?: number;
+}): Promise<{ logs: AuditLog[]; nextCursor: number | null }> => {
+  let query = supabase.from("audit_logs").select("*");
+
+  if (userId) query = query.eq("user_id", userId);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.action) query = query.eq("action", filters.action);
+  if (filters.resourceType) query = query.eq("resource_type", filters.resourceType);
+  if (filters.documentId) query = query.eq("resource_id", filters.documentId);
+
+  const from = parseDay(filters.from);
+  const to = parseDay(filters.to);
+  if (from) query = query.gte("created_at", from.toISOString());
+  if (to) query = query.lt("created_at", addDays(to, 1).toISOString());
+
+  if (filters.search) {
+    query = query.ilike("metadata_search", `%${escapeLikePattern(filters.search)}%`);
+  }
+  if (cursor !== null) query = query.lt("chain_position", cursor);
+
+  const { data, error } = await query
+    .order("chain_position", { ascending: false })
+    .limit(pageSize);
+
+  if (error) throw error;
+  const logs = data || [];
+  return {
+    logs,
+    nextCursor: logs.length === pageSize ? logs[logs.length - 1].chain_position : null,
+  };
+};
+
+// PostgREST returns at most this many rows per request
+const MAX_PAGE_SIZE = 1000;
+
+// Every entry matching the filters, newest first, for exports
+export const fetchAllAuditLogs = async ({
+  userId,
+  filters,
+}: {
+  userId: string | null;
+  filters: AuditLogFilters;
+}): Promise<AuditLog[]> => {
+  const logs: AuditLog[] = [];
+  let cursor: number | null = null;
+  do {
+    const page = await fetchAuditLogs({ userId, filters, cursor, pageSize: MAX_PAGE_SIZE });
+    logs.push(...page.logs);
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+  return logs;
+};
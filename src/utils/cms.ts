@@ -0,0 +1,227 @@
+// CMS (PKCS#7) SignedData encoding and parsing for detached signatures (.p7s).
+// Without signed attributes the CMS signature value is exactly the `signData`
+// output over the document. Exports always include signed attributes, which most
+// CMS tooling requires for Ed25519, but signatures without them still verify.
+
+import {
+  TAG,
+  concatBytes,
+  decode,
+  decodeOid,
+  decodeTime,
+  explicit,
+  implicitConstructed,
+  integer,
+  octetString,
+  oid,
+  sequence,
+  set,
+  time,
+} from "@/utils/asn1";
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  digestBytes,
+  getKeyAlgorithm,
+  signData,
+  verifySignature,
+  type SignableData,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+import {
+  digestAlgorithmIdentifier,
+  fromDerSignature,
+  getDigestAlgorithm,
+  parseCertificate,
+  resolveSignatureAlgorithm,
+  signatureAlgorithmIdentifier,
+  toDerSignature,
+  type ParsedCertificate,
+} from "@/utils/x509";
+
+const OID_DATA = "1.2.840.113549.1.7.1";
+const OID_SIGNED_DATA = "1.2.840.113549.1.7.2";
+const OID_CONTENT_TYPE = "1.2.840.113549.1.9.3";
+const OID_MESSAGE_DIGEST = "1.2.840.113549.1.9.4";
+const OID_SIGNING_TIME = "1.2.840.113549.1.9.5";
+const OID_SIGNING_CERTIFICATE_V2 = "1.2.840.113549.1.9.16.2.47";
+
+export const CMS_EXTENSION = ".p7s";
+export const CMS_CONTENT_TYPE = "application/pkcs7-signature";
+
+export interface CmsSignatureInput {
+  algorithm: SignatureAlgorithm;
+  // Base64 signature as produced by `signData`
+  signature: string;
+  certificate: Uint8Array;
+  // DER SET of signed attributes, when the signature covers attributes instead of the content
+  signedAttributes?: Uint8Array;
+}
+
+export interface ParsedCmsSignature {
+  algorithm: SignatureAlgorithm;
+  // Base64 signature in the format `verifySignature` expects
+  signature: string;
+  certificate: ParsedCertificate;
+  signedAttributes: Uint8Array | null;
+  messageDigest: Uint8Array | null;
+  signingTime: Date | null;
+}
+
+export const getCmsFileName = (fileName: string) => `${fileName}${CMS_EXTENSION}`;
+
+// Signed attributes per RFC 5652: content type, the content digest and optionally the
+// signing time. PAdES signatures leave the time out (the PDF /M entry carries it) and
+// instead bind the signer certificate with an ESS signing-certificate-v2 attribute.
+export const buildSignedAttributes = async (
+  contentDigest: Uint8Array,
+  { signingTime, certificate }: { signingTime?: Date; certificate?: Uint8Array } = {}
+): Promise<Uint8Array> => {
+  const attributes = [
+    sequence(oid(OID_CONTENT_TYPE), set(oid(OID_DATA))),
+    sequence(oid(OID_MESSAGE_DIGEST), set(octetString(contentDigest))),
+  ];
+  if (signingTime) {
+    attributes.push(sequence(oid(OID_SIGNING_TIME), set(time(signingTime))));
+  }
+  if (certificate) {
+    // ESSCertIDv2 with the default SHA-256 hash algorithm, which is omitted
+    const certificateHash = await digestBytes(certificate);
+    attributes.push(sequence(oid(OID_SIGNING_CERTIFICATE_V2), set(sequence(sequence(sequence(octetString(certificateHash)))))));
+  }
+  return set(...attributes);
+};
+
+export const encodeCmsSignedData = ({
+  algorithm,
+  signature,
+  certificate,
+  signedAttributes,
+}: CmsSignatureInput): Uint8Array => {
+  const parsedCertificate = parseCertificate(certificate);
+  const signatureBytes = toDerSignature(algorithm, new Uint8Array(base64ToArrayBuffer(signature)));
+
+  const signerInfo = sequence(
+    integer(1),
+    sequence(parsedCertificate.issuer, parsedCertificate.serialNumber),
+    digestAlgorithmIdentifier(algorithm),
+    ...(signedAttributes ? [implicitConstructed(0, signedAttributes)] : []),
+    signatureAlgorithmIdentifier(algorithm),
+    octetString(signatureBytes)
+  );
+
+  const signedData = sequence(
+    integer(1),
+    set(digestAlgorithmIdentifier(algorithm)),
+    // Detached: the encapsulated content is omitted
+    sequence(oid(OID_DATA)),
+    implicitConstructed(0, sequence(parsedCertificate.bytes)),
+    set(signerInfo)
+  );
+
+  return sequence(oid(OID_SIGNED_DATA), explicit(0, signedData));
+};
+
+// Ed25519 CMS signatures (RFC 8419) can't be verified by OpenSSL 3.0 and most other
+// PKCS#7 tooling, so .p7s files are only offered for the other algorithms
+export const isCmsExportSupported = (algorithm: SignatureAlgorithm) => algorithm !== "Ed25519";
+
+// Signs the content as a detached CMS signature for export as a .p7s file
+export const createCmsSignature = async (
+  content: SignableData,
+  { privateKey, certificate, signingTime }: { privateKey: CryptoKey; certificate: Uint8Array; signingTime?: Date }
+): Promise<Uint8Array> => {
+  const algorithm = getKeyAlgorithm(privateKey);
+  const digest = await digestBytes(content, getDigestAlgorithm(algorithm));
+  const signedAttributes = await buildSignedAttributes(digest, { signingTime, certificate });
+  const signature = await signData(signedAttributes, privateKey);
+  return encodeCmsSignedData({ algorithm, signature, certificate, signedAttributes });
+};
+
+// Accepts DER or PEM ("-----BEGIN PKCS7-----" / "-----BEGIN CMS-----") input
+export const parseCmsSignature = (input: Uint8Array): ParsedCmsSignature => {
+  let der = input;
+  const text = new TextDecoder().decode(input.subarray(0, 64));
+  if (text.includes("-----BEGIN")) {
+    const body = new TextDecoder()
+      .decode(input)
+      .replace(/-----(BEGIN|END) [^-]+-----/g, "")
+      .replace(/\s+/g, "");
+    der = new Uint8Array(base64ToArrayBuffer(body));
+  }
+
+  const contentInfo = decode(der);
+  if (contentInfo.tag !== TAG.SEQUENCE || decodeOid(contentInfo.children[0]) !== OID_SIGNED_DATA) {
+    throw new Error("This file is not a CMS SignedData signature");
+  }
+
+  const signedData = contentInfo.children[1].children[0];
+  const certificates = signedData.children.find((child) => child.tag === 0xa0);
+  const signerInfos = signedData.children[signedData.children.length - 1];
+  const signerInfo = signerInfos?.children[0];
+  if (!certificates?.children.length || !signerInfo) {
+    throw new Error("The signature does not include a signer certificate");
+  }
+
+  // Match the signer's issuerAndSerialNumber, falling back to the first certificate
+  const signerId = signerInfo.children[1];
+  const parsedCertificates = certificates.children
+    .filter((child) => child.tag === TAG.SEQUENCE)
+    .map((child) => parseCertificate(child.bytes));
+  const certificate =
+    parsedCertificates.find(
+      (candidate) =>
+        signerId.tag === TAG.SEQUENCE &&
+        arrayBufferToBase64(candidate.serialNumber.slice().buffer) ===
+          arrayBufferToBase64(signerId.children[1].bytes.slice().buffer)
+    ) ?? parsedCertificates[0];
+
+  const signedAttributesNode = signerInfo.children.find((child) => child.tag === 0xa0);
+  const rest = signerInfo.children.slice(signedAttributesNode ? 4 : 3);
+  const [signatureAlgorithm, signatureValue] = rest;
+  const algorithm = resolveSignatureAlgorithm(certificate.publicKey, signatureAlgorithm);
+
+  let signedAttributes: Uint8Array | null = null;
+  let messageDigest: Uint8Array | null = null;
+  let signingTime: Date | null = null;
+
+  if (signedAttributesNode) {
+    // The signature covers the attributes encoded as a SET, not as the [0] field
+    signedAttributes = concatBytes(new Uint8Array([TAG.SET]), signedAttributesNode.bytes.subarray(1));
+    for (const attribute of signedAttributesNode.children) {
+      const [type, values] = attribute.children;
+      const attributeOid = decodeOid(type);
+      if (attributeOid === OID_MESSAGE_DIGEST) {
+        messageDigest = values.children[0].value;
+      } else if (attributeOid === OID_SIGNING_TIME) {
+        signingTime = decodeTime(values.children[0]);
+      }
+    }
+  }
+
+  const signature = fromDerSignature(algorithm, signatureValue.value);
+
+  return {
+    algorithm,
+    signature: arrayBufferToBase64(signature.slice().buffer),
+    certificate,
+    signedAttributes,
+    messageDigest,
+    signingTime,
+  };
+};
+
+export const verifyCmsSignature = async (content: SignableData, cms: ParsedCmsSignature): Promise<boolean> => {
+  const publicKey = cms.certificate.publicKey;
+
+  if (!cms.signedAttributes) {
+    return verifySignature(content, cms.signature, publicKey, cms.algorithm);
+  }
+
+  const digest = await digestBytes(content, getDigestAlgorithm(cms.algorithm));
+  const expected = cms.messageDigest;
+  if (!expected || expected.length !== digest.length || expected.some((byte, i) => byte !== digest[i])) {
+    return false;
+  }
+  return verifySignature(cms.signedAttributes, cms.signature, publicKey, cms.algorithm);
+};
@@ -0,0 +1,125 @@
+// Countersignatures: signatures over another signature on the same document.
+// A countersigner signs the parent's signature value together with the document
+// hash, so the countersignature attests that exact signature on that exact file.
+// Countersignatures can themselves be countersigned, forming a tree per document.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  getKeyAlgorithm,
+  isSignatureAlgorithm,
+  LEGACY_ALGORITHM,
+  signData,
+  verifySignature,
+  type SignableData,
+} from "@/utils/crypto";
+import { registerPublicKey } from "@/utils/keyRegistry";
+import type { StoredKeyPair } from "@/utils/keyStore";
+import { timestampSignature } from "@/utils/timestamp";
+
+export type TreeSignature = Tables<"signatures"> & {
+  public_keys: Pick<Tables<"public_keys">, "spki" | "fingerprint" | "version" | "revoked_at"> | null;
+};
+
+export interface SignatureNode {
+  signature: TreeSignature;
+  valid: boolean;
+  countersignatures: SignatureNode[];
+}
+
+const COUNTERSIGNATURE_VERSION = "DigiSigini countersignature v1";
+
+// The exact text a countersignature is made over
+export const getCountersignatureContent = (documentHash: string, parentSignature: string) =>
+  `${COUNTERSIGNATURE_VERSION}\ndocument-sha256:${documentHash}\nsignature:${parentSignature}`;
+
+export const countersign = async ({
+  documentId,
+  documentHash,
+  parent,
+  userId,
+  keys,
+}: {
+  documentId: string;
+  documentHash: string;
+  parent: Pick<Tables<"signatures">, "id" | "signature_data">;
+  userId: string;
+  keys: StoredKeyPair;
+}) => {
+  const algorithm = getKeyAlgorithm(keys.privateKey);
+  const keyRecord = await registerPublicKey(userId, keys);
+  if (keyRecord.revoked_at || keyRecord.retired_at) {
+    throw new Error(`Key version ${keyRecord.version} can no longer be used. Rotate your keys before signing.`);
+  }
+
+  const content = getCountersignatureContent(documentHash, parent.signature_data);
+  const signatureData = await signData(content, keys.privateKey);
+  const timestamp = await timestampSignature(signatureData);
+  const { data: signature, error } = await supabase
+    .from("signatures")
+    .insert({
+      document_id: documentId,
+      user_id: userId,
+      parent_signature_id: parent.id,
+      signature_data: signatureData,
+      signature_hash: documentHash,
+      public_key_id: keyRecord.id,
+      algorithm,
+      timestamp_token: timestamp.token,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { signature, keyRecord, timestampError: timestamp.error };
+};
+
+export const listDocumentSignatures = async (documentId: string): Promise<TreeSignature[]> => {
+  const { data, error } = await supabase
+    .from("signatures")
+    .select("*, public_keys (spki, fingerprint, version, revoked_at)")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const verifyNode = (signature: TreeSignature, content: SignableData) => {
+  if (!signature.public_keys) return Promise.resolve(false);
+  const algorithm = isSignatureAlgorithm(signature.algorithm) ? signature.algorithm : LEGACY_ALGORITHM;
+  return verifySignature(content, signature.signature_data, signature.public_keys.spki, algorithm);
+};
+
+// Builds the signature tree of a document and checks every node. Top-level signatures
+// are checked against any of the given renderings of the content, countersignatures
+// against their parent's signature. A countersignature over an invalid signature is
+// itself cryptographically valid, so each node reports only its own check.
+export const buildSignatureTree = async (
+  signatures: TreeSignature[],
+  documentHash: string,
+  content: SignableData[],
+): Promise<SignatureNode[]> => {
+  const build = async (parentId: string | null, parent?: TreeSignature): Promise<SignatureNode[]> =>
+    Promise.all(
+      signatures
+        .filter((signature) => signature.parent_signature_id === parentId)
+        .map(async (signature) => {
+          let valid = false;
+          if (parent) {
+            valid = signature.signature_hash === documentHash &&
+              await verifyNode(signature, getCountersignatureContent(documentHash, parent.signature_data));
+          } else {
+            for (const candidate of content) {
+              if (await verifyNode(signature, candidate)) {
+                valid = true;
+                break;
+              }
+            }
+          }
+          return { signature, valid, countersignatures: await build(signature.id, signature) };
+        })
+    );
+
+  return build(null);
+};
@@ -1,82 +1,183 @@
 // Cryptographic utilities for digital signatures
 
+export type SignatureAlgorithm =
+  | "RSASSA-PKCS1-v1_5"
+  | "RSA-PSS"
+  | "ECDSA-P256"
+  | "ECDSA-P384"
+  | "Ed25519";
+
 export interface KeyPair {
   publicKey: string;
-  privateKey: string;
+  privateKey: CryptoKey;
+  algorithm: SignatureAlgorithm;
 }
 
-export const generateKeyPair = async (): Promise<KeyPair> => {
-  const keyPair = await crypto.subtle.generateKey(
-    {
+// Text is signed as its UTF-8 bytes, files as their raw bytes
+export type SignableData = string | ArrayBuffer | Uint8Array;
+
+const toBytes = (data: SignableData): Uint8Array => {
+  if (typeof data === "string") {
+    return new TextEncoder().encode(data);
+  }
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+};
+
+// Signatures created before binary signing were computed over `file.text()`,
+// i.e. the file bytes decoded as UTF-8 with replacement characters.
+export const decodeLegacyText = (data: ArrayBuffer | Uint8Array): string => {
+  return new TextDecoder().decode(data);
+};
+
+// Keys and signatures made before algorithm selection existed are RSASSA-PKCS1-v1_5
+export const LEGACY_ALGORITHM: SignatureAlgorithm = "RSASSA-PKCS1-v1_5";
+export const DEFAULT_ALGORITHM: SignatureAlgorithm = "ECDSA-P256";
+
+export const SIGNATURE_ALGORITHMS: Record<SignatureAlgorithm, { label: string; description: string }> = {
+  "ECDSA-P256": { label: "ECDSA P-256", description: "Compact elliptic-curve signatures with SHA-256" },
+  "ECDSA-P384": { label: "ECDSA P-384", description: "Stronger elliptic curve with SHA-384" },
+  "RSA-PSS": { label: "RSA-PSS 3072", description: "Probabilistic RSA signatures with SHA-256" },
+  "RSASSA-PKCS1-v1_5": { label: "RSA PKCS#1 v1.5 2048", description: "Classic RSA signatures with SHA-256" },
+  "Ed25519": { label: "Ed25519", description: "Smallest signatures, ideal for text" },
+};
+
+interface AlgorithmParams {
+  generate: RsaHashedKeyGenParams | EcKeyGenParams | Algorithm;
+  import: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  sign: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+const ALGORITHM_PARAMS: Record<SignatureAlgorithm, AlgorithmParams> = {
+  "RSASSA-PKCS1-v1_5": {
+    generate: {
       name: "RSASSA-PKCS1-v1_5",
       modulusLength: 2048,
       publicExponent: new Uint8Array([1, 0, 1]),
       hash: "SHA-256",
     },
-    true,
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    sign: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  "RSA-PSS": {
+    generate: {
+      name: "RSA-PSS",
+      modulusLength: 3072,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    import: { name: "RSA-PSS", hash: "SHA-256" },
+    sign: { name: "RSA-PSS", saltLength: 32 },
+  },
+  "ECDSA-P256": {
+    generate: { name: "ECDSA", namedCurve: "P-256" },
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    sign: { name: "ECDSA", hash: "SHA-256" },
+  },
+  "ECDSA-P384": {
+    generate: { name: "ECDSA", namedCurve: "P-384" },
+    import: { name: "ECDSA", namedCurve: "P-384" },
+    sign: { name: "ECDSA", hash: "SHA-384" },
+  },
+  "Ed25519": {
+    generate: { name: "Ed25519" },
+    import: { name: "Ed25519" },
+    sign: { name: "Ed25519" },
+  },
+};
+
+export const isSignatureAlgorithm = (value: unknown): value is SignatureAlgorithm => {
+  return typeof value === "string" && value in ALGORITHM_PARAMS;
+};
+
+// Reads the algorithm back from a CryptoKey, e.g. one loaded from the key store
+export const getKeyAlgorithm = (key: CryptoKey): SignatureAlgorithm => {
+  const { name } = key.algorithm;
+  if (name === "ECDSA") {
+    return (key.algorithm as EcKeyAlgorithm).namedCurve === "P-384" ? "ECDSA-P384" : "ECDSA-P256";
+  }
+  if (isSignatureAlgorithm(name)) {
+    return name;
+  }
+  throw new Error(`Unsupported key algorithm: ${name}`);
+};
+
+export const getImportParams = (algorithm: SignatureAlgorithm) => ALGORITHM_PARAMS[algorithm].import;
+
+// The private key is generated non-extractable so it can never leave the browser's
+// key store; only the SPKI public key is exported. Pass `extractable` only to hold an
+// in-memory copy for a passphrase backup, and store the result of `toNonExtractable`.
+export const generateKeyPair = async (
+  algorithm: SignatureAlgorithm = DEFAULT_ALGORITHM,
+  extractable = false
+): Promise<KeyPair> => {
+  const keyPair = (await crypto.subtle.generateKey(
+    ALGORITHM_PARAMS[algorithm].generate,
+    extractable,
     ["sign", "verify"]
-  );
+  )) as CryptoKeyPair;
 
   const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
-  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
 
   return {
     publicKey: arrayBufferToBase64(publicKey),
-    privateKey: arrayBufferToBase64(privateKey),
+    privateKey: keyPair.privateKey,
+    algorithm,
   };
 };
 
-export const signData = async (data: string, privateKeyBase64: string): Promise<string> => {
-  const privateKeyBuffer = base64ToArrayBuffer(privateKeyBase64);
-  const privateKey = await crypto.subtle.importKey(
+// Imports a base64 PKCS#8 private key (the legacy localStorage format) as a
+// non-extractable signing key.
+export const importPrivateKey = async (
+  privateKeyBase64: string,
+  algorithm: SignatureAlgorithm = LEGACY_ALGORITHM
+): Promise<CryptoKey> => {
+  return crypto.subtle.importKey(
     "pkcs8",
-    privateKeyBuffer,
-    {
-      name: "RSASSA-PKCS1-v1_5",
-      hash: "SHA-256",
-    },
+    base64ToArrayBuffer(privateKeyBase64),
+    getImportParams(algorithm),
     false,
     ["sign"]
   );
+};
+
+export const toNonExtractable = async (privateKey: CryptoKey): Promise<CryptoKey> => {
+  const pkcs8 = await crypto.subtle.exportKey("pkcs8", privateKey);
+  return crypto.subtle.importKey("pkcs8", pkcs8, getImportParams(getKeyAlgorithm(privateKey)), false, ["sign"]);
+};
 
-  const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
+export const signData = async (data: SignableData, privateKey: CryptoKey): Promise<string> => {
   const signature = await crypto.subtle.sign(
-    "RSASSA-PKCS1-v1_5",
+    ALGORITHM_PARAMS[getKeyAlgorithm(privateKey)].sign,
     privateKey,
-    dataBuffer
+    toBytes(data)
   );
 
   return arrayBufferToBase64(signature);
 };
 
 export const verifySignature = async (
-  data: string,
+  data: SignableData,
   signatureBase64: string,
-  publicKeyBase64: string
+  publicKeyBase64: string,
+  algorithm: SignatureAlgorithm = LEGACY_ALGORITHM
 ): Promise<boolean> => {
   try {
     const publicKeyBuffer = base64ToArrayBuffer(publicKeyBase64);
     const publicKey = await crypto.subtle.importKey(
       "spki",
       publicKeyBuffer,
-      {
-        name: "RSASSA-PKCS1-v1_5",
-        hash: "SHA-256",
-      },
+      getImportParams(algorithm),
       false,
       ["verify"]
     );
 
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
     const signatureBuffer = base64ToArrayBuffer(signatureBase64);
 
     return await crypto.subtle.verify(
-      "RSASSA-PKCS1-v1_5",
+      ALGORITHM_PARAMS[algorithm].sign,
       publicKey,
       signatureBuffer,
-      dataBuffer
+      toBytes(data)
     );
   } catch (error) {
     console.error("Verification error:", error);
@@ -84,15 +185,29 @@ export const verifySignature = async (
   }
 };
 
-export const generateHash = async (data: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
+export const digestBytes = async (
+  data: SignableData,
+  hash: "SHA-256" | "SHA-384" | "SHA-512" = "SHA-256"
+): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.digest(hash, toBytes(data)));
+};
+
+export const generateHash = async (data: SignableData): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', toBytes(data));
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 };
 
-const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+// SHA-256 over the DER-encoded SPKI, as lowercase hex
+export const getKeyFingerprint = async (publicKeyBase64: string): Promise<string> => {
+  return generateHash(new Uint8Array(base64ToArrayBuffer(publicKeyBase64)));
+};
+
+export const formatFingerprint = (fingerprint: string): string => {
+  return fingerprint.match(/.{1,4}/g)?.join(" ") ?? fingerprint;
+};
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
   const bytes = new Uint8Array(buffer);
   let binary = '';
   for (let i = 0; i < bytes.byteLength; i++) {
@@ -101,7 +216,7 @@ const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
   return btoa(binary);
 };
 
-const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
   const binary = atob(base64);
   const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i++) {
@@ -0,0 +1,188 @@
+// Evidence timeline of one document, merged from the `documents` row, its
+// signatures and its audit log entries. Signatures and the upload come from
+// their own tables where those rows still exist, enriched with the matching audit
+// entry; everything else, and the whole history of a deleted document, comes
+// from the audit log alone.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { EMPTY_AUDIT_LOG_FILTERS, fetchAllAuditLogs, type AuditLog } from "@/utils/auditLog";
+import { listDocumentSignatures, type TreeSignature } from "@/utils/countersign";
+
+export type TimelineEventKind =
+  | "uploaded"
+  | "request_created"
+  | "signer_added"
+  | "signed"
+  | "countersigned"
+  | "declined"
+  | "delegated"
+  | "verified"
+  | "downloaded"
+  | "status_changed"
+  | "deleted"
+  | "other";
+
+export interface TimelineParticipant {
+  userId: string;
+  email: string | null;
+  name: string | null;
+}
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  at: Date;
+  actorId: string | null;
+  // Email of a signer who is not (yet) a known participant
+  actorEmail?: string | null;
+  signature?: TreeSignature;
+  auditEntry?: AuditLog;
+  metadata: Record<string, unknown>;
+}
+
+export interface DocumentTimeline {
+  // Null once the document has been deleted, or if the caller cannot read it
+  document: Tables<"documents"> | null;
+  signers: Tables<"document_signers">[];
+  participants: Map<string, TimelineParticipant>;
+  events: TimelineEvent[];
+}
+
+const ACTION_KINDS: Record<string, TimelineEventKind> = {
+  document_uploaded: "uploaded",
+  signing_request_created: "request_created",
+  signer_added: "signer_added",
+  document_signed: "signed",
+  signature_countersigned: "countersigned",
+  signing_request_declined: "declined",
+  signing_request_delegated: "delegated",
+  signature_verified: "verified",
+  document_downloaded: "downloaded",
+  document_status_changed: "status_changed",
+  document_deleted: "deleted",
+};
+
+// Entries written by the browser before signing was audited server-side don't
+// name their signature; they are matched to the signer's closest signature
+const LEGACY_MATCH_WINDOW_MS = 5 * 60 * 1000;
+
+const getMetadata = (entry: AuditLog) =>
+  (entry.metadata && typeof entry.metadata === "object" && !Array.isArray(entry.metadata)
+    ? entry.metadata
+    : {}) as Record<string, unknown>;
+
+const findSignatureForEntry = (entry: AuditLog, signatures: TreeSignature[], matched: Set<string>) => {
+  const signatureId = getMetadata(entry).signature_id;
+  if (typeof signatureId === "string") {
+    return signatures.find((signature) => signature.id === signatureId);
+  }
+
+  const countersignature = entry.action === "signature_countersigned";
+  const entryTime = new Date(entry.created_at).getTime();
+  let closest: TreeSignature | undefined;
+  for (const signature of signatures) {
+    if (matched.has(signature.id) || signature.user_id !== entry.user_id) continue;
+    if (!!signature.parent_signature_id !== countersignature) continue;
+    const distance = Math.abs(new Date(signature.created_at).getTime() - entryTime);
+    if (
+      distance <= LEGACY_MATCH_WINDOW_MS &&
+      (!closest || distance < Math.abs(new Date(closest.created_at).getTime() - entryTime))
+    ) {
+      closest = signature;
+    }
+  }
+  return closest;
+};
+
+export const loadDocumentTimeline = async (documentId: string): Promise<DocumentTimeline> => {
+  const [documentResult, signersResult, participantsResult, signatures, auditLogs] = await Promise.all([
+    supabase.from("documents").select("*").eq("id", documentId).maybeSingle(),
+    supabase.from("document_signers").select("*").eq("document_id", documentId).order("position"),
+    supabase.rpc("get_document_participants", { _document_id: documentId }),
+    listDocumentSignatures(documentId),
+    fetchAllAuditLogs({
+      userId: null,
+      filters: { ...EMPTY_AUDIT_LOG_FILTERS, resourceType: "document", documentId },
+    }),
+  ]);
+  if (documentResult.error) throw documentResult.error;
+  if (signersResult.error) throw signersResult.error;
+  if (participantsResult.error) throw participantsResult.error;
+
+  const document = documentResult.data;
+  const signers = signersResult.data || [];
+  const participants = new Map(
+    (participantsResult.data || []).map((participant) => [
+      participant.user_id,
+      { userId: participant.user_id, email: participant.email, name: participant.full_name },
+    ])
+  );
+
+  const events: TimelineEvent[] = [];
+  const matchedSignatures = new Set<string>();
+  let uploadRecorded = false;
+
+  // Oldest first, so legacy entries claim the earliest matching signatures
+  for (const entry of [...auditLogs].reverse()) {
+    const kind = ACTION_KINDS[entry.action] ?? "other";
+    const event: TimelineEvent = {
+      id: entry.id,
+      kind,
+      at: new Date(entry.created_at),
+      actorId: entry.user_id,
+      auditEntry: entry,
+      metadata: getMetadata(entry),
+    };
+
+    if (kind === "signed" || kind === "countersigned") {
+      const signature = findSignatureForEntry(entry, signatures, matchedSignatures);
+      if (signature) {
+        matchedSignatures.add(signature.id);
+        event.signature = signature;
+      }
+    }
+    if (kind === "uploaded" || kind === "request_created") {
+      uploadRecorded = true;
+    }
+    events.push(event);
+  }
+
+  // Signatures made before their audit entries were written server-side
+  for (const signature of signatures) {
+    if (matchedSignatures.has(signature.id)) continue;
+    events.push({
+      id: signature.id,
+      kind: signature.parent_signature_id ? "countersigned" : "signed",
+      at: new Date(signature.created_at),
+      actorId: signature.user_id,
+      signature,
+      metadata: {},
+    });
+  }
+
+  if (document && !uploadRecorded) {
+    events.push({
+      id: document.id,
+      kind: document.signing_order ? "request_created" : "uploaded",
+      at: new Date(document.created_at),
+      actorId: document.user_id,
+      metadata: { file_name: document.file_name, file_hash: document.file_hash },
+    });
+  }
+
+  // Signers who were asked to sign may not have an account yet
+  for (const event of events) {
+    if (event.signature && !participants.has(event.signature.user_id)) {
+      event.actorEmail = signers.find((signer) => signer.signature_id === event.signature?.id)?.email ?? null;
+    }
+  }
+
+  // Audit entries keep their chain order when they share a timestamp
+  events.sort((a, b) =>
+    a.at.getTime() - b.at.getTime() ||
+    (a.auditEntry?.chain_position ?? 0) - (b.auditEntry?.chain_position ?? 0)
+  );
+
+  return { document, signers, participants, events };
+};
@@ -0,0 +1,15 @@
+// Triggers a browser download for generated content
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (value: unknown, fileName: string) => {
+  downloadBlob(new Blob([JSON.stringify(value, null, 2)], { type: "application/json" }), fileName);
+};
@@ -0,0 +1,107 @@
+// Handwritten signature drawings.
+// Drawings are kept as strokes and stored as a small SVG with one path per stroke.
+// Only SVG written by `drawingToSvg` is read back, so stored images never carry
+// markup of their own; PNG and PDF renderings are produced from the strokes.
+
+export interface HandwrittenSignature {
+  width: number;
+  height: number;
+  strokes: [number, number][][];
+}
+
+export const HANDWRITING_STROKE_WIDTH = 2.5;
+
+// Upper bound for the stored SVG, matching the database constraint
+const MAX_SVG_LENGTH = 100_000;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const isDrawingEmpty = (drawing: HandwrittenSignature | null) =>
+  !drawing || drawing.strokes.every((stroke) => stroke.length === 0);
+
+// SVG path data for one stroke; single points become a dot
+const strokePath = (stroke: [number, number][]) => {
+  const [first, ...rest] = stroke;
+  const points = rest.length > 0 ? rest : [first];
+  return `M${round(first[0])} ${round(first[1])}` + points.map(([x, y]) => `L${round(x)} ${round(y)}`).join("");
+};
+
+export const drawingToSvg = (drawing: HandwrittenSignature): string => {
+  const paths = drawing.strokes
+    .filter((stroke) => stroke.length > 0)
+    .map((stroke) => `<path d="${strokePath(stroke)}"/>`)
+    .join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${drawing.width} ${drawing.height}" ` +
+    `width="${drawing.width}" height="${drawing.height}" fill="none" stroke="#000" ` +
+    `stroke-width="${HANDWRITING_STROKE_WIDTH}" stroke-linecap="round" stroke-linejoin="round">${paths}</svg>`;
+  if (svg.length > MAX_SVG_LENGTH) {
+    throw new Error("The signature drawing is too detailed. Please draw it again with fewer strokes.");
+  }
+  return svg;
+};
+
+export const parseHandwrittenSignature = (svg: string): HandwrittenSignature => {
+  const viewBox = svg.match(/viewBox="0 0 ([\d.]+) ([\d.]+)"/);
+  if (!viewBox) throw new Error("Invalid handwritten signature");
+
+  const strokes = [...svg.matchAll(/<path d="([^"]*)"\/>/g)].map(([, path]) =>
+    [...path.matchAll(/[ML](-?[\d.]+) (-?[\d.]+)/g)].map(([, x, y]) => [Number(x), Number(y)] as [number, number])
+  );
+  return { width: Number(viewBox[1]), height: Number(viewBox[2]), strokes };
+};
+
+// For <img> sources; stored SVG should go through `parseHandwrittenSignature` first
+export const toSvgDataUrl = (drawing: HandwrittenSignature) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(drawingToSvg(drawing))}`;
+
+export const drawStrokes = (context: CanvasRenderingContext2D, drawing: HandwrittenSignature) => {
+  context.lineWidth = HANDWRITING_STROKE_WIDTH;
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.strokeStyle = "#000";
+  for (const stroke of drawing.strokes) {
+    if (stroke.length === 0) continue;
+    context.beginPath();
+    context.moveTo(stroke[0][0], stroke[0][1]);
+    for (const [x, y] of stroke.length > 1 ? stroke.slice(1) : stroke) {
+      context.lineTo(x, y);
+    }
+    context.stroke();
+  }
+};
+
+// Transparent PNG at `scale` times the drawing size
+export const drawingToPng = (drawing: HandwrittenSignature, scale = 2): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = drawing.width * scale;
+  canvas.height = drawing.height * scale;
+  const context = canvas.getContext("2d");
+  if (!context) return Promise.reject(new Error("Canvas is not supported in this browser"));
+
+  context.scale(scale, scale);
+  drawStrokes(context, drawing);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to render PNG"))), "image/png");
+  });
+};
+
+// PDF path operators drawing the strokes scaled into a box, keeping the aspect ratio
+export const drawingToPdfPath = (
+  drawing: HandwrittenSignature,
+  box: { x: number; y: number; width: number; height: number }
+): string => {
+  const scale = Math.min(box.width / drawing.width, box.height / drawing.height);
+  const offsetX = box.x + (box.width - drawing.width * scale) / 2;
+  const offsetY = box.y + (box.height - drawing.height * scale) / 2;
+  // PDF's y axis points up
+  const point = ([x, y]: [number, number]) =>
+    `${round(offsetX + x * scale)} ${round(offsetY + (drawing.height - y) * scale)}`;
+
+  const paths = drawing.strokes
+    .filter((stroke) => stroke.length > 0)
+    .map((stroke) => {
+      const [first, ...rest] = stroke;
+      return `${point(first)} m ` + (rest.length > 0 ? rest : [first]).map((p) => `${point(p)} l`).join(" ");
+    });
+  return `q 0 0 0 RG ${round(HANDWRITING_STROKE_WIDTH * scale)} w 1 J 1 j ${paths.join(" ")} S Q`;
+};
@@ -0,0 +1,211 @@
+// JSON Web Signatures (RFC 7515) for signed text, with public keys as JWKs (RFC 7517).
+// Signatures use the same keys as `signData`; WebCrypto already produces ECDSA
+// signatures in the raw r || s form that JWS expects.
+
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  getImportParams,
+  getKeyAlgorithm,
+  getKeyFingerprint,
+  signData,
+  verifySignature,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+
+export type JwsSerialization = "compact" | "json";
+
+const JWS_ALGORITHMS: Record<SignatureAlgorithm, string> = {
+  "RSASSA-PKCS1-v1_5": "RS256",
+  "RSA-PSS": "PS256",
+  "ECDSA-P256": "ES256",
+  "ECDSA-P384": "ES384",
+  "Ed25519": "EdDSA",
+};
+
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  cty?: string;
+  kid?: string;
+  jwk?: JsonWebKey;
+  [parameter: string]: unknown;
+}
+
+export interface JwsJson {
+  payload: string;
+  signatures: { protected: string; header?: Record<string, unknown>; signature: string }[];
+}
+
+export interface ParsedJws {
+  header: JwsHeader;
+  algorithm: SignatureAlgorithm;
+  payload: string;
+  // The ASCII `protected.payload` string the signature covers
+  signingInput: string;
+  // Standard base64, as `verifySignature` expects
+  signature: string;
+}
+
+const toBase64Url = (base64: string) => base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (base64Url: string) => {
+  if (!/^[A-Za-z0-9_-]*$/.test(base64Url)) {
+    throw new Error("Invalid base64url data in JWS");
+  }
+  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+  return base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+};
+
+const encodeText = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  return toBase64Url(arrayBufferToBase64(bytes.slice().buffer));
+};
+
+const decodeText = (base64Url: string) => {
+  return new TextDecoder("utf-8", { fatal: true }).decode(base64ToArrayBuffer(fromBase64Url(base64Url)));
+};
+
+const toSignatureAlgorithm = (alg: string): SignatureAlgorithm => {
+  const algorithm = (Object.keys(JWS_ALGORITHMS) as SignatureAlgorithm[]).find((key) => JWS_ALGORITHMS[key] === alg);
+  if (!algorithm) {
+    throw new Error(`Unsupported JWS algorithm: ${alg}`);
+  }
+  return algorithm;
+};
+
+export const getJwsAlgorithm = (algorithm: SignatureAlgorithm) => JWS_ALGORITHMS[algorithm];
+
+// Public key as a JWK, identified by the same SHA-256 fingerprint the key registry uses
+export const publicKeyToJwk = async (publicKey: string, algorithm: SignatureAlgorithm): Promise<JsonWebKey & { kid: string }> => {
+  const key = await crypto.subtle.importKey(
+    "spki",
+    base64ToArrayBuffer(publicKey),
+    getImportParams(algorithm),
+    true,
+    ["verify"]
+  );
+  const { kty, crv, n, e, x, y } = await crypto.subtle.exportKey("jwk", key);
+  return {
+    kty,
+    ...(crv && { crv }),
+    ...(n && { n, e }),
+    ...(x && { x }),
+    ...(y && { y }),
+    alg: JWS_ALGORITHMS[algorithm],
+    use: "sig",
+    kid: await getKeyFingerprint(publicKey),
+  };
+};
+
+// Converts a JWK back to the base64 SPKI format used everywhere else in the app
+export const jwkToPublicKey = async (jwk: JsonWebKey, algorithm: SignatureAlgorithm): Promise<string> => {
+  const { kty, crv, n, e, x, y } = jwk;
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty, crv, n, e, x, y, ext: true },
+    getImportParams(algorithm),
+    true,
+    ["verify"]
+  );
+  return arrayBufferToBase64(await crypto.subtle.exportKey("spki", key));
+};
+
+export const parseJwk = (contents: string): JsonWebKey => {
+  let jwk;
+  try {
+    jwk = JSON.parse(contents);
+  } catch {
+    throw new Error("The public key is not valid JSON");
+  }
+  if (!jwk || typeof jwk !== "object" || typeof jwk.kty !== "string") {
+    throw new Error("The public key is not a JSON Web Key");
+  }
+  return jwk;
+};
+
+// Signs UTF-8 text as a JWS in general JSON serialization; use `toCompactJws` for the compact form
+export const createJws = async (
+  payload: string,
+  privateKey: CryptoKey,
+  header: Omit<JwsHeader, "alg"> = {}
+): Promise<JwsJson> => {
+  const protectedHeader = encodeText(JSON.stringify({ alg: JWS_ALGORITHMS[getKeyAlgorithm(privateKey)], ...header }));
+  const encodedPayload = encodeText(payload);
+  const signature = await signData(`${protectedHeader}.${encodedPayload}`, privateKey);
+
+  return {
+    payload: encodedPayload,
+    signatures: [{ protected: protectedHeader, signature: toBase64Url(signature) }],
+  };
+};
+
+export const toCompactJws = (jws: JwsJson): string => {
+  const [{ protected: protectedHeader, signature }] = jws.signatures;
+  return `${protectedHeader}.${jws.payload}.${signature}`;
+};
+
+export const serializeJws = (jws: JwsJson, serialization: JwsSerialization): string => {
+  return serialization === "compact" ? toCompactJws(jws) : JSON.stringify(jws, null, 2);
+};
+
+// Accepts compact, general JSON and flattened JSON serializations; only the first signature is read
+export const parseJws = (input: string): ParsedJws => {
+  const trimmed = input.trim();
+  let protectedHeader: string;
+  let payload: string;
+  let signature: string;
+  let unprotectedHeader: Record<string, unknown> = {};
+
+  if (trimmed.startsWith("{")) {
+    let json;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The JWS is not valid JSON");
+    }
+    const entry = Array.isArray(json.signatures) ? json.signatures[0] : json;
+    if (typeof json.payload !== "string" || typeof entry?.protected !== "string" || typeof entry?.signature !== "string") {
+      throw new Error("The JWS JSON is missing its payload, protected header or signature");
+    }
+    protectedHeader = entry.protected;
+    payload = json.payload;
+    signature = entry.signature;
+    unprotectedHeader = entry.header ?? {};
+  } else {
+    const parts = trimmed.split(".");
+    if (parts.length !== 3) {
+      throw new Error("A compact JWS must have three dot-separated parts");
+    }
+    [protectedHeader, payload, signature] = parts;
+  }
+
+  let header: JwsHeader;
+  try {
+    header = { ...unprotectedHeader, ...JSON.parse(decodeText(protectedHeader)) };
+  } catch {
+    throw new Error("The JWS protected header is not valid");
+  }
+  if (typeof header.alg !== "string") {
+    throw new Error("The JWS header has no algorithm");
+  }
+
+  let text: string;
+  try {
+    text = decodeText(payload);
+  } catch {
+    throw new Error("The JWS payload is not UTF-8 text");
+  }
+
+  return {
+    header,
+    algorithm: toSignatureAlgorithm(header.alg),
+    payload: text,
+    signingInput: `${protectedHeader}.${payload}`,
+    signature: fromBase64Url(signature),
+  };
+};
+
+export const verifyJws = (jws: ParsedJws, publicKey: string): Promise<boolean> => {
+  return verifySignature(jws.signingInput, jws.signature, publicKey, jws.algorithm);
+};
@@ -0,0 +1,138 @@
+// Passphrase-protected private key backups.
+// The PKCS#8 private key is wrapped with AES-GCM under a key derived from the
+// passphrase with PBKDF2, so the backup file is useless without the passphrase.
+
+import {
+  LEGACY_ALGORITHM,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  getImportParams,
+  isSignatureAlgorithm,
+  signData,
+  verifySignature,
+  type KeyPair,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+
+const BACKUP_FORMAT = "digisigini-key-backup";
+const PBKDF2_ITERATIONS = 310000;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface KeyBackup {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  algorithm: SignatureAlgorithm;
+  kdf: {
+    name: "PBKDF2";
+    hash: "SHA-256";
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: "AES-GCM";
+    iv: string;
+  };
+  wrappedKey: string;
+  publicKey: string;
+  createdAt: string;
+}
+
+const deriveWrappingKey = async (
+  passphrase: string,
+  salt: ArrayBuffer,
+  iterations: number
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+};
+
+// `keys.privateKey` must be extractable; non-extractable keys from the key store
+// cannot be wrapped.
+export const createKeyBackup = async (keys: KeyPair, passphrase: string): Promise<KeyBackup> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt.buffer, PBKDF2_ITERATIONS);
+
+  const wrappedKey = await crypto.subtle.wrapKey("pkcs8", keys.privateKey, wrappingKey, {
+    name: "AES-GCM",
+    iv,
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: 1,
+    algorithm: keys.algorithm,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: arrayBufferToBase64(salt.buffer),
+    },
+    cipher: {
+      name: "AES-GCM",
+      iv: arrayBufferToBase64(iv.buffer),
+    },
+    wrappedKey: arrayBufferToBase64(wrappedKey),
+    publicKey: keys.publicKey,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const parseKeyBackup = (contents: string): KeyBackup => {
+  const backup = JSON.parse(contents);
+  if (backup?.format !== BACKUP_FORMAT || backup?.version !== 1) {
+    throw new Error("This file is not a DigiSigini key backup");
+  }
+  if (!isSignatureAlgorithm(backup.algorithm ?? LEGACY_ALGORITHM)) {
+    throw new Error(`Unsupported key algorithm: ${backup.algorithm}`);
+  }
+  return { ...backup, algorithm: backup.algorithm ?? LEGACY_ALGORITHM } as KeyBackup;
+};
+
+// Unwraps the private key straight into a non-extractable CryptoKey, ready for the key store.
+// The key must sign a probe that verifies against the backup's public key, so a
+// tampered or mismatched backup is never installed.
+export const restoreKeyBackup = async (backup: KeyBackup, passphrase: string): Promise<KeyPair> => {
+  const wrappingKey = await deriveWrappingKey(
+    passphrase,
+    base64ToArrayBuffer(backup.kdf.salt),
+    backup.kdf.iterations
+  );
+
+  let privateKey: CryptoKey;
+  try {
+    privateKey = await crypto.subtle.unwrapKey(
+      "pkcs8",
+      base64ToArrayBuffer(backup.wrappedKey),
+      wrappingKey,
+      { name: "AES-GCM", iv: base64ToArrayBuffer(backup.cipher.iv) },
+      getImportParams(backup.algorithm),
+      false,
+      ["sign"]
+    );
+  } catch {
+    throw new Error("Incorrect passphrase or corrupted backup file");
+  }
+
+  const probe = crypto.getRandomValues(new Uint8Array(32));
+  const probeSignature = await signData(probe, privateKey);
+  if (!(await verifySignature(probe, probeSignature, backup.publicKey, backup.algorithm))) {
+    throw new Error("The private key in this backup does not match its public key");
+  }
+
+  return { publicKey: backup.publicKey, privateKey, algorithm: backup.algorithm };
+};
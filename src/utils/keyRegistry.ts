@@ -0,0 +1,107 @@
+// Server-side registry of users' public keys (the `public_keys` table).
+// Signatures reference a registry row so verifiers resolve the exact signing key.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getKeyAlgorithm, getKeyFingerprint, signData, type KeyPair } from "@/utils/crypto";
+
+export type PublicKeyRecord = Tables<"public_keys">;
+
+export const findPublicKeyByFingerprint = async (fingerprint: string): Promise<PublicKeyRecord | null> => {
+  const { data, error } = await supabase
+    .from("public_keys")
+    .select("*")
+    .eq("fingerprint", fingerprint)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Signed with the private key to prove the caller holds it. Must match
+// getRegistrationChallenge in the register-public-key edge function.
+const getKeyRegistrationChallenge = (userId: string, publicKey: string) =>
+  `DigiSigini public key registration\nUser: ${userId}\nKey: ${publicKey}`;
+
+// Registers the key for the user, or returns the existing row if it is already known.
+// Registering a new key rotates it in: the database assigns the next version and
+// retires the user's previous keys, which stay available for verification.
+export const registerPublicKey = async (
+  userId: string,
+  keys: Pick<KeyPair, "publicKey" | "privateKey">
+): Promise<PublicKeyRecord> => {
+  const fingerprint = await getKeyFingerprint(keys.publicKey);
+  const existing = await findPublicKeyByFingerprint(fingerprint);
+  if (existing) {
+    if (existing.user_id !== userId) {
+      throw new Error("This public key is registered to another user");
+    }
+    return existing;
+  }
+
+  const proof = await signData(getKeyRegistrationChallenge(userId, keys.publicKey), keys.privateKey);
+  const { data, error } = await supabase.functions.invoke<{ key: PublicKeyRecord }>("register-public-key", {
+    body: { spki: keys.publicKey, algorithm: getKeyAlgorithm(keys.privateKey), proof },
+  });
+
+  if (error) throw error;
+  return data!.key;
+};
+
+export const getPublicKey = async (id: string): Promise<PublicKeyRecord | null> => {
+  const { data, error } = await supabase
+    .from("public_keys")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Display name of the key's registered owner, for naming the signer of a verified signature
+export const getPublicKeyOwnerName = async (id: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc("get_public_key_owner_name", { _key_id: id });
+
+  if (error) throw error;
+  return data;
+};
+
+// The user's key history, newest version first
+export const listPublicKeys = async (userId: string): Promise<PublicKeyRecord[]> => {
+  const { data, error } = await supabase
+    .from("public_keys")
+    .select("*")
+    .eq("user_id", userId)
+    .order("version", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const REVOCATION_REASONS = {
+  key_compromise: "Key compromise",
+  superseded: "Superseded",
+  affiliation_changed: "Affiliation changed",
+  cessation_of_operation: "Cessation of operation",
+  unspecified: "Unspecified",
+} as const;
+
+export type RevocationReason = keyof typeof REVOCATION_REASONS;
+
+// Marks the key revoked from `effectiveAt` onwards. Revocations are permanent.
+// Registered keys can't be updated directly, so this goes through an RPC.
+export const revokePublicKey = async (
+  id: string,
+  reason: RevocationReason,
+  effectiveAt: Date
+): Promise<PublicKeyRecord> => {
+  const { data, error } = await supabase.rpc("revoke_public_key", {
+    _key_id: id,
+    _reason: reason,
+    _effective_at: effectiveAt.toISOString(),
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,103 @@
+// Browser key store for signing keys.
+// Private keys are kept as non-extractable CryptoKey objects in IndexedDB, so page
+// scripts can use them to sign but can never read the key material.
+
+import {
+  LEGACY_ALGORITHM,
+  getKeyAlgorithm,
+  importPrivateKey,
+  type KeyPair,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+
+const DB_NAME = "digisigini-keys";
+const DB_VERSION = 1;
+const STORE_NAME = "keys";
+const LEGACY_PREFIX = "keys_";
+
+export interface StoredKeyPair {
+  userId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+  algorithm: SignatureAlgorithm;
+  createdAt: string;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "userId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveKeyPair = async (userId: string, keys: KeyPair): Promise<StoredKeyPair> => {
+  const record: StoredKeyPair = {
+    userId,
+    publicKey: keys.publicKey,
+    privateKey: keys.privateKey,
+    algorithm: keys.algorithm,
+    createdAt: new Date().toISOString(),
+  };
+  await runRequest("readwrite", (store) => store.put(record));
+  return record;
+};
+
+export const deleteKeyPair = async (userId: string): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(userId));
+};
+
+// One-time migration of the old `keys_${userId}` localStorage entries, which held
+// the PKCS#8 private key in plain base64. Each entry is imported as a
+// non-extractable key and then removed from localStorage.
+export const migrateLegacyKeys = async (): Promise<void> => {
+  const legacyEntries = Object.keys(localStorage).filter((key) => key.startsWith(LEGACY_PREFIX));
+
+  for (const entry of legacyEntries) {
+    const userId = entry.slice(LEGACY_PREFIX.length);
+    try {
+      const stored = JSON.parse(localStorage.getItem(entry) || "null");
+      const existing = await runRequest<StoredKeyPair | undefined>("readonly", (store) => store.get(userId));
+
+      if (stored?.privateKey && stored?.publicKey && !existing) {
+        await saveKeyPair(userId, {
+          publicKey: stored.publicKey,
+          privateKey: await importPrivateKey(stored.privateKey, LEGACY_ALGORITHM),
+          algorithm: LEGACY_ALGORITHM,
+        });
+      }
+      localStorage.removeItem(entry);
+    } catch (error) {
+      console.error(`Error migrating legacy keys for ${userId}:`, error);
+    }
+  }
+};
+
+export const getKeyPair = async (userId: string): Promise<StoredKeyPair | null> => {
+  await migrateLegacyKeys();
+  const record = await runRequest<StoredKeyPair | undefined>("readonly", (store) => store.get(userId));
+  if (!record) return null;
+  // Records written before algorithm selection don't carry the algorithm
+  return { ...record, algorithm: record.algorithm ?? getKeyAlgorithm(record.privateKey) };
+};
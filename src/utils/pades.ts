@@ -0,0 +1,325 @@
+// PAdES signatures embedded in PDF documents.
+// The signature is appended as an incremental update: a signature field and a
+// signature dictionary whose /Contents holds a detached CMS signature over every
+// byte of the file except /Contents itself, as described by /ByteRange.
+
+import { concatBytes } from "@/utils/asn1";
+import { digestBytes, signData, type SignatureAlgorithm } from "@/utils/crypto";
+import {
+  buildSignedAttributes,
+  encodeCmsSignedData,
+  parseCmsSignature,
+  verifyCmsSignature,
+  type ParsedCmsSignature,
+} from "@/utils/cms";
+import { getDigestAlgorithm } from "@/utils/x509";
+import {
+  createStampAppearance,
+  getStampSize,
+  type StampDetails,
+  type StampPlacement,
+} from "@/utils/pdfStamp";
+import {
+  allocateObject,
+  decodeTextString,
+  dict,
+  formatPdfDate,
+  fromBinaryString,
+  getCatalog,
+  getPageBox,
+  getPages,
+  isDict,
+  isName,
+  isRef,
+  isString,
+  loadPdf,
+  name,
+  parsePdfDate,
+  raw,
+  resolve,
+  textString,
+  toBinaryString,
+  writeIncrementalUpdate,
+  type PdfDict,
+  type PdfDocument,
+  type PdfObjectUpdate,
+  type PdfRef,
+  type PdfValue,
+} from "@/utils/pdf";
+
+// Bytes reserved for the CMS structure; RSA-3072 signatures with a certificate need about 2 KB
+const CONTENTS_SIZE = 8192;
+const BYTE_RANGE_PLACEHOLDER = `[0 ${"/*********".repeat(3)}]`;
+
+export interface PdfSigningOptions {
+  privateKey: CryptoKey;
+  algorithm: SignatureAlgorithm;
+  // DER certificate for the signing key, see `createSelfSignedCertificate`
+  certificate: Uint8Array;
+  signerName: string;
+  reason?: string;
+  location?: string;
+  signingTime?: Date;
+  // Draws a visible stamp as the signature field's appearance
+  stamp?: { placement: StampPlacement; details: StampDetails };
+}
+
+export interface PdfSignatureResult {
+  fieldName: string | null;
+  signerName: string | null;
+  signingTime: Date | null;
+  subFilter: string | null;
+  cms: ParsedCmsSignature | null;
+  valid: boolean;
+  // False when the file was changed by an incremental update after this signature
+  coversWholeDocument: boolean;
+  error?: string;
+}
+
+export const isPdf = (data: ArrayBuffer | Uint8Array): boolean => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return toBinaryString(bytes.subarray(0, 1024)).includes("%PDF-");
+};
+
+export const getSignedPdfFileName = (fileName: string) => `${fileName.replace(/\.pdf$/i, "")}-signed.pdf`;
+
+// Appends a value to an array that may be inline or an indirect object
+const appendToArray = async (
+  doc: PdfDocument,
+  value: PdfValue | undefined,
+  item: PdfValue,
+  updates: PdfObjectUpdate[]
+): Promise<PdfValue> => {
+  if (isRef(value)) {
+    const resolved = await resolve(doc, value);
+    updates.push({ ref: value, value: [...(Array.isArray(resolved) ? resolved : []), item] });
+    return value;
+  }
+  return [...(Array.isArray(value) ? value : []), item];
+};
+
+const countFields = async (doc: PdfDocument, fields: PdfValue): Promise<number> => {
+  const resolved = await resolve(doc, fields);
+  return Array.isArray(resolved) ? resolved.length : 0;
+};
+
+// Adds a signature field to a page, returning the updates that hold it and the
+// signature dictionary. `widget` entries let callers make the field visible.
+export const addSignatureField = async (
+  doc: PdfDocument,
+  sigDict: PdfDict,
+  { pageIndex = 0, widget = {}, extraUpdates = [] }: {
+    pageIndex?: number;
+    widget?: Record<string, PdfValue>;
+    extraUpdates?: PdfObjectUpdate[];
+  } = {}
+): Promise<PdfObjectUpdate[]> => {
+  const { ref: catalogRef, catalog } = await getCatalog(doc);
+  const page = (await getPages(doc))[pageIndex];
+  if (!page) throw new Error(`The PDF has no page ${pageIndex + 1}`);
+
+  const updates: PdfObjectUpdate[] = [];
+  const sigRef = allocateObject(doc);
+  const fieldRef = allocateObject(doc);
+
+  // Merge into an existing AcroForm, which may itself be indirect
+  let acroFormRef: PdfRef | null = isRef(catalog.entries.AcroForm) ? catalog.entries.AcroForm : null;
+  const existingForm = await resolve(doc, catalog.entries.AcroForm);
+  const acroForm = isDict(existingForm) ? existingForm : dict({});
+  const fieldNumber = (await countFields(doc, acroForm.entries.Fields)) + 1;
+
+  const fields = await appendToArray(doc, acroForm.entries.Fields, fieldRef, updates);
+  const updatedForm = dict({ ...acroForm.entries, Fields: fields, SigFlags: 3 });
+  if (!acroFormRef) {
+    acroFormRef = allocateObject(doc);
+  }
+  updates.push({ ref: acroFormRef, value: updatedForm });
+
+  const annots = await appendToArray(doc, page.page.entries.Annots, fieldRef, updates);
+  if (!isRef(page.page.entries.Annots)) {
+    updates.push({ ref: page.ref, value: dict({ ...page.page.entries, Annots: annots }) });
+  }
+
+  if (!isRef(catalog.entries.AcroForm)) {
+    updates.push({ ref: catalogRef, value: dict({ ...catalog.entries, AcroForm: acroFormRef }) });
+  }
+
+  updates.push(
+    {
+      ref: fieldRef,
+      value: dict({
+        Type: name("Annot"),
+        Subtype: name("Widget"),
+        FT: name("Sig"),
+        T: textString(`Signature${fieldNumber}`),
+        V: sigRef,
+        // Print and Locked
+        F: 132,
+        Rect: [0, 0, 0, 0],
+        P: page.ref,
+        ...widget,
+      }),
+    },
+    { ref: sigRef, value: sigDict },
+    ...extraUpdates
+  );
+  return updates;
+};
+
+// Fills the /ByteRange and /Contents placeholders of a written PDF
+export const embedSignature = async (
+  pdf: Uint8Array,
+  { privateKey, algorithm, certificate }: Pick<PdfSigningOptions, "privateKey" | "algorithm" | "certificate">
+): Promise<Uint8Array> => {
+  const source = toBinaryString(pdf);
+  const byteRangeStart = source.lastIndexOf(BYTE_RANGE_PLACEHOLDER);
+  const contentsStart = source.indexOf("<", source.indexOf("/Contents", byteRangeStart));
+  const contentsEnd = contentsStart + CONTENTS_SIZE * 2 + 2;
+  if (byteRangeStart < 0 || contentsStart < 0) {
+    throw new Error("Signature placeholder not found in PDF");
+  }
+
+  const byteRange = `[0 ${contentsStart} ${contentsEnd} ${pdf.length - contentsEnd}]`;
+  const output = new Uint8Array(pdf);
+  output.set(fromBinaryString(byteRange.padEnd(BYTE_RANGE_PLACEHOLDER.length, " ")), byteRangeStart);
+
+  const signedContent = concatBytes(output.subarray(0, contentsStart), output.subarray(contentsEnd));
+  const digest = await digestBytes(signedContent, getDigestAlgorithm(algorithm));
+  const signedAttributes = await buildSignedAttributes(digest, { certificate });
+  const signature = await signData(signedAttributes, privateKey);
+  const cms = encodeCmsSignedData({ algorithm, signature, certificate, signedAttributes });
+  if (cms.length > CONTENTS_SIZE) {
+    throw new Error("The signature is too large for the space reserved in the PDF");
+  }
+
+  const hex = Array.from(cms, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  output.set(fromBinaryString(hex), contentsStart + 1);
+  return output;
+};
+
+export const createSignatureDictionary = ({ signerName, reason, location, signingTime = new Date() }: PdfSigningOptions) =>
+  dict({
+    Type: name("Sig"),
+    Filter: name("Adobe.PPKLite"),
+    SubFilter: name("ETSI.CAdES.detached"),
+    ByteRange: raw(BYTE_RANGE_PLACEHOLDER),
+    Contents: raw(`<${"0".repeat(CONTENTS_SIZE * 2)}>`),
+    M: textString(formatPdfDate(signingTime)),
+    Name: textString(signerName),
+    ...(reason && { Reason: textString(reason) }),
+    ...(location && { Location: textString(location) }),
+  });
+
+// Page sizes in points, for placing a stamp
+export const getPdfPageSizes = async (bytes: Uint8Array): Promise<{ width: number; height: number }[]> => {
+  const doc = await loadPdf(bytes);
+  const pages = await getPages(doc);
+  return Promise.all(pages.map(async ({ page }) => {
+    const [x1, y1, x2, y2] = await getPageBox(doc, page);
+    return { width: x2 - x1, height: y2 - y1 };
+  }));
+};
+
+// Signature field whose appearance is the stamp, positioned on the chosen page.
+// Page rotation is not taken into account.
+const createStampField = async (doc: PdfDocument, { placement, details }: NonNullable<PdfSigningOptions["stamp"]>) => {
+  const page = (await getPages(doc))[placement.pageIndex];
+  if (!page) throw new Error(`The PDF has no page ${placement.pageIndex + 1}`);
+  const [x1, y1, x2, y2] = await getPageBox(doc, page.page);
+
+  // Keep the stamp inside the page
+  const { width, height } = getStampSize(details);
+  const left = Math.min(Math.max(x1 + placement.x * (x2 - x1), x1), x2 - width);
+  const top = Math.max(Math.min(y2 - placement.y * (y2 - y1), y2), y1 + height);
+  const rect = [left, top - height, left + width, top];
+
+  const appearance = createStampAppearance(details);
+  const appearanceRef = allocateObject(doc);
+  return {
+    pageIndex: placement.pageIndex,
+    widget: { Rect: rect, AP: dict({ N: appearanceRef }) },
+    extraUpdates: [{
+      ref: appearanceRef,
+      value: dict({
+        Type: name("XObject"),
+        Subtype: name("Form"),
+        BBox: [0, 0, width, height],
+        Resources: appearance.resources,
+      }),
+      stream: appearance.stream,
+    }],
+  };
+};
+
+// Signs a PDF with a signature field on the stamp's page, or an invisible one on the first page
+export const signPdf = async (bytes: Uint8Array, options: PdfSigningOptions): Promise<Uint8Array> => {
+  const doc = await loadPdf(bytes);
+  const field = options.stamp ? await createStampField(doc, options.stamp) : {};
+  const updates = await addSignatureField(doc, createSignatureDictionary(options), field);
+  return embedSignature(writeIncrementalUpdate(doc, updates), options);
+};
+
+const collectSignatureFields = async (doc: PdfDocument, fields: PdfValue, prefix: string, found: { name: string; sig: PdfDict }[], depth = 0) => {
+  const resolved = await resolve(doc, fields);
+  if (!Array.isArray(resolved) || depth > 16) return;
+
+  for (const fieldRef of resolved) {
+    const field = await resolve(doc, fieldRef);
+    if (!isDict(field)) continue;
+    const partial = isString(field.entries.T) ? decodeTextString(field.entries.T) : "";
+    const fullName = prefix && partial ? `${prefix}.${partial}` : prefix || partial;
+
+    if (field.entries.Kids) {
+      await collectSignatureFields(doc, field.entries.Kids, fullName, found, depth + 1);
+    }
+    const value = await resolve(doc, field.entries.V);
+    if (isDict(value) && value.entries.ByteRange && isString(value.entries.Contents)) {
+      found.push({ name: fullName, sig: value });
+    }
+  }
+};
+
+// Extracts and checks every signature in a PDF; returns an empty list for unsigned PDFs
+export const verifyPdfSignatures = async (bytes: Uint8Array): Promise<PdfSignatureResult[]> => {
+  const doc = await loadPdf(bytes);
+  const { catalog } = await getCatalog(doc);
+  const acroForm = await resolve(doc, catalog.entries.AcroForm);
+  if (!isDict(acroForm)) return [];
+
+  const found: { name: string; sig: PdfDict }[] = [];
+  await collectSignatureFields(doc, acroForm.entries.Fields, "", found);
+
+  const results: PdfSignatureResult[] = [];
+  for (const { name: fieldName, sig } of found) {
+    const { ByteRange, Contents, M, Name, SubFilter } = sig.entries;
+    const signingTime = isString(M) ? parsePdfDate(decodeTextString(M)) : null;
+    const result: PdfSignatureResult = {
+      fieldName: fieldName || null,
+      signerName: isString(Name) ? decodeTextString(Name) : null,
+      signingTime,
+      subFilter: isName(SubFilter) ? SubFilter.value : null,
+      cms: null,
+      valid: false,
+      coversWholeDocument: false,
+    };
+
+    try {
+      const range = Array.isArray(ByteRange) ? ByteRange.map(Number) : [];
+      if (range.length !== 4 || range.some((value) => !Number.isInteger(value) || value < 0) || range[2] + range[3] > bytes.length) {
+        throw new Error("Invalid /ByteRange");
+      }
+      const [start, length, gapEnd, tailLength] = range;
+      const signedContent = concatBytes(bytes.subarray(start, start + length), bytes.subarray(gapEnd, gapEnd + tailLength));
+
+      result.cms = parseCmsSignature((Contents as { bytes: Uint8Array }).bytes);
+      result.signerName ??= result.cms.certificate.subject.commonName || null;
+      result.signingTime ??= result.cms.signingTime;
+      result.valid = await verifyCmsSignature(signedContent, result.cms);
+      result.coversWholeDocument = start === 0 && gapEnd + tailLength === bytes.length;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Failed to read signature";
+    }
+    results.push(result);
+  }
+  return results;
+};
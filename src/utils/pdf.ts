@@ -0,0 +1,733 @@
+// Minimal PDF object reader and incremental-update writer.
+// Enough to locate the catalog, pages and form fields of an existing PDF and append
+// new or replaced objects after the original bytes, which is how PDF signatures
+// (and any later signatures) are added without invalidating earlier ones.
+// `writePdf` builds small documents such as receipts from scratch.
+
+export interface PdfName {
+  type: "name";
+  value: string;
+}
+
+export interface PdfRef {
+  type: "ref";
+  num: number;
+  gen: number;
+}
+
+export interface PdfString {
+  type: "string";
+  bytes: Uint8Array;
+}
+
+export interface PdfDict {
+  type: "dict";
+  entries: Record<string, PdfValue>;
+}
+
+// Serialized verbatim; used for placeholders that are patched after writing
+export interface PdfRaw {
+  type: "raw";
+  text: string;
+}
+
+export type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfRaw | PdfValue[];
+
+export interface PdfObject {
+  value: PdfValue;
+  stream: Uint8Array | null;
+}
+
+export interface PdfObjectUpdate {
+  ref: PdfRef;
+  value: PdfValue;
+  // Raw stream contents, written with a matching /Length
+  stream?: Uint8Array;
+}
+
+type XrefEntry = { type: "offset"; offset: number } | { type: "compressed"; stream: number; index: number } | { type: "free" };
+
+export interface PdfDocument {
+  bytes: Uint8Array;
+  // Latin-1 view of the bytes for tokenizing
+  source: string;
+  trailer: PdfDict;
+  startXref: number;
+  xrefIsStream: boolean;
+  xref: Map<number, XrefEntry>;
+  objectStreams: Map<number, Promise<Map<number, PdfValue>>>;
+  size: number;
+}
+
+export const name = (value: string): PdfName => ({ type: "name", value });
+export const ref = (num: number, gen = 0): PdfRef => ({ type: "ref", num, gen });
+export const dict = (entries: Record<string, PdfValue>): PdfDict => ({ type: "dict", entries });
+export const raw = (text: string): PdfRaw => ({ type: "raw", text });
+
+export const isName = (value: PdfValue | undefined, expected?: string): value is PdfName =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && value.type === "name" &&
+  (expected === undefined || value.value === expected);
+export const isRef = (value: PdfValue | undefined): value is PdfRef =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && value.type === "ref";
+export const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && value.type === "dict";
+export const isString = (value: PdfValue | undefined): value is PdfString =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && value.type === "string";
+
+export const toBinaryString = (bytes: Uint8Array): string => {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+export const fromBinaryString = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+// Text strings are PDFDocEncoding for ASCII and UTF-16BE with a byte order mark otherwise
+export const textString = (value: string): PdfString => {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return { type: "string", bytes: fromBinaryString(value) };
+  }
+  const bytes = [0xfe, 0xff];
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes.push(code >> 8, code & 0xff);
+  }
+  return { type: "string", bytes: new Uint8Array(bytes) };
+};
+
+export const decodeTextString = (value: PdfString): string => {
+  const { bytes } = value;
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let result = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return result;
+  }
+  return toBinaryString(bytes);
+};
+
+// Content stream string operand for the standard 14 fonts, which only cover
+// WinAnsi; anything else is replaced
+export const winAnsiLiteral = (value: string) =>
+  `(${value.replace(/[^\x20-\x7e\xa0-\xff]/g, "?").replace(/([\\()])/g, "\\$1")})`;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export const formatPdfDate = (date: Date): string =>
+  `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+export const parsePdfDate = (value: string): Date | null => {
+  const match = value.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+  if (!match) return null;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", zone] = match;
+  let offsetMinutes = 0;
+  if (zone && zone !== "Z") {
+    const [hours, minutes] = zone.slice(1).split("'").filter(Boolean).map(Number);
+    offsetMinutes = (zone[0] === "-" ? -1 : 1) * (hours * 60 + (minutes || 0));
+  }
+  const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return new Date(utc - offsetMinutes * 60 * 1000);
+};
+
+// ---- Tokenizer ----
+
+const WHITESPACE = "\x00\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+interface Cursor {
+  source: string;
+  pos: number;
+}
+
+const skipWhitespace = (cursor: Cursor) => {
+  const { source } = cursor;
+  while (cursor.pos < source.length) {
+    const char = source[cursor.pos];
+    if (WHITESPACE.includes(char)) {
+      cursor.pos++;
+    } else if (char === "%") {
+      while (cursor.pos < source.length && source[cursor.pos] !== "\n" && source[cursor.pos] !== "\r") cursor.pos++;
+    } else {
+      break;
+    }
+  }
+};
+
+const readToken = (cursor: Cursor): string => {
+  const start = cursor.pos;
+  while (
+    cursor.pos < cursor.source.length &&
+    !WHITESPACE.includes(cursor.source[cursor.pos]) &&
+    !DELIMITERS.includes(cursor.source[cursor.pos])
+  ) {
+    cursor.pos++;
+  }
+  return cursor.source.slice(start, cursor.pos);
+};
+
+const readInteger = (cursor: Cursor): number | null => {
+  skipWhitespace(cursor);
+  const match = /^\d+/.exec(cursor.source.slice(cursor.pos, cursor.pos + 20));
+  if (!match) return null;
+  cursor.pos += match[0].length;
+  return Number(match[0]);
+};
+
+const parseLiteralString = (cursor: Cursor): PdfString => {
+  const { source } = cursor;
+  const bytes: number[] = [];
+  let depth = 0;
+  cursor.pos++;
+
+  while (cursor.pos < source.length) {
+    const char = source[cursor.pos++];
+    if (char === "\\") {
+      const next = source[cursor.pos++];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+      } else if (/[0-7]/.test(next)) {
+        let octal = next;
+        while (octal.length < 3 && /[0-7]/.test(source[cursor.pos])) octal += source[cursor.pos++];
+        bytes.push(parseInt(octal, 8) & 0xff);
+      } else if (next === "\r") {
+        if (source[cursor.pos] === "\n") cursor.pos++;
+      } else if (next !== "\n") {
+        bytes.push(next.charCodeAt(0));
+      }
+    } else if (char === "(") {
+      depth++;
+      bytes.push(40);
+    } else if (char === ")") {
+      if (depth === 0) break;
+      depth--;
+      bytes.push(41);
+    } else {
+      bytes.push(char.charCodeAt(0));
+    }
+  }
+  return { type: "string", bytes: new Uint8Array(bytes) };
+};
+
+const parseHexString = (cursor: Cursor): PdfString => {
+  const end = cursor.source.indexOf(">", cursor.pos);
+  if (end < 0) throw new Error("Unterminated hex string in PDF");
+  let hex = cursor.source.slice(cursor.pos + 1, end).replace(/[^0-9a-fA-F]/g, "");
+  cursor.pos = end + 1;
+  if (hex.length % 2) hex += "0";
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return { type: "string", bytes };
+};
+
+const parseName = (cursor: Cursor): string => {
+  cursor.pos++;
+  return readToken(cursor).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+const parseValue = (cursor: Cursor): PdfValue => {
+  skipWhitespace(cursor);
+  const { source } = cursor;
+  const char = source[cursor.pos];
+
+  if (source.startsWith("<<", cursor.pos)) {
+    cursor.pos += 2;
+    const entries: Record<string, PdfValue> = {};
+    for (;;) {
+      skipWhitespace(cursor);
+      if (source.startsWith(">>", cursor.pos)) {
+        cursor.pos += 2;
+        return { type: "dict", entries };
+      }
+      if (source[cursor.pos] !== "/") {
+        throw new Error(`Invalid PDF dictionary key at offset ${cursor.pos}`);
+      }
+      const key = parseName(cursor);
+      entries[key] = parseValue(cursor);
+    }
+  }
+  if (char === "<") return parseHexString(cursor);
+  if (char === "(") return parseLiteralString(cursor);
+  if (char === "/") return name(parseName(cursor));
+  if (char === "[") {
+    cursor.pos++;
+    const items: PdfValue[] = [];
+    for (;;) {
+      skipWhitespace(cursor);
+      if (source[cursor.pos] === "]") {
+        cursor.pos++;
+        return items;
+      }
+      if (cursor.pos >= source.length) throw new Error("Unterminated PDF array");
+      items.push(parseValue(cursor));
+    }
+  }
+
+  const token = readToken(cursor);
+  if (token === "true") return true;
+  if (token === "false") return false;
+  if (token === "null") return null;
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+    throw new Error(`Unexpected PDF token "${token}" at offset ${cursor.pos}`);
+  }
+
+  // An integer may start an indirect reference: "12 0 R"
+  if (/^\d+$/.test(token)) {
+    const saved = cursor.pos;
+    const gen = readInteger(cursor);
+    if (gen !== null) {
+      skipWhitespace(cursor);
+      if (source[cursor.pos] === "R" && (cursor.pos + 1 >= source.length || WHITESPACE.includes(source[cursor.pos + 1]) || DELIMITERS.includes(source[cursor.pos + 1]))) {
+        cursor.pos++;
+        return ref(Number(token), gen);
+      }
+    }
+    cursor.pos = saved;
+  }
+  return Number(token);
+};
+
+// ---- Serializer ----
+
+const serializeName = (value: string) =>
+  "/" + value.replace(/[^\x21-\x7e]|[()<>[\]{}/%#]/g, (char) => `#${char.charCodeAt(0).toString(16).padStart(2, "0")}`);
+
+export const serializeValue = (value: PdfValue): string => {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(4).replace(/\.?0+$/, "");
+  }
+  if (Array.isArray(value)) return `[${value.map(serializeValue).join(" ")}]`;
+
+  switch (value.type) {
+    case "name":
+      return serializeName(value.value);
+    case "ref":
+      return `${value.num} ${value.gen} R`;
+    case "string":
+      return `<${Array.from(value.bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}>`;
+    case "raw":
+      return value.text;
+    case "dict":
+      return `<<${Object.entries(value.entries)
+        .map(([key, entry]) => `${serializeName(key)} ${serializeValue(entry)}`)
+        .join(" ")}>>`;
+  }
+};
+
+// ---- Streams ----
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// PNG predictors (/Predictor 10-15), as used by cross-reference and object streams
+const unpredict = (data: Uint8Array, columns: number, bytesPerPixel: number): Uint8Array => {
+  const rowLength = columns + 1;
+  const rows = Math.floor(data.length / rowLength);
+  const output = new Uint8Array(rows * columns);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * rowLength];
+    for (let i = 0; i < columns; i++) {
+      const current = data[row * rowLength + 1 + i];
+      const left = i >= bytesPerPixel ? output[row * columns + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[(row - 1) * columns + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[(row - 1) * columns + i - bytesPerPixel] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = Math.floor((left + up) / 2);
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const [a, b, c] = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+        predicted = a <= b && a <= c ? left : b <= c ? up : upLeft;
+      }
+      output[row * columns + i] = (current + predicted) & 0xff;
+    }
+  }
+  return output;
+};
+
+export const decodeStream = async (object: PdfObject): Promise<Uint8Array> => {
+  if (!isDict(object.value) || !object.stream) {
+    throw new Error("PDF object is not a stream");
+  }
+  const { Filter, DecodeParms } = object.value.entries;
+  const filters = Array.isArray(Filter) ? Filter : Filter ? [Filter] : [];
+  if (filters.length === 0) return object.stream;
+  if (filters.length > 1 || !isName(filters[0], "FlateDecode")) {
+    throw new Error("Unsupported PDF stream filter");
+  }
+
+  const data = await inflate(object.stream);
+  const params = Array.isArray(DecodeParms) ? DecodeParms[0] : DecodeParms;
+  const predictor = isDict(params) ? Number(params.entries.Predictor ?? 1) : 1;
+  if (predictor < 10 || !isDict(params)) return data;
+
+  const colors = Number(params.entries.Colors ?? 1);
+  const bitsPerComponent = Number(params.entries.BitsPerComponent ?? 8);
+  const columns = Number(params.entries.Columns ?? 1);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  return unpredict(data, Math.ceil((columns * colors * bitsPerComponent) / 8), bytesPerPixel);
+};
+
+// ---- Document ----
+
+const skipTo = (source: string, pos: number) => {
+  while (pos < source.length && WHITESPACE.includes(source[pos])) pos++;
+  return pos;
+};
+
+const readObjectAt = (doc: Pick<PdfDocument, "source" | "bytes">, offset: number, lengths?: Map<number, number>): PdfObject & { num: number; gen: number } => {
+  const cursor: Cursor = { source: doc.source, pos: offset };
+  const num = readInteger(cursor);
+  const gen = readInteger(cursor);
+  skipWhitespace(cursor);
+  if (num === null || gen === null || !doc.source.startsWith("obj", cursor.pos)) {
+    throw new Error(`No PDF object at offset ${offset}`);
+  }
+  cursor.pos += 3;
+  const value = parseValue(cursor);
+  skipWhitespace(cursor);
+
+  let stream: Uint8Array | null = null;
+  if (isDict(value) && doc.source.startsWith("stream", cursor.pos)) {
+    let start = cursor.pos + 6;
+    if (doc.source[start] === "\r") start++;
+    if (doc.source[start] === "\n") start++;
+    const length = value.entries.Length;
+    let streamLength = typeof length === "number" ? length : isRef(length) ? lengths?.get(length.num) : undefined;
+    // Fall back to the endstream keyword when the length is indirect or wrong
+    if (streamLength === undefined || !doc.source.startsWith("endstream", skipTo(doc.source, start + streamLength))) {
+      const end = doc.source.indexOf("endstream", start);
+      if (end < 0) throw new Error("Unterminated PDF stream");
+      streamLength = end - start;
+      while (streamLength > 0 && "\r\n".includes(doc.source[start + streamLength - 1])) streamLength--;
+    }
+    stream = doc.bytes.subarray(start, start + streamLength);
+  }
+  return { num, gen, value, stream };
+};
+
+const readXref = async (doc: PdfDocument, offset: number, visited: Set<number>): Promise<PdfDict> => {
+  if (visited.has(offset)) throw new Error("Circular PDF cross-reference chain");
+  visited.add(offset);
+
+  const cursor: Cursor = { source: doc.source, pos: offset };
+  skipWhitespace(cursor);
+  let trailer: PdfDict;
+
+  if (doc.source.startsWith("xref", cursor.pos)) {
+    cursor.pos += 4;
+    for (;;) {
+      skipWhitespace(cursor);
+      if (doc.source.startsWith("trailer", cursor.pos)) break;
+      const start = readInteger(cursor);
+      const count = readInteger(cursor);
+      if (start === null || count === null) throw new Error("Invalid PDF cross-reference table");
+      skipWhitespace(cursor);
+      for (let i = 0; i < count; i++) {
+        const line = doc.source.slice(cursor.pos, cursor.pos + 20);
+        const match = /^(\d{10}) (\d{5}) ([nf])/.exec(line);
+        if (!match) throw new Error("Invalid PDF cross-reference entry");
+        if (!doc.xref.has(start + i)) {
+          doc.xref.set(start + i, match[3] === "n" ? { type: "offset", offset: Number(match[1]) } : { type: "free" });
+        }
+        cursor.pos += 20;
+        skipWhitespace(cursor);
+      }
+    }
+    cursor.pos += 7;
+    const value = parseValue(cursor);
+    if (!isDict(value)) throw new Error("Invalid PDF trailer");
+    trailer = value;
+
+    // Hybrid files keep compressed objects in a separate cross-reference stream
+    const { XRefStm } = trailer.entries;
+    if (typeof XRefStm === "number") {
+      await readXref(doc, XRefStm, visited);
+    }
+  } else {
+    const object = readObjectAt(doc, cursor.pos);
+    if (!isDict(object.value) || !isName(object.value.entries.Type, "XRef")) {
+      throw new Error("Invalid PDF cross-reference stream");
+    }
+    trailer = object.value;
+    const data = await decodeStream(object);
+    const widths = (trailer.entries.W as number[]) ?? [];
+    const index = (trailer.entries.Index as number[]) ?? [0, Number(trailer.entries.Size)];
+    const rowLength = widths.reduce((total, width) => total + width, 0);
+    const field = (row: number, column: number, fallback: number) => {
+      if (!widths[column]) return fallback;
+      let start = row * rowLength;
+      for (let i = 0; i < column; i++) start += widths[i];
+      let result = 0;
+      for (let i = 0; i < widths[column]; i++) result = result * 256 + data[start + i];
+      return result;
+    };
+
+    let row = 0;
+    for (let i = 0; i < index.length; i += 2) {
+      for (let j = 0; j < index[i + 1]; j++, row++) {
+        const num = index[i] + j;
+        if (doc.xref.has(num)) continue;
+        const type = field(row, 0, 1);
+        if (type === 1) doc.xref.set(num, { type: "offset", offset: field(row, 1, 0) });
+        else if (type === 2) doc.xref.set(num, { type: "compressed", stream: field(row, 1, 0), index: field(row, 2, 0) });
+        else doc.xref.set(num, { type: "free" });
+      }
+    }
+  }
+
+  const { Prev } = trailer.entries;
+  if (typeof Prev === "number") {
+    await readXref(doc, Prev, visited);
+  }
+  return trailer;
+};
+
+export const loadPdf = async (bytes: Uint8Array): Promise<PdfDocument> => {
+  const source = toBinaryString(bytes);
+  if (!source.slice(0, 1024).includes("%PDF-")) {
+    throw new Error("This file is not a PDF document");
+  }
+
+  const startXrefIndex = source.lastIndexOf("startxref");
+  if (startXrefIndex < 0) throw new Error("PDF cross-reference offset not found");
+  const startXref = readInteger({ source, pos: startXrefIndex + 9 });
+  if (startXref === null) throw new Error("Invalid PDF cross-reference offset");
+
+  const doc: PdfDocument = {
+    bytes,
+    source,
+    trailer: dict({}),
+    startXref,
+    xrefIsStream: !source.startsWith("xref", skipTo(source, startXref)),
+    xref: new Map(),
+    objectStreams: new Map(),
+    size: 0,
+  };
+  doc.trailer = await readXref(doc, startXref, new Set());
+  doc.size = Number(doc.trailer.entries.Size ?? 0);
+  if (doc.trailer.entries.Encrypt) {
+    throw new Error("Encrypted PDF documents are not supported");
+  }
+  return doc;
+};
+
+const loadObjectStream = (doc: PdfDocument, num: number): Promise<Map<number, PdfValue>> => {
+  let pending = doc.objectStreams.get(num);
+  if (!pending) {
+    pending = (async () => {
+      const entry = doc.xref.get(num);
+      if (entry?.type !== "offset") throw new Error(`PDF object stream ${num} not found`);
+      const object = readObjectAt(doc, entry.offset);
+      if (!isDict(object.value)) throw new Error(`Invalid PDF object stream ${num}`);
+      const data = toBinaryString(await decodeStream(object));
+      const count = Number(object.value.entries.N);
+      const first = Number(object.value.entries.First);
+
+      const cursor: Cursor = { source: data, pos: 0 };
+      const offsets: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        offsets.push([readInteger(cursor) ?? 0, readInteger(cursor) ?? 0]);
+      }
+      const objects = new Map<number, PdfValue>();
+      for (const [objectNum, offset] of offsets) {
+        objects.set(objectNum, parseValue({ source: data, pos: first + offset }));
+      }
+      return objects;
+    })();
+    doc.objectStreams.set(num, pending);
+  }
+  return pending;
+};
+
+export const getObject = async (doc: PdfDocument, target: PdfRef): Promise<PdfObject> => {
+  const entry = doc.xref.get(target.num);
+  if (!entry || entry.type === "free") {
+    return { value: null, stream: null };
+  }
+  if (entry.type === "compressed") {
+    return { value: (await loadObjectStream(doc, entry.stream)).get(target.num) ?? null, stream: null };
+  }
+
+  const object = readObjectAt(doc, entry.offset);
+  const length = isDict(object.value) ? object.value.entries.Length : undefined;
+  if (object.stream && isRef(length)) {
+    const resolved = await resolve(doc, length);
+    if (typeof resolved === "number") {
+      return readObjectAt(doc, entry.offset, new Map([[length.num, resolved]]));
+    }
+  }
+  return object;
+};
+
+// Follows an indirect reference; direct values are returned unchanged
+export const resolve = async (doc: PdfDocument, value: PdfValue | undefined): Promise<PdfValue> => {
+  if (value === undefined) return null;
+  return isRef(value) ? (await getObject(doc, value)).value : value;
+};
+
+export const getCatalog = async (doc: PdfDocument): Promise<{ ref: PdfRef; catalog: PdfDict }> => {
+  const root = doc.trailer.entries.Root;
+  const catalog = isRef(root) ? await resolve(doc, root) : null;
+  if (!isRef(root) || !isDict(catalog)) throw new Error("PDF document catalog not found");
+  return { ref: root, catalog };
+};
+
+// Page references in document order, following the page tree
+export const getPages = async (doc: PdfDocument): Promise<{ ref: PdfRef; page: PdfDict }[]> => {
+  const { catalog } = await getCatalog(doc);
+  const pages: { ref: PdfRef; page: PdfDict }[] = [];
+  const visit = async (node: PdfValue, depth: number) => {
+    if (!isRef(node) || depth > 64) return;
+    const value = await resolve(doc, node);
+    if (!isDict(value)) return;
+    if (isName(value.entries.Type, "Page") || !value.entries.Kids) {
+      pages.push({ ref: node, page: value });
+      return;
+    }
+    const kids = await resolve(doc, value.entries.Kids);
+    for (const kid of Array.isArray(kids) ? kids : []) {
+      await visit(kid, depth + 1);
+    }
+  };
+  await visit(catalog.entries.Pages, 0);
+  return pages;
+};
+
+// Visible area of a page, honouring boxes inherited from the page tree
+export const getPageBox = async (doc: PdfDocument, page: PdfDict): Promise<[number, number, number, number]> => {
+  let node: PdfValue = page;
+  for (let depth = 0; isDict(node) && depth < 64; depth++) {
+    const box = await resolve(doc, node.entries.CropBox ?? node.entries.MediaBox);
+    if (Array.isArray(box) && box.length === 4) {
+      const [x1, y1, x2, y2] = box.map(Number);
+      return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+    }
+    node = await resolve(doc, node.entries.Parent);
+  }
+  // US Letter, the default when a PDF omits its page size
+  return [0, 0, 612, 792];
+};
+
+export const allocateObject = (doc: PdfDocument): PdfRef => ref(doc.size++);
+
+// Appends objects as an incremental update, using the same cross-reference format as the original
+export const writeIncrementalUpdate = (doc: PdfDocument, updates: PdfObjectUpdate[]): Uint8Array => {
+  let body = doc.source.endsWith("\n") ? "" : "\n";
+  const offsets = new Map<number, { offset: number; gen: number }>();
+
+  for (const update of updates) {
+    offsets.set(update.ref.num, { offset: doc.bytes.length + body.length, gen: update.ref.gen });
+    let value = update.value;
+    if (update.stream && isDict(value)) {
+      value = dict({ ...value.entries, Length: update.stream.length });
+    }
+    body += `${update.ref.num} ${update.ref.gen} obj\n${serializeValue(value)}\n`;
+    if (update.stream) {
+      body += `stream\n${toBinaryString(update.stream)}\nendstream\n`;
+    }
+    body += "endobj\n";
+  }
+
+  const trailerEntries: Record<string, PdfValue> = { Root: doc.trailer.entries.Root, Prev: doc.startXref };
+  for (const key of ["Info", "ID"]) {
+    if (doc.trailer.entries[key] !== undefined) trailerEntries[key] = doc.trailer.entries[key];
+  }
+
+  const xrefOffset = doc.bytes.length + body.length;
+  let xrefNum: number | null = null;
+  if (doc.xrefIsStream) {
+    xrefNum = doc.size++;
+    offsets.set(xrefNum, { offset: xrefOffset, gen: 0 });
+  }
+
+  // Contiguous runs of object numbers become cross-reference subsections
+  const nums = [...offsets.keys()].sort((a, b) => a - b);
+  const sections: number[][] = [];
+  for (const num of nums) {
+    const last = sections[sections.length - 1];
+    if (last && last[last.length - 1] === num - 1) last.push(num);
+    else sections.push([num]);
+  }
+
+  if (xrefNum === null) {
+    body += "xref\n";
+    for (const section of sections) {
+      body += `${section[0]} ${section.length}\n`;
+      for (const num of section) {
+        const { offset, gen } = offsets.get(num)!;
+        body += `${offset.toString().padStart(10, "0")} ${gen.toString().padStart(5, "0")} n\r\n`;
+      }
+    }
+    body += `trailer\n${serializeValue(dict({ Size: doc.size, ...trailerEntries }))}\n`;
+  } else {
+    const rows = new Uint8Array(nums.length * 7);
+    nums.forEach((num, i) => {
+      const { offset, gen } = offsets.get(num)!;
+      rows.set([1, (offset >>> 24) & 0xff, (offset >>> 16) & 0xff, (offset >>> 8) & 0xff, offset & 0xff, (gen >> 8) & 0xff, gen & 0xff], i * 7);
+    });
+    const xrefDict = dict({
+      Type: name("XRef"),
+      Size: doc.size,
+      W: [1, 4, 2],
+      Index: sections.flatMap((section) => [section[0], section.length]),
+      ...trailerEntries,
+      Length: rows.length,
+    });
+    body += `${xrefNum} 0 obj\n${serializeValue(xrefDict)}\nstream\n${toBinaryString(rows)}\nendstream\nendobj\n`;
+  }
+  body += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  const output = new Uint8Array(doc.bytes.length + body.length);
+  output.set(doc.bytes);
+  output.set(fromBinaryString(body), doc.bytes.length);
+  return output;
+};
+
+// Writes a new single-revision PDF. Objects must be numbered 1..n without gaps.
+export const writePdf = (objects: PdfObjectUpdate[], root: PdfRef, info?: PdfRef): Uint8Array => {
+  const sorted = [...objects].sort((a, b) => a.ref.num - b.ref.num);
+  let body = "%PDF-1.7\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+
+  for (const object of sorted) {
+    offsets.push(body.length);
+    let value = object.value;
+    if (object.stream && isDict(value)) {
+      value = dict({ ...value.entries, Length: object.stream.length });
+    }
+    body += `${object.ref.num} 0 obj\n${serializeValue(value)}\n`;
+    if (object.stream) {
+      body += `stream\n${toBinaryString(object.stream)}\nendstream\n`;
+    }
+    body += "endobj\n";
+  }
+
+  const xrefOffset = body.length;
+  body += `xref\n0 ${sorted.length + 1}\n0000000000 65535 f\r\n`;
+  for (const offset of offsets) {
+    body += `${offset.toString().padStart(10, "0")} 00000 n\r\n`;
+  }
+  const trailer: Record<string, PdfValue> = { Size: sorted.length + 1, Root: root };
+  if (info) trailer.Info = info;
+  body += `trailer\n${serializeValue(dict(trailer))}\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return fromBinaryString(body);
+};
@@ -0,0 +1,130 @@
+// Visible signature stamp for PDF pages.
+// The stamp is drawn as the appearance of the signature field, so it becomes part
+// of the signed revision. `getStampLines` is shared with the on-screen preview so
+// both show the same text.
+
+import { format } from "date-fns";
+import { formatFingerprint } from "@/utils/crypto";
+import { dict, fromBinaryString, name, winAnsiLiteral, type PdfDict } from "@/utils/pdf";
+import { encodeQrCode } from "@/utils/qrcode";
+import { drawingToPdfPath, type HandwrittenSignature } from "@/utils/handwriting";
+
+// Stamp size in PDF points (1/72 inch)
+export const STAMP_WIDTH = 252;
+export const STAMP_HEIGHT = 84;
+// Band above the stamp for a handwritten signature
+export const HANDWRITING_BAND_HEIGHT = 40;
+
+export interface StampDetails {
+  signerName: string;
+  organization: string | null;
+  signedAt: Date;
+  fingerprint: string;
+  verifyUrl: string;
+  handwriting?: HandwrittenSignature | null;
+}
+
+// Top-left corner of the stamp as a fraction of the page size, measured from the top-left
+export interface StampPlacement {
+  pageIndex: number;
+  x: number;
+  y: number;
+}
+
+export interface StampLines {
+  title: string;
+  name: string;
+  organization: string | null;
+  date: string;
+  fingerprint: [string, string];
+}
+
+export const getStampSize = (details: StampDetails) => ({
+  width: STAMP_WIDTH,
+  height: STAMP_HEIGHT + (details.handwriting ? HANDWRITING_BAND_HEIGHT : 0),
+});
+
+export const getStampLines = (details: StampDetails): StampLines => {
+  const groups = formatFingerprint(details.fingerprint).split(" ");
+  return {
+    title: "Digitally signed by",
+    name: details.signerName,
+    organization: details.organization,
+    date: format(details.signedAt, "yyyy-MM-dd HH:mm:ss xxx"),
+    fingerprint: [groups.slice(0, 8).join(" "), groups.slice(8).join(" ")],
+  };
+};
+
+const truncate = (value: string, fontSize: number, maxWidth: number) => {
+  // Helvetica averages about half an em per character
+  const maxChars = Math.floor(maxWidth / (fontSize * 0.5));
+  return value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+};
+
+const round = (value: number) => Number(value.toFixed(3));
+
+// Form XObject contents and resources for the stamp, in a box of `getStampSize(details)`.
+// The handwritten signature, if any, sits in a band above the details.
+export const createStampAppearance = (details: StampDetails): { stream: Uint8Array; resources: PdfDict } => {
+  const lines = getStampLines(details);
+  const { width, height } = getStampSize(details);
+  const padding = 8;
+  const qrSide = STAMP_HEIGHT - padding * 2;
+  const textX = padding * 2 + qrSide;
+  const textWidth = STAMP_WIDTH - textX - padding;
+
+  const operators: string[] = [
+    `q 1 1 1 rg 0 0 ${width} ${height} re f Q`,
+    `q 0.15 0.35 0.75 RG 1 w 0.5 0.5 ${width - 1} ${height - 1} re S Q`,
+  ];
+
+  if (details.handwriting) {
+    operators.push(
+      `q 0.7 0.7 0.7 RG 0.5 w ${padding} ${STAMP_HEIGHT} m ${width - padding} ${STAMP_HEIGHT} l S Q`,
+      drawingToPdfPath(details.handwriting, {
+        x: padding,
+        y: STAMP_HEIGHT + 3,
+        width: width - padding * 2,
+        height: HANDWRITING_BAND_HEIGHT - 6,
+      })
+    );
+  }
+
+  const qr = encodeQrCode(details.verifyUrl);
+  const moduleSize = qrSide / qr.size;
+  const modules: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        const bottom = padding + (qr.size - 1 - y) * moduleSize;
+        modules.push(`${round(padding + x * moduleSize)} ${round(bottom)} ${round(moduleSize)} ${round(moduleSize)} re`);
+      }
+    });
+  });
+  operators.push(`q 0 0 0 rg ${modules.join(" ")} f Q`);
+
+  const text = (font: string, size: number, y: number, value: string) =>
+    `BT /${font} ${size} Tf ${textX} ${y} Td ${winAnsiLiteral(truncate(value, size, textWidth))} Tj ET`;
+  operators.push(
+    "0.3 0.3 0.3 rg",
+    text("F1", 6.5, STAMP_HEIGHT - 14, lines.title),
+    "0 0 0 rg",
+    text("F2", 10, STAMP_HEIGHT - 27, lines.name),
+    ...(lines.organization ? [text("F1", 7.5, STAMP_HEIGHT - 38, lines.organization)] : []),
+    text("F1", 7, STAMP_HEIGHT - 49, lines.date),
+    "0.3 0.3 0.3 rg",
+    text("F1", 5.5, 21, "Key fingerprint"),
+    text("F3", 5, 14, lines.fingerprint[0]),
+    text("F3", 5, 8, lines.fingerprint[1])
+  );
+
+  const font = (baseFont: string) =>
+    dict({ Type: name("Font"), Subtype: name("Type1"), BaseFont: name(baseFont), Encoding: name("WinAnsiEncoding") });
+
+  return {
+    stream: fromBinaryString(operators.join("\n")),
+    resources: dict({
+      Font: dict({ F1: font("Helvetica"), F2: font("Helvetica-Bold"), F3: font("Courier") }),
+    }),
+  };
+};
@@ -0,0 +1,60 @@
+// Verification through a public link, for recipients without an account. The
+// `get_public_verification` RPC returns only the document hash and each signature
+// with its public key and signer name; the file itself never leaves the browser.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  decodeLegacyText,
+  generateHash,
+  isSignatureAlgorithm,
+  LEGACY_ALGORITHM,
+  SIGNATURE_ALGORITHMS,
+  verifySignature,
+} from "@/utils/crypto";
+
+export type PublicSignature = Database["public"]["Functions"]["get_public_verification"]["Returns"][number];
+
+export interface PublicSignatureResult {
+  signerName: string;
+  algorithm: string;
+  valid: boolean;
+}
+
+export interface PublicVerificationResult {
+  hashMatches: boolean;
+  signatures: PublicSignatureResult[];
+}
+
+// An empty list means the document doesn't exist or has no signatures yet
+export const getPublicVerification = async (documentId: string): Promise<PublicSignature[]> => {
+  const { data, error } = await supabase.rpc("get_public_verification", { _document_id: documentId });
+  if (error) throw error;
+  return data || [];
+};
+
+// Checks the file against every signature. Files signed before binary signing was
+// introduced were signed as decoded text, so that rendering is tried as well.
+export const verifyPublicDocument = async (
+  signatures: PublicSignature[],
+  data: ArrayBuffer,
+): Promise<PublicVerificationResult> => {
+  const legacyData = decodeLegacyText(data);
+  const hashes = [await generateHash(data), await generateHash(legacyData)];
+
+  const results = await Promise.all(signatures.map(async (signature) => {
+    const algorithm = isSignatureAlgorithm(signature.algorithm) ? signature.algorithm : LEGACY_ALGORITHM;
+    const valid = await verifySignature(data, signature.signature_data, signature.public_key, algorithm) ||
+      await verifySignature(legacyData, signature.signature_data, signature.public_key, algorithm);
+    return {
+      signerName: signature.signer_name,
+      algorithm: SIGNATURE_ALGORITHMS[algorithm].label,
+      valid,
+    };
+  }));
+
+  return {
+    hashMatches: signatures.some((signature) => hashes.includes(signature.file_hash)),
+    signatures: results,
+  };
+};
@@ -0,0 +1,260 @@
+// Reads a QR code from an image, such as a scanned or downloaded receipt.
+// Finds the three finder patterns, maps the module grid onto the image with the
+// affine transform they define and decodes the sampled grid. Rotation and scale are
+// handled; strong perspective distortion (photos taken at an angle) is not.
+
+import { decodeQrMatrix } from "@/utils/qrcode";
+
+interface ImagePixels {
+  width: number;
+  height: number;
+  // RGBA, as in ImageData
+  data: Uint8ClampedArray;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderPattern extends Point {
+  moduleSize: number;
+  hits: number;
+}
+
+// Images are scaled down to this size before scanning
+const MAX_SCAN_DIMENSION = 2000;
+
+// Otsu's method: the threshold that best separates dark and light pixels
+const getThreshold = (luminance: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  luminance.forEach((value) => histogram[value]++);
+  const total = luminance.length;
+  const sum = histogram.reduce((result, count, value) => result + count * value, 0);
+
+  let best = { variance: -1, threshold: 128 };
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  for (let threshold = 0; threshold < 256; threshold++) {
+    backgroundCount += histogram[threshold];
+    backgroundSum += histogram[threshold] * threshold;
+    const foregroundCount = total - backgroundCount;
+    if (backgroundCount === 0 || foregroundCount === 0) continue;
+    const difference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * difference * difference;
+    if (variance > best.variance) best = { variance, threshold };
+  }
+  return best.threshold;
+};
+
+const binarize = ({ width, height, data }: ImagePixels): Uint8Array => {
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    // Transparent pixels count as white paper
+    const gray = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    luminance[i] = Math.round(gray * alpha + 255 * (1 - alpha));
+  }
+  const threshold = getThreshold(luminance);
+  return luminance.map((value) => (value <= threshold ? 1 : 0));
+};
+
+// Run lengths in the 1:1:3:1:1 ratio of a finder pattern
+const isFinderRatio = (counts: number[]) => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 7 || counts.some((count) => count === 0)) return false;
+  const moduleSize = total / 7;
+  const variance = moduleSize / 2;
+  return Math.abs(moduleSize - counts[0]) < variance &&
+    Math.abs(moduleSize - counts[1]) < variance &&
+    Math.abs(3 * moduleSize - counts[2]) < 3 * variance &&
+    Math.abs(moduleSize - counts[3]) < variance &&
+    Math.abs(moduleSize - counts[4]) < variance;
+};
+
+// Measures the pattern along a line through (x, y), returning the refined center
+// coordinate along that line and the pattern's total length
+const crossCheck = (
+  bits: Uint8Array,
+  length: number,
+  at: (i: number) => number,
+  center: number,
+): { center: number; total: number } | null => {
+  const counts = [0, 0, 0, 0, 0];
+  let i = center;
+  // Walk back from the center through the dark core, the light ring and the dark border
+  for (; i >= 0 && bits[at(i)] === 1; i--) counts[2]++;
+  for (; i >= 0 && bits[at(i)] === 0; i--) counts[1]++;
+  for (; i >= 0 && bits[at(i)] === 1; i--) counts[0]++;
+  i = center + 1;
+  for (; i < length && bits[at(i)] === 1; i++) counts[2]++;
+  for (; i < length && bits[at(i)] === 0; i++) counts[3]++;
+  for (; i < length && bits[at(i)] === 1; i++) counts[4]++;
+  if (!isFinderRatio(counts)) return null;
+  return { center: i - counts[4] - counts[3] - counts[2] / 2, total: counts.reduce((sum, count) => sum + count, 0) };
+};
+
+const findFinderPatterns = (bits: Uint8Array, width: number, height: number): FinderPattern[] => {
+  const patterns: FinderPattern[] = [];
+
+  const addCandidate = (x: number, y: number, moduleSize: number) => {
+    const existing = patterns.find((pattern) =>
+      Math.abs(pattern.x - x) <= pattern.moduleSize * 2 &&
+      Math.abs(pattern.y - y) <= pattern.moduleSize * 2 &&
+      Math.abs(pattern.moduleSize - moduleSize) <= Math.max(1, pattern.moduleSize / 2));
+    if (existing) {
+      const hits = existing.hits + 1;
+      existing.x = (existing.x * existing.hits + x) / hits;
+      existing.y = (existing.y * existing.hits + y) / hits;
+      existing.moduleSize = (existing.moduleSize * existing.hits + moduleSize) / hits;
+      existing.hits = hits;
+    } else {
+      patterns.push({ x, y, moduleSize, hits: 1 });
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    const counts = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x <= width; x++) {
+      const dark = x < width && bits[y * width + x] === 1;
+      // States 0, 2 and 4 count dark runs, 1 and 3 light runs
+      if (dark === (state % 2 === 0)) {
+        counts[state]++;
+        continue;
+      }
+      if (state < 4) {
+        if (state > 0 || counts[0] > 0) state++;
+        if (state > 0) counts[state] = 1;
+        continue;
+      }
+
+      if (isFinderRatio(counts)) {
+        const centerX = Math.round(x - counts[4] - counts[3] - counts[2] / 2);
+        const vertical = crossCheck(bits, height, (i) => i * width + centerX, y);
+        if (vertical) {
+          const centerY = Math.round(vertical.center);
+          const horizontal = crossCheck(bits, width, (i) => centerY * width + i, centerX);
+          if (horizontal) {
+            addCandidate(horizontal.center, vertical.center, (vertical.total + horizontal.total) / 14);
+          }
+        }
+      }
+      // Keep the last dark-light pair and continue looking from there
+      counts.splice(0, 2);
+      counts.push(1, 0);
+      state = 3;
+    }
+  }
+  return patterns;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// The three patterns that best form the corner of a square, ordered top-left,
+// top-right and bottom-left in the code's own orientation
+const selectCorners = (patterns: FinderPattern[]): [FinderPattern, FinderPattern, FinderPattern] | null => {
+  const candidates = [...patterns].sort((a, b) => b.hits - a.hits).slice(0, 8);
+  let best: { score: number; corners: [FinderPattern, FinderPattern, FinderPattern] } | null = null;
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      for (let k = j + 1; k < candidates.length; k++) {
+        const triple = [candidates[i], candidates[j], candidates[k]];
+        const sizes = triple.map((pattern) => pattern.moduleSize);
+        if (Math.max(...sizes) > Math.min(...sizes) * 1.5) continue;
+
+        // The top-left pattern is opposite the longest side
+        const sides = [distance(triple[1], triple[2]), distance(triple[0], triple[2]), distance(triple[0], triple[1])];
+        const corner = sides.indexOf(Math.max(...sides));
+        const topLeft = triple[corner];
+        let [topRight, bottomLeft] = triple.filter((_, index) => index !== corner);
+        if ((topRight.x - topLeft.x) * (bottomLeft.y - topLeft.y) - (topRight.y - topLeft.y) * (bottomLeft.x - topLeft.x) < 0) {
+          [topRight, bottomLeft] = [bottomLeft, topRight];
+        }
+
+        // Equal legs at a right angle
+        const legA = distance(topLeft, topRight);
+        const legB = distance(topLeft, bottomLeft);
+        const hypotenuse = distance(topRight, bottomLeft);
+        const score = Math.abs(legA - legB) / Math.max(legA, legB) +
+          Math.abs(hypotenuse - Math.hypot(legA, legB)) / hypotenuse;
+        if (score < 0.2 && (!best || score < best.score)) {
+          best = { score, corners: [topLeft, topRight, bottomLeft] };
+        }
+      }
+    }
+  }
+  return best?.corners ?? null;
+};
+
+const sampleGrid = (
+  bits: Uint8Array,
+  width: number,
+  height: number,
+  [topLeft, topRight, bottomLeft]: [Point, Point, Point],
+  size: number,
+): boolean[][] => {
+  // Finder centers sit 3.5 modules in from the edges
+  const span = size - 7;
+  const ux = { x: (topRight.x - topLeft.x) / span, y: (topRight.y - topLeft.y) / span };
+  const uy = { x: (bottomLeft.x - topLeft.x) / span, y: (bottomLeft.y - topLeft.y) / span };
+
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => {
+      const u = column - 3;
+      const v = row - 3;
+      const x = Math.round(topLeft.x + u * ux.x + v * uy.x);
+      const y = Math.round(topLeft.y + u * ux.y + v * uy.y);
+      return x >= 0 && x < width && y >= 0 && y < height && bits[y * width + x] === 1;
+    })
+  );
+};
+
+// Decodes the QR code in an image; throws if none can be read
+export const scanQrCode = (image: ImagePixels): string => {
+  const { width, height } = image;
+  const bits = binarize(image);
+  const corners = selectCorners(findFinderPatterns(bits, width, height));
+  if (!corners) {
+    throw new Error("No QR code found in this image");
+  }
+
+  // Estimate the size from the finder spacing; neighbouring sizes are tried as well
+  const [topLeft, topRight, bottomLeft] = corners;
+  const moduleSize = corners.reduce((sum, pattern) => sum + pattern.moduleSize, 0) / 3;
+  const modules = (distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / 2 / moduleSize + 7;
+  const estimate = Math.round((modules - 17) / 4) * 4 + 17;
+
+  let lastError: unknown = null;
+  for (const size of [estimate, estimate - 4, estimate + 4]) {
+    if (size < 21 || size > 177) continue;
+    try {
+      return decodeQrMatrix(sampleGrid(bits, width, height, corners, size));
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("The QR code could not be read");
+};
+
+// Reads a QR code from an image file in the browser
+export const readQrCodeFromImage = async (file: Blob): Promise<string> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error("This file is not an image the browser can read");
+  }
+
+  const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return scanQrCode(context.getImageData(0, 0, canvas.width, canvas.height));
+};
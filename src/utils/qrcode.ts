@@ -0,0 +1,604 @@
+// QR Code (ISO/IEC 18004) encoder for verification links.
+// Byte mode only, which covers URLs and any UTF-8 text. Follows the reference
+// algorithm: pick the smallest version that fits, add Reed-Solomon error
+// correction, place the modules and keep the mask with the lowest penalty.
+// `decodeQrMatrix` reverses this for a module grid sampled from an image.
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+  version: number;
+  size: number;
+  // modules[y][x], true for dark modules
+  modules: boolean[][];
+}
+
+const ECC_ORDER: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by error correction level, then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number, ecc: QrErrorCorrection): number => {
+  const level = ECC_ORDER[ecc];
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  );
+};
+
+// ---- Reed-Solomon over GF(2^8) with the 0x11D polynomial ----
+
+const multiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+const addEccAndInterleave = (data: number[], version: number, ecc: QrErrorCorrection): number[] => {
+  const level = ECC_ORDER[ecc];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    offset += blockData.length;
+    const eccBytes = reedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so all blocks line up while interleaving
+    if (i < numShortBlocks) blockData.push(0);
+    blocks.push(blockData.concat(eccBytes));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+// ---- Module placement ----
+
+interface Matrix {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+const setFunctionModule = (matrix: Matrix, x: number, y: number, dark: boolean) => {
+  matrix.modules[y][x] = dark;
+  matrix.isFunction[y][x] = true;
+};
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 17 - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+const drawFormatBits = (matrix: Matrix, ecc: QrErrorCorrection, mask: number) => {
+  const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const { size } = matrix;
+
+  for (let i = 0; i <= 5; i++) setFunctionModule(matrix, 8, i, getBit(bits, i));
+  setFunctionModule(matrix, 8, 7, getBit(bits, 6));
+  setFunctionModule(matrix, 8, 8, getBit(bits, 7));
+  setFunctionModule(matrix, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunctionModule(matrix, 14 - i, 8, getBit(bits, i));
+
+  for (let i = 0; i < 8; i++) setFunctionModule(matrix, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunctionModule(matrix, 8, size - 15 + i, getBit(bits, i));
+  setFunctionModule(matrix, 8, size - 8, true);
+};
+
+const drawVersion = (matrix: Matrix, version: number) => {
+  if (version < 7) return;
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const a = matrix.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(matrix, a, b, getBit(bits, i));
+    setFunctionModule(matrix, b, a, getBit(bits, i));
+  }
+};
+
+const drawFunctionPatterns = (matrix: Matrix, version: number, ecc: QrErrorCorrection) => {
+  const { size } = matrix;
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(matrix, 6, i, i % 2 === 0);
+    setFunctionModule(matrix, i, 6, i % 2 === 0);
+  }
+
+  for (const [centerX, centerY] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunctionModule(matrix, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  const positions = getAlignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((x, i) => {
+    positions.forEach((y, j) => {
+      // Skip the three corners occupied by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(matrix, x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas; the real bits are drawn once the mask is known
+  drawFormatBits(matrix, ecc, 0);
+  drawVersion(matrix, version);
+};
+
+const drawCodewords = (matrix: Matrix, codewords: number[]) => {
+  const { size, modules, isFunction } = matrix;
+  let bitIndex = 0;
+  // Zigzag through two-module columns from the right, skipping the vertical timing pattern
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Masking is its own inverse, so applying the same mask twice restores the modules
+const applyMask = (matrix: Matrix, mask: number) => {
+  for (let y = 0; y < matrix.size; y++) {
+    for (let x = 0; x < matrix.size; x++) {
+      if (!matrix.isFunction[y][x] && MASKS[mask](x, y)) {
+        matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+    }
+  }
+};
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+const getPenaltyScore = ({ size, modules }: Matrix): number => {
+  let penalty = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map((row) => row[i]));
+  }
+
+  for (const line of lines) {
+    // Runs of five or more modules of the same color
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) penalty += runLength - 2;
+        runLength = 1;
+      }
+    }
+    // Patterns that look like finder patterns
+    for (let i = 0; i + 11 <= line.length; i++) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, j) => line[i + j] === dark))) {
+        penalty += 40;
+      }
+    }
+  }
+
+  // 2x2 blocks of the same color
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Imbalance between dark and light modules
+  const dark = modules.reduce((total, row) => total + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+};
+
+export const encodeQrCode = (text: string, ecc: QrErrorCorrection = "M"): QrCode => {
+  const data = new TextEncoder().encode(text);
+
+  let version = 1;
+  for (; ; version++) {
+    if (version > 40) throw new Error("The text is too long for a QR code");
+    const characterCountBits = version <= 9 ? 8 : 16;
+    if (4 + characterCountBits + data.length * 8 <= getNumDataCodewords(version, ecc) * 8) break;
+  }
+
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  const capacity = getNumDataCodewords(version, ecc) * 8;
+  appendBits(0x4, 4);
+  appendBits(data.length, version <= 9 ? 8 : 16);
+  data.forEach((byte) => appendBits(byte, 8));
+  appendBits(0, Math.min(4, capacity - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) appendBits(pad, 8);
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    dataCodewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const size = version * 4 + 17;
+  const matrix: Matrix = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  drawFunctionPatterns(matrix, version, ecc);
+  drawCodewords(matrix, addEccAndInterleave(dataCodewords, version, ecc));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, ecc, mask);
+    const penalty = getPenaltyScore(matrix);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(matrix, mask);
+  }
+  applyMask(matrix, bestMask);
+  drawFormatBits(matrix, ecc, bestMask);
+
+  return { version, size, modules: matrix.modules };
+};
+
+// SVG path of the dark modules in module units, for a viewBox of "0 0 size size"
+export const toSvgPath = (qr: QrCode): string => {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x} ${y}h1v1h-1z`);
+    });
+  });
+  return parts.join("");
+};
+
+// ---- Decoding ----
+
+const GF_EXP: number[] = [];
+const GF_LOG: number[] = [];
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_LOG[x] = i;
+  x = multiply(x, 0x02);
+}
+
+const gfPow = (exponent: number) => GF_EXP[((exponent % 255) + 255) % 255];
+const gfInverse = (x: number) => GF_EXP[(255 - GF_LOG[x]) % 255];
+
+// Evaluates a polynomial given lowest degree first
+const evaluate = (poly: number[], x: number) =>
+  poly.reduceRight((result, coefficient) => multiply(result, x) ^ coefficient, 0);
+
+// Corrects up to eccLength / 2 byte errors in place; the first byte is the highest degree
+const correctBlock = (block: number[], eccLength: number) => {
+  const syndromes: number[] = [];
+  for (let i = 0; i < eccLength; i++) {
+    const root = gfPow(i);
+    syndromes.push(block.reduce((result, byte) => multiply(result, root) ^ byte, 0));
+  }
+  if (syndromes.every((syndrome) => syndrome === 0)) return;
+
+  // Berlekamp-Massey: the error locator polynomial, lowest degree first
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let n = 0; n < eccLength; n++) {
+    let discrepancy = syndromes[n];
+    for (let i = 1; i <= errors; i++) discrepancy ^= multiply(locator[i] ?? 0, syndromes[n - i]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const factor = multiply(discrepancy, gfInverse(previousDiscrepancy));
+    const next = [...locator];
+    previous.forEach((coefficient, i) => {
+      next[i + shift] = (next[i + shift] ?? 0) ^ multiply(factor, coefficient);
+    });
+    if (2 * errors <= n) {
+      previous = locator;
+      errors = n + 1 - errors;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+
+  // Error evaluator: syndromes times locator, modulo x^eccLength
+  const evaluator = new Array<number>(eccLength).fill(0);
+  locator.forEach((a, i) => {
+    syndromes.forEach((b, j) => {
+      if (i + j < eccLength) evaluator[i + j] ^= multiply(a, b);
+    });
+  });
+  // Formal derivative; odd-degree terms survive in characteristic 2
+  const derivative = locator.slice(1).map((coefficient, i) => (i % 2 === 0 ? coefficient : 0));
+
+  // Chien search and Forney's formula
+  let found = 0;
+  for (let position = 0; position < block.length; position++) {
+    const power = block.length - 1 - position;
+    const inverse = gfPow(-power);
+    if (evaluate(locator, inverse) !== 0) continue;
+    const denominator = evaluate(derivative, inverse);
+    if (denominator === 0) throw new Error("QR code data is too damaged to read");
+    block[position] ^= multiply(gfPow(power), multiply(evaluate(evaluator, inverse), gfInverse(denominator)));
+    found++;
+  }
+  if (found !== errors || 2 * errors > eccLength) {
+    throw new Error("QR code data is too damaged to read");
+  }
+};
+
+const FORMAT_ECC_LEVELS = Object.fromEntries(
+  Object.entries(ECC_FORMAT_BITS).map(([level, bits]) => [bits, level as QrErrorCorrection])
+) as Record<number, QrErrorCorrection>;
+
+// The valid format code closest to what was read, which tolerates up to three bit errors
+const readFormat = (matrix: Matrix): { ecc: QrErrorCorrection; mask: number } => {
+  const { size, modules } = matrix;
+  const bit = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i <= 5; i++) first |= bit(8, i) << i;
+  first |= bit(8, 7) << 6;
+  first |= bit(8, 8) << 7;
+  first |= bit(7, 8) << 8;
+  for (let i = 9; i < 15; i++) first |= bit(14 - i, 8) << i;
+  for (let i = 0; i < 8; i++) second |= bit(size - 1 - i, 8) << i;
+  for (let i = 8; i < 15; i++) second |= bit(8, size - 15 + i) << i;
+
+  let best = { distance: Infinity, data: 0 };
+  for (let data = 0; data < 32; data++) {
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const code = ((data << 10) | remainder) ^ 0x5412;
+    for (const read of [first, second]) {
+      let distance = 0;
+      for (let diff = code ^ read; diff; diff &= diff - 1) distance++;
+      if (distance < best.distance) best = { distance, data };
+    }
+  }
+  if (best.distance > 3) throw new Error("Could not read the QR code format");
+  return { ecc: FORMAT_ECC_LEVELS[best.data >>> 3], mask: best.data & 7 };
+};
+
+const readCodewords = (matrix: Matrix, count: number): number[] => {
+  const { size, modules, isFunction } = matrix;
+  const codewords = new Array<number>(count).fill(0);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < count * 8) {
+          if (modules[y][x]) codewords[bitIndex >>> 3] |= 1 << (7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+  return codewords;
+};
+
+// Undoes addEccAndInterleave and error-corrects each block
+const deinterleaveAndCorrect = (codewords: number[], version: number, ecc: QrErrorCorrection): number[] => {
+  const level = ECC_ORDER[ecc];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = codewords.length;
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const blocks = Array.from({ length: numBlocks }, () => new Array<number>(shortBlockLength + 1).fill(0));
+  let index = 0;
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        block[i] = codewords[index++];
+      }
+    });
+  }
+
+  return blocks.flatMap((block, j) => {
+    if (j < numShortBlocks) block.splice(shortBlockLength - blockEccLength, 1);
+    correctBlock(block, blockEccLength);
+    return block.slice(0, block.length - blockEccLength);
+  });
+};
+
+const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+const parseSegments = (data: number[], version: number): string => {
+  let bitIndex = 0;
+  const readBits = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++, bitIndex++) {
+      value = (value << 1) | ((data[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1);
+    }
+    return value;
+  };
+  const sizeClass = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  const bytes: number[] = [];
+
+  while (bitIndex + 4 <= data.length * 8) {
+    const mode = readBits(4);
+    if (mode === 0x0) break;
+    if (mode === 0x7) {
+      // ECI designators are skipped; the content is read as UTF-8 regardless
+      const first = readBits(8);
+      if ((first & 0xc0) === 0x80) readBits(8);
+      else if ((first & 0xe0) === 0xc0) readBits(16);
+    } else if (mode === 0x4) {
+      const count = readBits([8, 16, 16][sizeClass]);
+      for (let i = 0; i < count; i++) bytes.push(readBits(8));
+    } else if (mode === 0x2) {
+      let count = readBits([9, 11, 13][sizeClass]);
+      for (; count >= 2; count -= 2) {
+        const value = readBits(11);
+        bytes.push(ALPHANUMERIC_CHARSET.charCodeAt(Math.floor(value / 45)), ALPHANUMERIC_CHARSET.charCodeAt(value % 45));
+      }
+      if (count === 1) bytes.push(ALPHANUMERIC_CHARSET.charCodeAt(readBits(6)));
+    } else if (mode === 0x1) {
+      let count = readBits([10, 12, 14][sizeClass]);
+      for (; count > 0; count -= 3) {
+        const digits = Math.min(count, 3);
+        const value = readBits([0, 4, 7, 10][digits]);
+        bytes.push(...Array.from(value.toString().padStart(digits, "0"), (digit) => digit.charCodeAt(0)));
+      }
+    } else {
+      throw new Error("Unsupported QR code content");
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+// Decodes a module grid, modules[y][x] true for dark modules, into its text
+export const decodeQrMatrix = (modules: boolean[][]): string => {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40) {
+    throw new Error("Not a valid QR code size");
+  }
+
+  const matrix: Matrix = {
+    size,
+    modules: modules.map((row) => [...row]),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  const { ecc, mask } = readFormat(matrix);
+
+  // Marks the function modules of matrix, without touching the modules that were read
+  const layout: Matrix = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: matrix.isFunction,
+  };
+  drawFunctionPatterns(layout, version, ecc);
+  applyMask(matrix, mask);
+
+  const codewords = readCodewords(matrix, Math.floor(getNumRawDataModules(version) / 8));
+  return parseSegments(deinterleaveAndCorrect(codewords, version, ecc), version);
+};
@@ -0,0 +1,224 @@
+// Verification receipts: a one-page PDF or PNG issued after signing, with the
+// document hash, signer, signing time, key fingerprint and a QR code. The QR code
+// holds the public verification link with the signature bundle in its fragment,
+// so scanning it opens the document's page and uploading it on the Verify page
+// fills in the signature and public key. Fragments are never sent to the server.
+
+import { format } from "date-fns";
+import { arrayBufferToBase64, base64ToArrayBuffer, formatFingerprint, SIGNATURE_ALGORITHMS } from "@/utils/crypto";
+import { dict, formatPdfDate, fromBinaryString, name, ref, textString, winAnsiLiteral, writePdf } from "@/utils/pdf";
+import { encodeQrCode, type QrCode } from "@/utils/qrcode";
+import { parseSignatureBundle, type SignatureBundle } from "@/utils/signatureBundle";
+
+export type ReceiptFormat = "pdf" | "png";
+
+const RECEIPT_BUNDLE_PARAM = "bundle";
+
+const RECEIPT_TITLE = "Signature Verification Receipt";
+const QR_CAPTION = "Scan to verify. The code also carries the signature and public key.";
+
+const toBase64Url = (text: string) =>
+  arrayBufferToBase64(new TextEncoder().encode(text).buffer)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return new TextDecoder("utf-8", { fatal: true }).decode(
+    base64ToArrayBuffer(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="))
+  );
+};
+
+export const getReceiptQrPayload = (verifyUrl: string, bundle: SignatureBundle) =>
+  `${verifyUrl}#${RECEIPT_BUNDLE_PARAM}=${toBase64Url(JSON.stringify(bundle))}`;
+
+export const parseReceiptQrPayload = (payload: string): { verifyUrl: string; bundle: SignatureBundle } => {
+  const marker = `#${RECEIPT_BUNDLE_PARAM}=`;
+  const index = payload.indexOf(marker);
+  if (index === -1) {
+    throw new Error("This QR code is not from a DigiSigini verification receipt");
+  }
+
+  let contents: string;
+  try {
+    contents = fromBase64Url(payload.slice(index + marker.length).trim());
+  } catch {
+    throw new Error("The signature bundle in this QR code is damaged");
+  }
+  return { verifyUrl: payload.slice(0, index), bundle: parseSignatureBundle(contents) };
+};
+
+export const getReceiptFileName = (fileName: string, receiptFormat: ReceiptFormat) =>
+  `${fileName}.receipt.${receiptFormat}`;
+
+// Label and value rows, shared by both formats
+const getReceiptRows = (bundle: SignatureBundle, verifyUrl: string): { label: string; value: string[]; mono?: boolean }[] => {
+  const fingerprint = formatFingerprint(bundle.keyFingerprint).split(" ");
+  const signer = bundle.signer.name || bundle.signer.email || "Unnamed signer";
+  return [
+    { label: "Document", value: [bundle.fileName] },
+    { label: "Document hash (SHA-256)", value: [bundle.documentHash.slice(0, 32), bundle.documentHash.slice(32)], mono: true },
+    {
+      label: "Signer",
+      value: [bundle.signer.name && bundle.signer.email ? `${signer} <${bundle.signer.email}>` : signer],
+    },
+    { label: "Signed at", value: [format(new Date(bundle.signedAt), "yyyy-MM-dd HH:mm:ss xxx")] },
+    { label: "Algorithm", value: [SIGNATURE_ALGORITHMS[bundle.algorithm].label] },
+    { label: "Key fingerprint", value: [fingerprint.slice(0, 8).join(" "), fingerprint.slice(8).join(" ")], mono: true },
+    { label: "Verify online", value: [verifyUrl] },
+  ];
+};
+
+// Receipts can carry RSA keys and signatures, so the lowest error correction keeps the code small
+const encodeReceiptQr = (bundle: SignatureBundle, verifyUrl: string): QrCode =>
+  encodeQrCode(getReceiptQrPayload(verifyUrl, bundle), "L");
+
+const truncate = (value: string, maxChars: number) =>
+  value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+
+const round = (value: number) => Number(value.toFixed(3));
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const QR_SIDE = 260;
+
+export const createReceiptPdf = (bundle: SignatureBundle, verifyUrl: string): Uint8Array => {
+  const operators: string[] = [];
+  const text = (font: string, size: number, x: number, y: number, value: string) =>
+    operators.push(`BT /${font} ${size} Tf ${x} ${y} Td ${winAnsiLiteral(value)} Tj ET`);
+
+  operators.push(`q 0.15 0.35 0.75 rg ${MARGIN} ${PAGE_HEIGHT - MARGIN - 4} ${PAGE_WIDTH - MARGIN * 2} 4 re f Q`);
+  text("F2", 20, MARGIN, PAGE_HEIGHT - MARGIN - 32, RECEIPT_TITLE);
+  operators.push("0.4 0.4 0.4 rg");
+  text("F1", 9, MARGIN, PAGE_HEIGHT - MARGIN - 48, "Issued by DigiSigini");
+
+  let y = PAGE_HEIGHT - MARGIN - 84;
+  for (const row of getReceiptRows(bundle, verifyUrl)) {
+    operators.push("0.4 0.4 0.4 rg");
+    text("F1", 8, MARGIN, y, row.label.toUpperCase());
+    operators.push("0 0 0 rg");
+    y -= 14;
+    for (const line of row.value) {
+      text(row.mono ? "F3" : "F1", row.mono ? 10 : 11, MARGIN, y, truncate(line, 80));
+      y -= 13;
+    }
+    y -= 10;
+  }
+
+  const qr = encodeReceiptQr(bundle, verifyUrl);
+  const moduleSize = QR_SIDE / qr.size;
+  const left = (PAGE_WIDTH - QR_SIDE) / 2;
+  const bottom = MARGIN + 24;
+  const modules: string[] = [];
+  qr.modules.forEach((row, moduleY) => {
+    row.forEach((dark, moduleX) => {
+      if (dark) {
+        const moduleBottom = bottom + (qr.size - 1 - moduleY) * moduleSize;
+        modules.push(`${round(left + moduleX * moduleSize)} ${round(moduleBottom)} ${round(moduleSize)} ${round(moduleSize)} re`);
+      }
+    });
+  });
+  operators.push(`q 0 0 0 rg ${modules.join(" ")} f Q`, "0.4 0.4 0.4 rg");
+  // Helvetica averages about half an em per character
+  text("F1", 8, round((PAGE_WIDTH - QR_CAPTION.length * 4) / 2), MARGIN + 8, QR_CAPTION);
+
+  const font = (baseFont: string) =>
+    dict({ Type: name("Font"), Subtype: name("Type1"), BaseFont: name(baseFont), Encoding: name("WinAnsiEncoding") });
+
+  return writePdf([
+    { ref: ref(1), value: dict({ Type: name("Catalog"), Pages: ref(2) }) },
+    { ref: ref(2), value: dict({ Type: name("Pages"), Kids: [ref(3)], Count: 1 }) },
+    {
+      ref: ref(3),
+      value: dict({
+        Type: name("Page"),
+        Parent: ref(2),
+        MediaBox: [0, 0, PAGE_WIDTH, PAGE_HEIGHT],
+        Resources: dict({
+          Font: dict({ F1: font("Helvetica"), F2: font("Helvetica-Bold"), F3: font("Courier") }),
+        }),
+        Contents: ref(4),
+      }),
+    },
+    { ref: ref(4), value: dict({}), stream: fromBinaryString(operators.join("\n")) },
+    {
+      ref: ref(5),
+      value: dict({
+        Title: textString(`${RECEIPT_TITLE}: ${bundle.fileName}`),
+        Producer: textString("DigiSigini"),
+        CreationDate: textString(formatPdfDate(new Date())),
+      }),
+    },
+  ], ref(1), ref(5));
+};
+
+// PNG rendering, in pixels
+const PNG_WIDTH = 1000;
+const PNG_PADDING = 64;
+const PNG_QR_SIDE = 640;
+
+export const createReceiptPng = async (bundle: SignatureBundle, verifyUrl: string): Promise<Blob> => {
+  const rows = getReceiptRows(bundle, verifyUrl);
+  const qr = encodeReceiptQr(bundle, verifyUrl);
+  // Whole pixels per module keep the code sharp
+  const moduleSize = Math.max(2, Math.floor(PNG_QR_SIDE / (qr.size + 8)));
+  const qrSide = moduleSize * (qr.size + 8);
+  const rowsHeight = rows.reduce((height, row) => height + 32 + row.value.length * 30 + 16, 0);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = PNG_WIDTH;
+  canvas.height = PNG_PADDING * 2 + 120 + rowsHeight + qrSide + 48;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = "#2659bf";
+  context.fillRect(PNG_PADDING, PNG_PADDING, PNG_WIDTH - PNG_PADDING * 2, 8);
+
+  context.textBaseline = "top";
+  context.fillStyle = "#000000";
+  context.font = "bold 40px Helvetica, Arial, sans-serif";
+  context.fillText(RECEIPT_TITLE, PNG_PADDING, PNG_PADDING + 32);
+  context.fillStyle = "#666666";
+  context.font = "20px Helvetica, Arial, sans-serif";
+  context.fillText("Issued by DigiSigini", PNG_PADDING, PNG_PADDING + 84);
+
+  let y = PNG_PADDING + 140;
+  for (const row of rows) {
+    context.fillStyle = "#666666";
+    context.font = "18px Helvetica, Arial, sans-serif";
+    context.fillText(row.label.toUpperCase(), PNG_PADDING, y);
+    y += 32;
+    context.fillStyle = "#000000";
+    context.font = row.mono ? "22px Courier, monospace" : "24px Helvetica, Arial, sans-serif";
+    for (const line of row.value) {
+      context.fillText(truncate(line, 64), PNG_PADDING, y, PNG_WIDTH - PNG_PADDING * 2);
+      y += 30;
+    }
+    y += 16;
+  }
+
+  // Four modules of quiet zone around the code
+  const qrLeft = Math.round((PNG_WIDTH - qrSide) / 2);
+  context.fillStyle = "#000000";
+  qr.modules.forEach((row, moduleY) => {
+    row.forEach((dark, moduleX) => {
+      if (dark) {
+        context.fillRect(qrLeft + (moduleX + 4) * moduleSize, y + (moduleY + 4) * moduleSize, moduleSize, moduleSize);
+      }
+    });
+  });
+
+  context.fillStyle = "#666666";
+  context.font = "18px Helvetica, Arial, sans-serif";
+  context.textAlign = "center";
+  context.fillText(QR_CAPTION, PNG_WIDTH / 2, y + qrSide + 8);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to render the receipt"))), "image/png");
+  });
+};
@@ -0,0 +1,59 @@
+// Detached signature bundles (.sig.json).
+// A bundle carries everything needed to verify a document without copying the
+// signature and public key by hand.
+
+import { isSignatureAlgorithm, type SignatureAlgorithm } from "@/utils/crypto";
+
+const BUNDLE_FORMAT = "digisigini-signature";
+
+export const SIGNATURE_BUNDLE_EXTENSION = ".sig.json";
+
+export interface SignatureBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  documentId: string;
+  fileName: string;
+  documentHash: string;
+  hashAlgorithm: "SHA-256";
+  algorithm: SignatureAlgorithm;
+  signature: string;
+  publicKey: string;
+  keyFingerprint: string;
+  signer: {
+    id: string;
+    name: string | null;
+    email: string | null;
+  };
+  signedAt: string;
+}
+
+export const createSignatureBundle = (
+  fields: Omit<SignatureBundle, "format" | "version" | "hashAlgorithm">
+): SignatureBundle => ({
+  format: BUNDLE_FORMAT,
+  version: 1,
+  hashAlgorithm: "SHA-256",
+  ...fields,
+});
+
+export const getBundleFileName = (fileName: string) => `${fileName}${SIGNATURE_BUNDLE_EXTENSION}`;
+
+export const parseSignatureBundle = (contents: string): SignatureBundle => {
+  let bundle;
+  try {
+    bundle = JSON.parse(contents);
+  } catch {
+    throw new Error("Signature bundle is not valid JSON");
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT || bundle?.version !== 1) {
+    throw new Error("This file is not a DigiSigini signature bundle");
+  }
+  if (typeof bundle.signature !== "string" || typeof bundle.publicKey !== "string") {
+    throw new Error("Signature bundle is missing the signature or public key");
+  }
+  if (!isSignatureAlgorithm(bundle.algorithm)) {
+    throw new Error(`Unsupported signature algorithm: ${bundle.algorithm}`);
+  }
+  return bundle as SignatureBundle;
+};
@@ -0,0 +1,212 @@
+// Multi-party signing requests (the `document_signers` table).
+// The owner uploads a document and lists signers by email. Signers sign the stored
+// file in order ('sequential') or in any order ('parallel'); the database enforces
+// the order and marks the document signed once everybody has signed. A signer can
+// also decline, which rejects the document, or delegate their place to someone else.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { generateHash, getKeyAlgorithm, signData } from "@/utils/crypto";
+import { registerPublicKey } from "@/utils/keyRegistry";
+import type { StoredKeyPair } from "@/utils/keyStore";
+import { timestampSignature } from "@/utils/timestamp";
+
+export type SigningOrder = Database["public"]["Enums"]["signing_order"];
+export type SignerStatus = Database["public"]["Enums"]["signer_status"];
+export type DocumentSigner = Tables<"document_signers">;
+export type SigningRequest = Tables<"documents"> & { document_signers: DocumentSigner[] };
+
+export const SIGNING_ORDERS: Record<SigningOrder, { label: string; description: string }> = {
+  sequential: {
+    label: "Sequential",
+    description: "Signers sign one after another, in the order listed",
+  },
+  parallel: {
+    label: "Parallel",
+    description: "All signers can sign at the same time, in any order",
+  },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Lower-cased, trimmed signer emails; throws on invalid or repeated addresses
+export const normalizeSignerEmails = (emails: string[]): string[] => {
+  const normalized = emails.map((email) => email.trim().toLowerCase()).filter(Boolean);
+  if (normalized.length === 0) {
+    throw new Error("Add at least one signer");
+  }
+  for (const email of normalized) {
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new Error(`"${email}" is not a valid email address`);
+    }
+  }
+  if (new Set(normalized).size !== normalized.length) {
+    throw new Error("Each signer can only be listed once");
+  }
+  return normalized;
+};
+
+export const sortSigners = (signers: DocumentSigner[]) =>
+  [...signers].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+
+// Signers still part of the request; delegated signers have been replaced by their delegate
+export const getActiveSigners = (request: SigningRequest) =>
+  sortSigners(request.document_signers).filter((signer) => signer.status !== "delegated");
+
+export const getSignedCount = (request: SigningRequest) =>
+  request.document_signers.filter((signer) => signer.status === "signed").length;
+
+// The user's own pending entry on a request, if any
+export const findPendingSigner = (request: SigningRequest, email: string | undefined) =>
+  request.document_signers.find((signer) => signer.email === email?.toLowerCase() && signer.status === "pending") ?? null;
+
+// Whether the signer can sign now: parallel signers always can, sequential ones
+// once everybody before them has signed
+export const isSignersTurn = (request: SigningRequest, signer: DocumentSigner) =>
+  request.status === "pending" &&
+  signer.status === "pending" &&
+  (request.signing_order !== "sequential" ||
+    request.document_signers.every((other) => other.status !== "pending" || other.position >= signer.position));
+
+// Signers who can sign now
+export const getCurrentSigners = (request: SigningRequest) =>
+  sortSigners(request.document_signers).filter((signer) => isSignersTurn(request, signer));
+
+export const createSigningRequest = async ({
+  userId,
+  file,
+  signers,
+  order,
+}: {
+  userId: string;
+  file: File;
+  signers: string[];
+  order: SigningOrder;
+}): Promise<SigningRequest> => {
+  const emails = normalizeSignerEmails(signers);
+  const data = await file.arrayBuffer();
+
+  const fileExt = file.name.split(".").pop();
+  const filePath = `${userId}/${Date.now()}.${fileExt}`;
+  const { error: uploadError } = await supabase.storage
+    .from("documents")
+    .upload(filePath, file);
+
+  if (uploadError) throw uploadError;
+
+  const { data: document, error: docError } = await supabase
+    .from("documents")
+    .insert({
+      user_id: userId,
+      file_name: file.name,
+      file_path: filePath,
+      file_hash: await generateHash(data),
+      status: "pending",
+      signing_order: order,
+    })
+    .select()
+    .single();
+
+  if (docError) throw docError;
+
+  const { data: documentSigners, error: signersError } = await supabase
+    .from("document_signers")
+    .insert(emails.map((email, index) => ({
+      document_id: document.id,
+      email,
+      position: order === "sequential" ? index + 1 : 1,
+    })))
+    .select();
+
+  if (signersError) throw signersError;
+  return { ...document, document_signers: documentSigners };
+};
+
+// Requests the user sent, newest first
+export const listSentRequests = async (userId: string): Promise<SigningRequest[]> => {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("*, document_signers (*)")
+    .eq("user_id", userId)
+    .not("signing_order", "is", null)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Requests that list the user's email as a signer, newest first
+export const listReceivedRequests = async (email: string): Promise<SigningRequest[]> => {
+  const { data, error } = await supabase
+    .from("document_signers")
+    .select("documents (*, document_signers (*))")
+    .eq("email", email.toLowerCase())
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).flatMap((row) => (row.documents ? [row.documents] : []));
+};
+
+// Downloads the requested file, checks it is the one the owner uploaded and signs it.
+// The signature's insert trigger records the signer and completes the document.
+export const signRequest = async (request: SigningRequest, userId: string, keys: StoredKeyPair) => {
+  const { data: file, error: downloadError } = await supabase.storage
+    .from("documents")
+    .download(request.file_path);
+
+  if (downloadError) throw downloadError;
+
+  const data = await file.arrayBuffer();
+  const fileHash = await generateHash(data);
+  if (fileHash !== request.file_hash) {
+    throw new Error("The stored file does not match the requested document");
+  }
+
+  const algorithm = getKeyAlgorithm(keys.privateKey);
+  const keyRecord = await registerPublicKey(userId, keys);
+  if (keyRecord.revoked_at || keyRecord.retired_at) {
+    throw new Error(`Key version ${keyRecord.version} can no longer be used. Rotate your keys before signing.`);
+  }
+
+  const signatureData = await signData(data, keys.privateKey);
+  const timestamp = await timestampSignature(signatureData);
+  const { data: signature, error } = await supabase
+    .from("signatures")
+    .insert({
+      document_id: request.id,
+      user_id: userId,
+      signature_data: signatureData,
+      signature_hash: fileHash,
+      public_key_id: keyRecord.id,
+      algorithm,
+      timestamp_token: timestamp.token,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { signature, keyRecord, timestampError: timestamp.error };
+};
+
+// Declining rejects the whole document; the reason is shown to the owner
+export const declineRequest = async (documentId: string, reason: string) => {
+  if (!reason.trim()) {
+    throw new Error("Please give a reason for declining");
+  }
+  const { error } = await supabase.rpc("decline_signing_request", {
+    _document_id: documentId,
+    _reason: reason.trim(),
+  });
+  if (error) throw error;
+};
+
+// The delegate takes over the signer's position in the signing order
+export const delegateRequest = async (documentId: string, email: string) => {
+  const [delegate] = normalizeSignerEmails([email]);
+  const { error } = await supabase.rpc("delegate_signing_request", {
+    _document_id: documentId,
+    _email: delegate,
+  });
+  if (error) throw error;
+  return delegate;
+};
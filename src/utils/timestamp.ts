@@ -0,0 +1,215 @@
+// RFC 3161 trusted timestamps for signature values.
+// At signing time the SHA-256 of the signature value is sent to a timestamp
+// authority (TSA), which returns a token: a CMS SignedData over a TSTInfo that
+// binds the hash to the TSA's clock. The token is stored with the signature and
+// proves the signature existed at that time, independently of our database.
+// The TSA is configured with VITE_TSA_URL; `npm run tsa:local` starts a stand-in.
+// Tokens are only trusted if the TSA certificate is, or was issued by, the
+// certificate in VITE_TSA_TRUST_ANCHOR; anyone can mint a token from their own key.
+
+import { TAG, boolean, decode, decodeIntegerBytes, decodeOid, decodeTime, integer, integerFromBytes, nullValue, octetString, oid, sequence } from "@/utils/asn1";
+import { arrayBufferToBase64, base64ToArrayBuffer, digestBytes } from "@/utils/crypto";
+import { parseCmsSignature, verifyCmsSignature } from "@/utils/cms";
+import { OID, isIssuedBy, parseCertificate, type ParsedCertificate } from "@/utils/x509";
+
+const OID_SIGNED_DATA = "1.2.840.113549.1.7.2";
+const OID_TST_INFO = "1.2.840.113549.1.9.16.1.4";
+
+const HASH_ALGORITHMS: Record<string, "SHA-256" | "SHA-384" | "SHA-512"> = {
+  [OID.sha256]: "SHA-256",
+  [OID.sha384]: "SHA-384",
+  [OID.sha512]: "SHA-512",
+};
+
+export const TSA_URL: string | undefined = import.meta.env.VITE_TSA_URL || undefined;
+// The TSA certificate, or the CA certificate that issued it, as PEM or base64 DER
+export const TSA_TRUST_ANCHOR: string | undefined = import.meta.env.VITE_TSA_TRUST_ANCHOR || undefined;
+
+export interface TimestampInfo {
+  genTime: Date;
+  policy: string;
+  // Hex
+  serialNumber: string;
+  nonce: string | null;
+  // Subject of the TSA certificate, as claimed
+  tsaName: string;
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  // Valid and from the trusted TSA, so genTime can stand in for the signing time
+  trusted: boolean;
+  info: TimestampInfo | null;
+  // Why the token is invalid, or valid but not trusted
+  error: string | null;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const signatureBytes = (signature: string) => new Uint8Array(base64ToArrayBuffer(signature));
+
+// TimeStampReq for the SHA-256 of the data, asking for the TSA certificate in the token
+export const createTimestampRequest = async (data: Uint8Array, nonce: Uint8Array): Promise<Uint8Array> =>
+  sequence(
+    integer(1),
+    sequence(sequence(oid(OID.sha256), nullValue()), octetString(await digestBytes(data))),
+    integerFromBytes(nonce),
+    boolean(true)
+  );
+
+const parseTimestampToken = (token: Uint8Array) => {
+  const contentInfo = decode(token);
+  if (contentInfo.tag !== TAG.SEQUENCE || decodeOid(contentInfo.children[0]) !== OID_SIGNED_DATA) {
+    throw new Error("The timestamp token is not a CMS SignedData");
+  }
+
+  const encapsulated = contentInfo.children[1].children[0].children[2];
+  if (decodeOid(encapsulated.children[0]) !== OID_TST_INFO) {
+    throw new Error("The timestamp token does not contain a TSTInfo");
+  }
+  const tstInfoBytes = encapsulated.children[1].children[0].value;
+  const tstInfo = decode(tstInfoBytes);
+  const [, policy, messageImprint, serialNumber, genTime, ...optional] = tstInfo.children;
+  const nonce = optional.find((field) => field.tag === TAG.INTEGER);
+
+  const cms = parseCmsSignature(token);
+  const subject = cms.certificate.subject;
+  return {
+    cms,
+    tstInfoBytes,
+    hashAlgorithm: HASH_ALGORITHMS[decodeOid(messageImprint.children[0].children[0])],
+    hashedMessage: messageImprint.children[1].value,
+    info: {
+      genTime: decodeTime(genTime),
+      policy: decodeOid(policy),
+      serialNumber: toHex(decodeIntegerBytes(serialNumber)),
+      nonce: nonce ? toHex(decodeIntegerBytes(nonce)) : null,
+      tsaName: [subject.commonName, subject.organization].filter(Boolean).join(", ") || "Unnamed timestamp authority",
+    } satisfies TimestampInfo,
+  };
+};
+
+const parseTrustAnchor = (anchor: string): ParsedCertificate =>
+  parseCertificate(new Uint8Array(base64ToArrayBuffer(anchor.replace(/-----(BEGIN|END) [^-]+-----/g, "").replace(/\s+/g, ""))));
+
+// Why the TSA certificate can't be trusted at `genTime`, or null if it can
+const checkTsaTrust = async (
+  certificate: ParsedCertificate,
+  genTime: Date,
+  trustAnchor: string | undefined
+): Promise<string | null> => {
+  if (!trustAnchor) {
+    return "No trusted timestamp authority is configured";
+  }
+
+  let anchor: ParsedCertificate;
+  try {
+    anchor = parseTrustAnchor(trustAnchor);
+  } catch {
+    return "The configured TSA trust anchor is not a valid certificate";
+  }
+
+  if (equalBytes(certificate.bytes, anchor.bytes)) return null;
+  if (!await isIssuedBy(certificate, anchor)) {
+    return "The timestamp was not issued by the trusted timestamp authority";
+  }
+  if (genTime < anchor.notBefore || genTime > anchor.notAfter) {
+    return "The timestamp was issued outside the trust anchor's validity";
+  }
+  return null;
+};
+
+// Checks that the token covers this signature value, that the TSA's signature over
+// it is valid, and whether the TSA is the trusted one
+export const verifyTimestampToken = async (
+  token: string,
+  signature: string,
+  trustAnchor = TSA_TRUST_ANCHOR
+): Promise<TimestampVerification> => {
+  let parsed: ReturnType<typeof parseTimestampToken>;
+  try {
+    parsed = parseTimestampToken(signatureBytes(token));
+  } catch (error) {
+    return { valid: false, trusted: false, info: null, error: error instanceof Error ? error.message : "Unreadable timestamp token" };
+  }
+
+  const { cms, tstInfoBytes, hashAlgorithm, hashedMessage, info } = parsed;
+  const invalid = (error: string): TimestampVerification => ({ valid: false, trusted: false, info, error });
+  if (!hashAlgorithm) {
+    return invalid("The timestamp uses an unsupported hash algorithm");
+  }
+  if (!equalBytes(hashedMessage, await digestBytes(signatureBytes(signature), hashAlgorithm))) {
+    return invalid("The timestamp was issued for a different signature");
+  }
+  if (!await verifyCmsSignature(tstInfoBytes, cms)) {
+    return invalid("The timestamp authority's signature is invalid");
+  }
+  if (info.genTime < cms.certificate.notBefore || info.genTime > cms.certificate.notAfter) {
+    return invalid("The timestamp was issued outside the TSA certificate's validity");
+  }
+  if (!cms.certificate.extendedKeyUsage.includes(OID.timeStamping)) {
+    return invalid("The TSA certificate is not issued for timestamping");
+  }
+
+  const trustError = await checkTsaTrust(cms.certificate, info.genTime, trustAnchor);
+  return { valid: true, trusted: !trustError, info, error: trustError };
+};
+
+const PKI_STATUS = ["granted", "granted with modifications", "rejected", "waiting", "revocation warning", "revocation notification"];
+
+// Requests a token for the signature value and checks it before returning it as base64
+export const requestTimestamp = async (signature: string, tsaUrl = TSA_URL): Promise<string> => {
+  if (!tsaUrl) {
+    throw new Error("No timestamp authority is configured");
+  }
+
+  // A positive nonce without a leading zero byte encodes as exactly these bytes
+  const nonce = crypto.getRandomValues(new Uint8Array(8));
+  nonce[0] = (nonce[0] & 0x7f) | 0x40;
+  const body = await createTimestampRequest(signatureBytes(signature), nonce);
+  let response: Response;
+  try {
+    response = await fetch(tsaUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/timestamp-query" },
+      body,
+    });
+  } catch {
+    throw new Error("The timestamp authority could not be reached");
+  }
+  if (!response.ok) {
+    throw new Error(`The timestamp authority responded with HTTP ${response.status}`);
+  }
+
+  const timestampResponse = decode(new Uint8Array(await response.arrayBuffer()));
+  const [status, token] = timestampResponse.children;
+  const statusCode = status.children[0].value[0];
+  if (statusCode > 1 || !token) {
+    throw new Error(`The timestamp authority did not grant the request (${PKI_STATUS[statusCode] ?? `status ${statusCode}`})`);
+  }
+
+  const encoded = arrayBufferToBase64(token.bytes.slice().buffer);
+  // A token nobody will trust is not worth storing
+  const verification = await verifyTimestampToken(encoded, signature);
+  if (!verification.trusted) {
+    throw new Error(verification.error ?? "The timestamp token is invalid");
+  }
+  if (verification.info?.nonce !== toHex(nonce)) {
+    throw new Error("The timestamp response does not answer this request");
+  }
+  return encoded;
+};
+
+// Timestamps a signature when a TSA is configured. Signing goes ahead without a
+// timestamp if the TSA fails; the error is returned for the caller to report.
+export const timestampSignature = async (signature: string): Promise<{ token: string | null; error: string | null }> => {
+  if (!TSA_URL) return { token: null, error: null };
+  try {
+    return { token: await requestTimestamp(signature), error: null };
+  } catch (error) {
+    console.error("Error requesting timestamp:", error);
+    return { token: null, error: error instanceof Error ? error.message : "Timestamp request failed" };
+  }
+};
@@ -0,0 +1,8 @@
+// Links to a document's verification page, as encoded in stamps and QR codes.
+// The public /v/:documentId page works without an account; /verify?document=<id>
+// links from older stamps still prefill the signed-in verification page.
+export const VERIFY_DOCUMENT_PARAM = "document";
+export const PUBLIC_VERIFY_PATH = "/v";
+
+export const getVerifyUrl = (documentId: string) =>
+  `${window.location.origin}${PUBLIC_VERIFY_PATH}/${encodeURIComponent(documentId)}`;
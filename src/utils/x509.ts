@@ -0,0 +1,286 @@
+// Self-signed X.509 certificates for signing keys.
+// CMS and PDF signature validators expect the signer's key inside a certificate,
+// so one is minted from the signer's profile and signed with their own key.
+
+import {
+  type Asn1Node,
+  TAG,
+  bitString,
+  boolean,
+  decode,
+  decodeIntegerBytes,
+  decodeOid,
+  decodeString,
+  decodeTime,
+  explicit,
+  ia5String,
+  integer,
+  integerFromBytes,
+  nullValue,
+  octetString,
+  oid,
+  sequence,
+  set,
+  time,
+  utf8String,
+} from "@/utils/asn1";
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  digestBytes,
+  signData,
+  verifySignature,
+  type SignatureAlgorithm,
+} from "@/utils/crypto";
+
+export const OID = {
+  sha256: "2.16.840.1.101.3.4.2.1",
+  sha384: "2.16.840.1.101.3.4.2.2",
+  sha512: "2.16.840.1.101.3.4.2.3",
+  rsaEncryption: "1.2.840.113549.1.1.1",
+  sha256WithRSAEncryption: "1.2.840.113549.1.1.11",
+  rsassaPss: "1.2.840.113549.1.1.10",
+  mgf1: "1.2.840.113549.1.1.8",
+  ecPublicKey: "1.2.840.10045.2.1",
+  ecdsaWithSHA256: "1.2.840.10045.4.3.2",
+  ecdsaWithSHA384: "1.2.840.10045.4.3.3",
+  p256: "1.2.840.10045.3.1.7",
+  p384: "1.3.132.0.34",
+  ed25519: "1.3.101.112",
+  commonName: "2.5.4.3",
+  organization: "2.5.4.10",
+  emailAddress: "1.2.840.113549.1.9.1",
+  subjectKeyIdentifier: "2.5.29.14",
+  keyUsage: "2.5.29.15",
+  basicConstraints: "2.5.29.19",
+  extKeyUsage: "2.5.29.37",
+  timeStamping: "1.3.6.1.5.5.7.3.8",
+} as const;
+
+export interface CertificateSubject {
+  commonName: string;
+  organization?: string | null;
+  email?: string | null;
+}
+
+export interface ParsedCertificate {
+  bytes: Uint8Array;
+  // DER encodings, as needed for a CMS issuerAndSerialNumber
+  serialNumber: Uint8Array;
+  issuer: Uint8Array;
+  subject: CertificateSubject;
+  notBefore: Date;
+  notAfter: Date;
+  // Base64 SPKI, the same format as the rest of the app uses for public keys
+  publicKey: string;
+  // DER, to compare with the issuer of certificates this one signed
+  subjectName: Uint8Array;
+  // Extended key usage OIDs; empty when the extension is absent
+  extendedKeyUsage: string[];
+  // The signed part and the issuer's signature over it
+  tbsCertificate: Uint8Array;
+  signatureAlgorithm: Asn1Node;
+  signatureValue: Uint8Array;
+}
+
+const ECDSA_SIZES: Partial<Record<SignatureAlgorithm, number>> = {
+  "ECDSA-P256": 32,
+  "ECDSA-P384": 48,
+};
+
+export const getDigestAlgorithm = (algorithm: SignatureAlgorithm): "SHA-256" | "SHA-384" | "SHA-512" => {
+  if (algorithm === "ECDSA-P384") return "SHA-384";
+  if (algorithm === "Ed25519") return "SHA-512";
+  return "SHA-256";
+};
+
+export const digestAlgorithmIdentifier = (algorithm: SignatureAlgorithm): Uint8Array => {
+  const digest = getDigestAlgorithm(algorithm);
+  return sequence(oid(digest === "SHA-384" ? OID.sha384 : digest === "SHA-512" ? OID.sha512 : OID.sha256));
+};
+
+export const signatureAlgorithmIdentifier = (algorithm: SignatureAlgorithm): Uint8Array => {
+  switch (algorithm) {
+    case "RSASSA-PKCS1-v1_5":
+      return sequence(oid(OID.sha256WithRSAEncryption), nullValue());
+    case "RSA-PSS": {
+      const sha256 = sequence(oid(OID.sha256), nullValue());
+      return sequence(
+        oid(OID.rsassaPss),
+        sequence(
+          explicit(0, sha256),
+          explicit(1, sequence(oid(OID.mgf1), sha256)),
+          explicit(2, integer(32))
+        )
+      );
+    }
+    case "ECDSA-P256":
+      return sequence(oid(OID.ecdsaWithSHA256));
+    case "ECDSA-P384":
+      return sequence(oid(OID.ecdsaWithSHA384));
+    case "Ed25519":
+      return sequence(oid(OID.ed25519));
+  }
+};
+
+// WebCrypto produces ECDSA signatures as r || s, while X.509 and CMS use DER
+export const toDerSignature = (algorithm: SignatureAlgorithm, signature: Uint8Array): Uint8Array => {
+  const size = ECDSA_SIZES[algorithm];
+  if (!size) return signature;
+  return sequence(integerFromBytes(signature.slice(0, size)), integerFromBytes(signature.slice(size)));
+};
+
+export const fromDerSignature = (algorithm: SignatureAlgorithm, signature: Uint8Array): Uint8Array => {
+  const size = ECDSA_SIZES[algorithm];
+  if (!size) return signature;
+
+  const [r, s] = decode(signature).children.map(decodeIntegerBytes);
+  const raw = new Uint8Array(size * 2);
+  raw.set(r, size - r.length);
+  raw.set(s, size * 2 - s.length);
+  return raw;
+};
+
+const encodeName = (subject: CertificateSubject): Uint8Array => {
+  const attributes = [sequence(oid(OID.commonName), utf8String(subject.commonName))];
+  if (subject.organization) {
+    attributes.push(sequence(oid(OID.organization), utf8String(subject.organization)));
+  }
+  if (subject.email) {
+    attributes.push(sequence(oid(OID.emailAddress), ia5String(subject.email)));
+  }
+  return sequence(...attributes.map((attribute) => set(attribute)));
+};
+
+const decodeName = (node: Asn1Node): CertificateSubject => {
+  const subject: CertificateSubject = { commonName: "" };
+  for (const rdn of node.children) {
+    for (const attribute of rdn.children) {
+      const [type, value] = attribute.children;
+      const text = decodeString(value);
+      switch (decodeOid(type)) {
+        case OID.commonName:
+          subject.commonName = text;
+          break;
+        case OID.organization:
+          subject.organization = text;
+          break;
+        case OID.emailAddress:
+          subject.email = text;
+          break;
+      }
+    }
+  }
+  return subject;
+};
+
+export const createSelfSignedCertificate = async (
+  privateKey: CryptoKey,
+  publicKey: string,
+  algorithm: SignatureAlgorithm,
+  subject: CertificateSubject,
+  validityDays = 365
+): Promise<Uint8Array> => {
+  const spki = new Uint8Array(base64ToArrayBuffer(publicKey));
+  const serialNumber = crypto.getRandomValues(new Uint8Array(16));
+  serialNumber[0] &= 0x7f;
+  const keyIdentifier = (await digestBytes(spki)).slice(0, 20);
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore.getTime() + validityDays * 24 * 60 * 60 * 1000);
+  const name = encodeName(subject);
+  const signatureAlgorithm = signatureAlgorithmIdentifier(algorithm);
+
+  const extensions = sequence(
+    sequence(oid(OID.basicConstraints), boolean(true), octetString(sequence())),
+    // digitalSignature and nonRepudiation
+    sequence(oid(OID.keyUsage), boolean(true), octetString(bitString(new Uint8Array([0xc0])))),
+    sequence(oid(OID.subjectKeyIdentifier), octetString(octetString(keyIdentifier)))
+  );
+
+  const tbsCertificate = sequence(
+    explicit(0, integer(2)),
+    integerFromBytes(serialNumber),
+    signatureAlgorithm,
+    name,
+    sequence(time(notBefore), time(notAfter)),
+    name,
+    spki,
+    explicit(3, extensions)
+  );
+
+  const signature = new Uint8Array(base64ToArrayBuffer(await signData(tbsCertificate, privateKey)));
+  return sequence(tbsCertificate, signatureAlgorithm, bitString(toDerSignature(algorithm, signature)));
+};
+
+export const parseCertificate = (bytes: Uint8Array): ParsedCertificate => {
+  const certificate = decode(bytes);
+  const tbs = certificate.children[0];
+  if (certificate.tag !== TAG.SEQUENCE || tbs?.tag !== TAG.SEQUENCE) {
+    throw new Error("Invalid X.509 certificate");
+  }
+
+  // The version field is optional; skip it when present
+  const fields = tbs.children[0].tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [serial, , issuer, validity, subject, spki] = fields;
+
+  // Extensions are the explicit [3] field, each an OID, an optional critical flag and the DER value
+  const extensions = fields.find((field) => field.tag === 0xa3)?.children[0]?.children ?? [];
+  const extendedKeyUsage = extensions.find((extension) => decodeOid(extension.children[0]) === OID.extKeyUsage);
+
+  return {
+    bytes: certificate.bytes,
+    serialNumber: serial.bytes,
+    issuer: issuer.bytes,
+    subject: decodeName(subject),
+    notBefore: decodeTime(validity.children[0]),
+    notAfter: decodeTime(validity.children[1]),
+    publicKey: arrayBufferToBase64(spki.bytes.slice().buffer),
+    subjectName: subject.bytes,
+    extendedKeyUsage: extendedKeyUsage
+      ? decode(extendedKeyUsage.children[extendedKeyUsage.children.length - 1].value).children.map(decodeOid)
+      : [],
+    tbsCertificate: tbs.bytes,
+    signatureAlgorithm: certificate.children[1],
+    // Skip the BIT STRING's unused-bits byte
+    signatureValue: certificate.children[2].value.subarray(1),
+  };
+};
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// Whether `issuer` signed `certificate`. Only the name and signature are checked,
+// not validity periods or CA constraints.
+export const isIssuedBy = async (certificate: ParsedCertificate, issuer: ParsedCertificate): Promise<boolean> => {
+  if (!equalBytes(certificate.issuer, issuer.subjectName)) return false;
+  try {
+    const algorithm = resolveSignatureAlgorithm(issuer.publicKey, certificate.signatureAlgorithm);
+    const signature = fromDerSignature(algorithm, certificate.signatureValue);
+    return await verifySignature(certificate.tbsCertificate, arrayBufferToBase64(signature.slice().buffer), issuer.publicKey, algorithm);
+  } catch {
+    return false;
+  }
+};
+
+// Which of our algorithms a certificate key and signature algorithm OID correspond to
+export const resolveSignatureAlgorithm = (publicKey: string, signatureAlgorithm: Asn1Node): SignatureAlgorithm => {
+  const algorithmOid = decodeOid(signatureAlgorithm.children[0]);
+  const keyAlgorithm = decode(new Uint8Array(base64ToArrayBuffer(publicKey))).children[0];
+  const curve = keyAlgorithm.children[1]?.tag === TAG.OID ? decodeOid(keyAlgorithm.children[1]) : null;
+
+  switch (algorithmOid) {
+    case OID.rsaEncryption:
+    case OID.sha256WithRSAEncryption:
+      return "RSASSA-PKCS1-v1_5";
+    case OID.rsassaPss:
+      return "RSA-PSS";
+    case OID.ecdsaWithSHA256:
+      if (curve === OID.p256) return "ECDSA-P256";
+      break;
+    case OID.ecdsaWithSHA384:
+      if (curve === OID.p384) return "ECDSA-P384";
+      break;
+    case OID.ed25519:
+      return "Ed25519";
+  }
+  throw new Error(`Unsupported signature algorithm ${algorithmOid}`);
+};
@@ -0,0 +1,106 @@
+// Records audit events that only the browser knows about: verification attempts
+// and downloads. Changes to documents, signatures, keys and profiles are audited
+// by database triggers, so only the actions below are accepted here. The user
+// comes from the caller's session and the IP address and user agent from the
+// request itself, never from the payload.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const CLIENT_ACTIONS: Record<string, string> = {
+  signature_verified: "document",
+  document_downloaded: "document",
+};
+
+const MAX_METADATA_LENGTH = 4096;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Only the gateway's header is trusted: Cloudflare, in front of hosted Supabase, sets
+// cf-connecting-ip and replaces any value the client sent. X-Real-IP and
+// X-Forwarded-For can come from the client. Matches public.request_client_info().
+const CLIENT_IP_HEADER = "cf-connecting-ip";
+
+const getClientIp = (req: Request) => req.headers.get(CLIENT_IP_HEADER)?.trim() || null;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  let body: { action?: unknown; resource_id?: unknown; metadata?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "The request body must be JSON" }, 400);
+  }
+
+  const { action, resource_id: resourceId = null, metadata = null } = body;
+  if (typeof action !== "string" || !(action in CLIENT_ACTIONS)) {
+    return json({ error: "This action cannot be recorded by clients" }, 400);
+  }
+  if (resourceId !== null && (typeof resourceId !== "string" || !UUID_PATTERN.test(resourceId))) {
+    return json({ error: "Invalid resource id" }, 400);
+  }
+  if (metadata !== null && (typeof metadata !== "object" || Array.isArray(metadata))) {
+    return json({ error: "Metadata must be an object" }, 400);
+  }
+  if (JSON.stringify(metadata).length > MAX_METADATA_LENGTH) {
+    return json({ error: "Metadata is too large" }, 400);
+  }
+
+  // Events can only be recorded against documents the caller can see
+  if (resourceId !== null) {
+    const { data: document, error: documentError } = await userClient
+      .from("documents")
+      .select("id")
+      .eq("id", resourceId)
+      .maybeSingle();
+    if (documentError || !document) {
+      return json({ error: "Document not found" }, 404);
+    }
+  }
+
+  const serviceClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { error } = await serviceClient.from("audit_logs").insert({
+    user_id: user.id,
+    action,
+    resource_type: CLIENT_ACTIONS[action],
+    resource_id: resourceId,
+    ip_address: getClientIp(req),
+    user_agent: req.headers.get("user-agent"),
+    metadata,
+  });
+
+  if (error) {
+    console.error("Error recording audit event:", error);
+    return json({ error: "Failed to record the audit event" }, 500);
+  }
+  return json({ success: true });
+});
@@ -0,0 +1,143 @@
+// Registers a public key for the signed-in user. The caller must sign a challenge
+// naming their user id and the key with the matching private key, so nobody can
+// claim a key they don't hold, e.g. one copied from somebody else's signature.
+// The database derives the fingerprint, assigns the version and retires the
+// user's previous keys.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface AlgorithmParams {
+  import: Algorithm | RsaHashedImportParams | EcKeyImportParams;
+  verify: Algorithm | RsaPssParams | EcdsaParams;
+}
+
+// Import and verify parameters for each algorithm, matching src/utils/crypto.ts
+const ALGORITHM_PARAMS: Record<string, AlgorithmParams> = {
+  "RSASSA-PKCS1-v1_5": {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  "RSA-PSS": {
+    import: { name: "RSA-PSS", hash: "SHA-256" },
+    verify: { name: "RSA-PSS", saltLength: 32 },
+  },
+  "ECDSA-P256": {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+  "ECDSA-P384": {
+    import: { name: "ECDSA", namedCurve: "P-384" },
+    verify: { name: "ECDSA", hash: "SHA-384" },
+  },
+  "Ed25519": {
+    import: { name: "Ed25519" },
+    verify: { name: "Ed25519" },
+  },
+};
+
+const MAX_SPKI_LENGTH = 4096;
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+// Must match getKeyRegistrationChallenge in src/utils/keyRegistry.ts
+const getRegistrationChallenge = (userId: string, spki: string) =>
+  `DigiSigini public key registration\nUser: ${userId}\nKey: ${spki}`;
+
+const verifyProof = async (spki: string, algorithm: string, proof: string, userId: string) => {
+  try {
+    const params = ALGORITHM_PARAMS[algorithm];
+    const key = await crypto.subtle.importKey("spki", fromBase64(spki), params.import, false, ["verify"]);
+    return await crypto.subtle.verify(
+      params.verify,
+      key,
+      fromBase64(proof),
+      new TextEncoder().encode(getRegistrationChallenge(userId, spki))
+    );
+  } catch {
+    return false;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  let body: { spki?: unknown; algorithm?: unknown; proof?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "The request body must be JSON" }, 400);
+  }
+
+  const { spki, algorithm, proof } = body;
+  if (typeof spki !== "string" || !spki || spki.length > MAX_SPKI_LENGTH) {
+    return json({ error: "Invalid public key" }, 400);
+  }
+  if (typeof algorithm !== "string" || !(algorithm in ALGORITHM_PARAMS)) {
+    return json({ error: "Unsupported signature algorithm" }, 400);
+  }
+  if (typeof proof !== "string" || !(await verifyProof(spki, algorithm, proof, user.id))) {
+    return json({ error: "The proof of possession for this key is invalid" }, 400);
+  }
+
+  const serviceClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { data: existing, error: lookupError } = await serviceClient
+    .from("public_keys")
+    .select("*")
+    .eq("spki", spki)
+    .maybeSingle();
+  if (lookupError) {
+    console.error("Error looking up public key:", lookupError);
+    return json({ error: "Failed to register the public key" }, 500);
+  }
+  if (existing) {
+    return existing.user_id === user.id
+      ? json({ key: existing })
+      : json({ error: "This public key is registered to another user" }, 409);
+  }
+
+  const { data: key, error } = await serviceClient
+    .from("public_keys")
+    .insert({
+      user_id: user.id,
+      spki,
+      algorithm,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error registering public key:", error);
+    return json({ error: "Failed to register the public key" }, 500);
+  }
+  return json({ key });
+});
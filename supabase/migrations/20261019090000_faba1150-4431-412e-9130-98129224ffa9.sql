@@ -0,0 +1,35 @@
+-- Create public key registry
+CREATE TABLE public.public_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  spki TEXT NOT NULL,
+  fingerprint TEXT NOT NULL UNIQUE,
+  algorithm TEXT NOT NULL DEFAULT 'RSASSA-PKCS1-v1_5',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX public_keys_user_id_idx ON public.public_keys (user_id);
+
+ALTER TABLE public.public_keys ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for public_keys
+-- Public keys are meant to be shared so any signed-in user can resolve them
+CREATE POLICY "Authenticated users can view public keys"
+  ON public.public_keys FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can register their own public keys"
+  ON public.public_keys FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own public keys"
+  ON public.public_keys FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Link each signature to the key that produced it
+ALTER TABLE public.signatures
+  ADD COLUMN public_key_id UUID REFERENCES public.public_keys(id);
+
+CREATE INDEX signatures_public_key_id_idx ON public.signatures (public_key_id);
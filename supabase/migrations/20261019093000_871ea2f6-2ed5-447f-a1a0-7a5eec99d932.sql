@@ -0,0 +1,71 @@
+-- Key rotation: every key a user registers gets a version, and registering a new
+-- key retires (but keeps) the previous ones so old signatures still verify
+ALTER TABLE public.public_keys
+  ADD COLUMN version INTEGER,
+  ADD COLUMN retired_at TIMESTAMPTZ;
+
+-- Backfill versions for keys registered before rotation existed
+UPDATE public.public_keys AS pk
+SET version = numbered.version
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY created_at) AS version
+  FROM public.public_keys
+) AS numbered
+WHERE pk.id = numbered.id;
+
+ALTER TABLE public.public_keys
+  ALTER COLUMN version SET NOT NULL,
+  ADD CONSTRAINT public_keys_user_id_version_key UNIQUE (user_id, version);
+
+-- Retire all but the newest key of users who already registered several
+UPDATE public.public_keys AS pk
+SET retired_at = now()
+WHERE pk.retired_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.public_keys AS newer
+    WHERE newer.user_id = pk.user_id
+    AND newer.version > pk.version
+  );
+
+-- Assign the next version number on insert
+CREATE OR REPLACE FUNCTION public.set_public_key_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO NEW.version
+  FROM public.public_keys
+  WHERE user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_public_key_version
+  BEFORE INSERT ON public.public_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_public_key_version();
+
+-- Retire the previously active keys when a new one is registered
+CREATE OR REPLACE FUNCTION public.retire_previous_public_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.public_keys
+  SET retired_at = now()
+  WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND retired_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER retire_previous_public_keys
+  AFTER INSERT ON public.public_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.retire_previous_public_keys();
@@ -0,0 +1,44 @@
+-- Key revocation: revoked_at is the effective time of the revocation, which may be
+-- earlier than when it was recorded (e.g. the time a key was compromised)
+ALTER TABLE public.public_keys
+  ADD COLUMN revocation_reason TEXT,
+  ADD COLUMN revocation_recorded_at TIMESTAMPTZ,
+  ADD CONSTRAINT public_keys_revocation_reason_check CHECK (
+    revocation_reason IN (
+      'unspecified',
+      'key_compromise',
+      'affiliation_changed',
+      'superseded',
+      'cessation_of_operation'
+    )
+  ),
+  ADD CONSTRAINT public_keys_revocation_complete_check CHECK (
+    (revoked_at IS NULL) = (revocation_reason IS NULL)
+  );
+
+-- A revocation is permanent: once set it cannot be changed or cleared
+CREATE OR REPLACE FUNCTION public.protect_public_key_revocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL AND (
+    NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+    OR NEW.revocation_reason IS DISTINCT FROM OLD.revocation_reason
+  ) THEN
+    RAISE EXCEPTION 'Public key % is already revoked', OLD.id;
+  END IF;
+
+  IF OLD.revoked_at IS NULL AND NEW.revoked_at IS NOT NULL THEN
+    NEW.revocation_recorded_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_public_key_revocation
+  BEFORE UPDATE ON public.public_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_public_key_revocation();
@@ -0,0 +1,17 @@
+-- Selectable signature algorithms. Existing keys and signatures are RSASSA-PKCS1-v1_5.
+ALTER TABLE public.public_keys
+  ADD CONSTRAINT public_keys_algorithm_check CHECK (
+    algorithm IN ('RSASSA-PKCS1-v1_5', 'RSA-PSS', 'ECDSA-P256', 'ECDSA-P384', 'Ed25519')
+  );
+
+-- Record the algorithm with each signature so verification can dispatch on it
+ALTER TABLE public.signatures
+  ADD COLUMN algorithm TEXT NOT NULL DEFAULT 'RSASSA-PKCS1-v1_5',
+  ADD CONSTRAINT signatures_algorithm_check CHECK (
+    algorithm IN ('RSASSA-PKCS1-v1_5', 'RSA-PSS', 'ECDSA-P256', 'ECDSA-P384', 'Ed25519')
+  );
+
+UPDATE public.signatures AS s
+SET algorithm = pk.algorithm
+FROM public.public_keys AS pk
+WHERE s.public_key_id = pk.id;
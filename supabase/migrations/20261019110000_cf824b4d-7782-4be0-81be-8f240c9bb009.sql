@@ -0,0 +1,13 @@
+-- Handwritten signature drawings, stored as SVG with one path per stroke
+ALTER TABLE public.profiles
+  ADD COLUMN handwritten_signature TEXT,
+  ADD CONSTRAINT profiles_handwritten_signature_check CHECK (
+    handwritten_signature IS NULL OR length(handwritten_signature) <= 100000
+  );
+
+-- Snapshot of the drawing used for a signature, so later profile changes don't alter it
+ALTER TABLE public.signatures
+  ADD COLUMN handwritten_signature TEXT,
+  ADD CONSTRAINT signatures_handwritten_signature_check CHECK (
+    handwritten_signature IS NULL OR length(handwritten_signature) <= 100000
+  );
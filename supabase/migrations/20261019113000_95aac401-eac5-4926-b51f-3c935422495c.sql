@@ -0,0 +1,233 @@
+-- Multi-party signing requests: the owner lists signers, who sign in order
+-- ('sequential') or in any order ('parallel'). The document stays pending until
+-- every signer has signed.
+CREATE TYPE public.signing_order AS ENUM ('sequential', 'parallel');
+CREATE TYPE public.signer_status AS ENUM ('pending', 'signed');
+
+-- NULL for documents the owner signed directly
+ALTER TABLE public.documents
+  ADD COLUMN signing_order signing_order;
+
+CREATE TABLE public.document_signers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  -- Position in the signing order; parallel signers all share position 1
+  position INTEGER NOT NULL,
+  status signer_status NOT NULL DEFAULT 'pending',
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  signature_id UUID REFERENCES public.signatures(id) ON DELETE SET NULL,
+  signed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (document_id, email),
+  CONSTRAINT document_signers_email_check CHECK (email = lower(email)),
+  CONSTRAINT document_signers_position_check CHECK (position >= 1)
+);
+
+CREATE INDEX document_signers_email_idx ON public.document_signers (email);
+
+ALTER TABLE public.document_signers ENABLE ROW LEVEL SECURITY;
+
+-- Signers are matched on the email address of their account
+CREATE OR REPLACE FUNCTION public.current_user_email()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT lower(auth.jwt() ->> 'email')
+$$;
+
+-- Security definer so the documents and document_signers policies can refer to
+-- each other without recursing
+CREATE OR REPLACE FUNCTION public.is_document_owner(_document_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.documents
+    WHERE id = _document_id AND user_id = auth.uid()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_document_signer(_document_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.document_signers
+    WHERE document_id = _document_id AND email = public.current_user_email()
+  )
+$$;
+
+-- RLS policies for document_signers
+CREATE POLICY "Owners and signers can view a document's signers"
+  ON public.document_signers FOR SELECT
+  USING (public.is_document_owner(document_id) OR public.is_document_signer(document_id));
+
+CREATE POLICY "Owners can add signers to pending documents"
+  ON public.document_signers FOR INSERT
+  WITH CHECK (
+    public.is_document_owner(document_id)
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE documents.id = document_signers.document_id
+      AND documents.status = 'pending'
+    )
+  );
+
+CREATE POLICY "Owners can remove signers who have not signed"
+  ON public.document_signers FOR DELETE
+  USING (public.is_document_owner(document_id) AND status = 'pending');
+
+-- Signers can see the document, its file and the signatures made so far
+CREATE POLICY "Signers can view requested documents"
+  ON public.documents FOR SELECT
+  USING (public.is_document_signer(id));
+
+CREATE POLICY "Signers can view signatures on requested documents"
+  ON public.signatures FOR SELECT
+  USING (public.is_document_signer(document_id));
+
+CREATE POLICY "Signers can view requested document files"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'documents'
+    AND EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE documents.file_path = storage.objects.name
+      AND public.is_document_signer(documents.id)
+    )
+  );
+
+-- Signatures on a request must come from a pending signer whose turn it is,
+-- and must cover the requested file
+CREATE OR REPLACE FUNCTION public.check_signing_request_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc public.documents%ROWTYPE;
+  signer public.document_signers%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM public.documents WHERE id = NEW.document_id;
+  IF doc.signing_order IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF doc.status <> 'pending' THEN
+    RAISE EXCEPTION 'Document % is not awaiting signatures', doc.id;
+  END IF;
+
+  IF NEW.signature_hash <> doc.file_hash THEN
+    RAISE EXCEPTION 'The signature does not cover the requested document';
+  END IF;
+
+  SELECT * INTO signer
+  FROM public.document_signers
+  WHERE document_id = doc.id
+    AND email = public.current_user_email()
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a pending signer of document %', doc.id;
+  END IF;
+
+  IF doc.signing_order = 'sequential' AND EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = doc.id
+      AND status = 'pending'
+      AND position < signer.position
+  ) THEN
+    RAISE EXCEPTION 'Earlier signers of document % have not signed yet', doc.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_signing_request_signature
+  BEFORE INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_signing_request_signature();
+
+-- Marks the signer as done, and the document signed once nobody is left
+CREATE OR REPLACE FUNCTION public.record_signing_request_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.document_signers
+  SET status = 'signed',
+      user_id = NEW.user_id,
+      signature_id = NEW.id,
+      signed_at = NEW.created_at
+  WHERE document_id = NEW.document_id
+    AND email = public.current_user_email()
+    AND status = 'pending';
+
+  IF FOUND AND NOT EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = NEW.document_id
+      AND status <> 'signed'
+  ) THEN
+    UPDATE public.documents
+    SET status = 'signed'
+    WHERE id = NEW.document_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_signing_request_signature
+  AFTER INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_signing_request_signature();
+
+-- Owners can't turn a request into a plain document, or mark it signed while
+-- signers are still outstanding
+CREATE OR REPLACE FUNCTION public.protect_signing_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.signing_order IS DISTINCT FROM OLD.signing_order THEN
+    RAISE EXCEPTION 'The signing order of document % cannot be changed', NEW.id;
+  END IF;
+
+  IF NEW.signing_order IS NOT NULL
+    AND NEW.status = 'signed'
+    AND OLD.status IS DISTINCT FROM 'signed'
+    AND EXISTS (
+      SELECT 1 FROM public.document_signers
+      WHERE document_id = NEW.id
+        AND status <> 'signed'
+    )
+  THEN
+    RAISE EXCEPTION 'Document % still has signers who have not signed', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_signing_request_status
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_signing_request_status();
@@ -0,0 +1,152 @@
+-- Signers can decline a request, which rejects the document, or hand it to
+-- someone else, who takes over their place in the signing order
+ALTER TYPE public.signer_status ADD VALUE 'declined';
+ALTER TYPE public.signer_status ADD VALUE 'delegated';
+
+ALTER TABLE public.document_signers
+  ADD COLUMN decline_reason TEXT,
+  ADD COLUMN delegated_to TEXT,
+  ADD COLUMN responded_at TIMESTAMPTZ,
+  ADD CONSTRAINT document_signers_delegated_to_check CHECK (delegated_to = lower(delegated_to));
+
+CREATE OR REPLACE FUNCTION public.decline_signing_request(_document_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to decline a signing request';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE id = _document_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Document % is not awaiting signatures', _document_id;
+  END IF;
+
+  UPDATE public.document_signers
+  SET status = 'declined',
+      decline_reason = trim(_reason),
+      user_id = auth.uid(),
+      responded_at = now()
+  WHERE document_id = _document_id
+    AND email = public.current_user_email()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a pending signer of document %', _document_id;
+  END IF;
+
+  UPDATE public.documents
+  SET status = 'rejected'
+  WHERE id = _document_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delegate_signing_request(_document_id UUID, _email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delegate_email TEXT := lower(trim(_email));
+  signer public.document_signers%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE id = _document_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Document % is not awaiting signatures', _document_id;
+  END IF;
+
+  SELECT * INTO signer
+  FROM public.document_signers
+  WHERE document_id = _document_id
+    AND email = public.current_user_email()
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a pending signer of document %', _document_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = _document_id AND email = delegate_email
+  ) THEN
+    RAISE EXCEPTION '% is already a signer of this document', delegate_email;
+  END IF;
+
+  UPDATE public.document_signers
+  SET status = 'delegated',
+      delegated_to = delegate_email,
+      user_id = auth.uid(),
+      responded_at = now()
+  WHERE id = signer.id;
+
+  INSERT INTO public.document_signers (document_id, email, position)
+  VALUES (_document_id, delegate_email, signer.position);
+END;
+$$;
+
+-- Delegated signers have been replaced, so only pending ones hold a request up
+CREATE OR REPLACE FUNCTION public.record_signing_request_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.document_signers
+  SET status = 'signed',
+      user_id = NEW.user_id,
+      signature_id = NEW.id,
+      signed_at = NEW.created_at,
+      responded_at = NEW.created_at
+  WHERE document_id = NEW.document_id
+    AND email = public.current_user_email()
+    AND status = 'pending';
+
+  IF FOUND AND NOT EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = NEW.document_id
+      AND status = 'pending'
+  ) THEN
+    UPDATE public.documents
+    SET status = 'signed'
+    WHERE id = NEW.document_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_signing_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.signing_order IS DISTINCT FROM OLD.signing_order THEN
+    RAISE EXCEPTION 'The signing order of document % cannot be changed', NEW.id;
+  END IF;
+
+  IF NEW.signing_order IS NOT NULL
+    AND NEW.status = 'signed'
+    AND OLD.status IS DISTINCT FROM 'signed'
+    AND EXISTS (
+      SELECT 1 FROM public.document_signers
+      WHERE document_id = NEW.id
+        AND status NOT IN ('signed', 'delegated')
+    )
+  THEN
+    RAISE EXCEPTION 'Document % still has signers who have not signed', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
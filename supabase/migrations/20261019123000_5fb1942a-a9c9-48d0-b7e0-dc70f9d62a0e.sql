@@ -0,0 +1,113 @@
+-- Countersignatures: a signature over another signature rather than the document.
+-- The countersigned content is the parent's signature_data together with the
+-- document hash, so it attests that exact signature on that exact document.
+ALTER TABLE public.signatures
+  ADD COLUMN parent_signature_id UUID REFERENCES public.signatures(id) ON DELETE CASCADE;
+
+CREATE INDEX signatures_parent_signature_id_idx ON public.signatures (parent_signature_id);
+
+-- Countersignatures skip the signing request checks: they must instead refer to a
+-- signature on the same document, by someone who can see that document
+CREATE OR REPLACE FUNCTION public.check_signing_request_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc public.documents%ROWTYPE;
+  signer public.document_signers%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM public.documents WHERE id = NEW.document_id;
+
+  IF NEW.parent_signature_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.signatures
+      WHERE id = NEW.parent_signature_id
+        AND document_id = NEW.document_id
+    ) THEN
+      RAISE EXCEPTION 'The countersigned signature does not belong to document %', NEW.document_id;
+    END IF;
+
+    IF NOT (public.is_document_owner(NEW.document_id) OR public.is_document_signer(NEW.document_id)) THEN
+      RAISE EXCEPTION 'You cannot countersign signatures on document %', NEW.document_id;
+    END IF;
+
+    IF NEW.signature_hash <> doc.file_hash THEN
+      RAISE EXCEPTION 'The countersignature does not cover the document hash';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF doc.signing_order IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF doc.status <> 'pending' THEN
+    RAISE EXCEPTION 'Document % is not awaiting signatures', doc.id;
+  END IF;
+
+  IF NEW.signature_hash <> doc.file_hash THEN
+    RAISE EXCEPTION 'The signature does not cover the requested document';
+  END IF;
+
+  SELECT * INTO signer
+  FROM public.document_signers
+  WHERE document_id = doc.id
+    AND email = public.current_user_email()
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a pending signer of document %', doc.id;
+  END IF;
+
+  IF doc.signing_order = 'sequential' AND EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = doc.id
+      AND status = 'pending'
+      AND position < signer.position
+  ) THEN
+    RAISE EXCEPTION 'Earlier signers of document % have not signed yet', doc.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A countersignature is not the signer's own signature on a request
+CREATE OR REPLACE FUNCTION public.record_signing_request_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_signature_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.document_signers
+  SET status = 'signed',
+      user_id = NEW.user_id,
+      signature_id = NEW.id,
+      signed_at = NEW.created_at,
+      responded_at = NEW.created_at
+  WHERE document_id = NEW.document_id
+    AND email = public.current_user_email()
+    AND status = 'pending';
+
+  IF FOUND AND NOT EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = NEW.document_id
+      AND status = 'pending'
+  ) THEN
+    UPDATE public.documents
+    SET status = 'signed'
+    WHERE id = NEW.document_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
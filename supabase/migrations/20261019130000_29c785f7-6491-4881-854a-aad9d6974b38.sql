@@ -0,0 +1,34 @@
+-- Public verification links (/v/:documentId): anyone holding the link can check a
+-- file against the document's signatures without signing in. Only what is needed
+-- to verify is exposed: the document hash, each signature with its algorithm and
+-- public key, and the signer's display name.
+CREATE OR REPLACE FUNCTION public.get_public_verification(_document_id UUID)
+RETURNS TABLE (
+  file_hash TEXT,
+  signature_data TEXT,
+  algorithm TEXT,
+  public_key TEXT,
+  signer_name TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.file_hash,
+    s.signature_data,
+    s.algorithm,
+    pk.spki,
+    COALESCE(NULLIF(trim(p.full_name), ''), 'Unnamed signer')
+  FROM public.documents d
+  JOIN public.signatures s ON s.document_id = d.id
+  JOIN public.public_keys pk ON pk.id = s.public_key_id
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE d.id = _document_id
+    AND s.parent_signature_id IS NULL
+  ORDER BY s.created_at
+$$;
+
+REVOKE ALL ON FUNCTION public.get_public_verification(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_public_verification(UUID) TO anon, authenticated;
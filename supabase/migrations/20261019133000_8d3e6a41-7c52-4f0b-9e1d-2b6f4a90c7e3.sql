@@ -0,0 +1,5 @@
+-- RFC 3161 trusted timestamps: the TimeStampToken (base64 DER) a timestamp
+-- authority issued over the SHA-256 of signature_data at signing time.
+-- Optional, since signing goes ahead when no TSA is configured or reachable.
+ALTER TABLE public.signatures
+  ADD COLUMN timestamp_token TEXT;
@@ -0,0 +1,112 @@
+-- Hash-chained audit log. Every entry stores the hash of the entry before it in
+-- the whole log (previous_hash) and in the same user's log (user_previous_hash),
+-- and its own hash over its contents and both links. Editing, deleting or
+-- inserting an entry out of band breaks the chain at that point, which the
+-- Audit Trail page detects by recomputing the hashes.
+ALTER TABLE public.audit_logs
+  ADD COLUMN chain_position BIGINT,
+  ADD COLUMN previous_hash TEXT,
+  ADD COLUMN user_previous_hash TEXT,
+  ADD COLUMN entry_hash TEXT;
+
+-- SHA-256 over one JSON value per line. The client recomputes this from the
+-- row, with the metadata selected as metadata::text, so the serialization here
+-- must stay byte-for-byte reproducible:
+--   - strings and UUIDs as JSON strings, NULL as null
+--   - created_at as ISO 8601 UTC with milliseconds, as JavaScript's toISOString()
+--   - metadata in its jsonb text form, itself as a JSON string
+-- Deleting a user sets user_id to NULL on their entries, which shows as altered.
+CREATE OR REPLACE FUNCTION public.audit_log_entry_hash(entry public.audit_logs)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws(E'\n',
+    entry.chain_position::text,
+    COALESCE(to_json(entry.previous_hash)::text, 'null'),
+    COALESCE(to_json(entry.user_previous_hash)::text, 'null'),
+    to_json(entry.id)::text,
+    COALESCE(to_json(entry.user_id)::text, 'null'),
+    to_json(entry.action)::text,
+    to_json(entry.resource_type)::text,
+    COALESCE(to_json(entry.resource_id)::text, 'null'),
+    COALESCE(to_json(entry.ip_address)::text, 'null'),
+    COALESCE(to_json(entry.user_agent)::text, 'null'),
+    to_json(to_char(entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))::text,
+    COALESCE(to_json(entry.metadata::text)::text, 'null')
+  ), 'UTF8')), 'hex');
+$$;
+
+-- Chain the existing entries in the order they were written
+DO $$
+DECLARE
+  entry public.audit_logs%ROWTYPE;
+  last_position BIGINT := 0;
+  last_hash TEXT;
+  user_hashes JSONB := '{}';
+BEGIN
+  FOR entry IN SELECT * FROM public.audit_logs ORDER BY created_at, id LOOP
+    last_position := last_position + 1;
+    entry.chain_position := last_position;
+    entry.created_at := date_trunc('milliseconds', entry.created_at);
+    entry.previous_hash := last_hash;
+    entry.user_previous_hash := user_hashes ->> COALESCE(entry.user_id::text, '');
+    entry.entry_hash := public.audit_log_entry_hash(entry);
+
+    UPDATE public.audit_logs
+    SET chain_position = entry.chain_position,
+        created_at = entry.created_at,
+        previous_hash = entry.previous_hash,
+        user_previous_hash = entry.user_previous_hash,
+        entry_hash = entry.entry_hash
+    WHERE id = entry.id;
+
+    last_hash := entry.entry_hash;
+    user_hashes := user_hashes || jsonb_build_object(COALESCE(entry.user_id::text, ''), entry.entry_hash);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.audit_logs
+  ALTER COLUMN chain_position SET NOT NULL,
+  ALTER COLUMN entry_hash SET NOT NULL,
+  ADD CONSTRAINT audit_logs_chain_position_key UNIQUE (chain_position);
+
+CREATE INDEX audit_logs_user_chain_idx ON public.audit_logs (user_id, chain_position);
+
+-- Appends the new entry to both chains. The chain values and created_at are
+-- always set here, so inserts cannot backdate entries or forge links. Runs as
+-- definer because the previous global entry usually belongs to another user.
+CREATE OR REPLACE FUNCTION public.chain_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  last_entry public.audit_logs%ROWTYPE;
+BEGIN
+  -- One writer at a time, so no two entries claim the same predecessor
+  PERFORM pg_advisory_xact_lock(hashtext('public.audit_logs chain'));
+
+  SELECT * INTO last_entry FROM public.audit_logs ORDER BY chain_position DESC LIMIT 1;
+  NEW.chain_position := COALESCE(last_entry.chain_position, 0) + 1;
+  NEW.previous_hash := last_entry.entry_hash;
+
+  SELECT entry_hash INTO NEW.user_previous_hash
+  FROM public.audit_logs
+  WHERE user_id IS NOT DISTINCT FROM NEW.user_id
+  ORDER BY chain_position DESC
+  LIMIT 1;
+
+  NEW.created_at := date_trunc('milliseconds', now());
+  NEW.entry_hash := public.audit_log_entry_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_audit_log
+  BEFORE INSERT ON public.audit_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chain_audit_log();
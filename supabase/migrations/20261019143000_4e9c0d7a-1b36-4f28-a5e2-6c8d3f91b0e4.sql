@@ -0,0 +1,285 @@
+-- Server-side audit capture. Audit entries used to be inserted by the browser,
+-- so users could forge entries for themselves or skip logging entirely. Changes
+-- to documents, signers, signatures, keys and profiles are now recorded by
+-- triggers, and events only the browser sees (verifications, downloads) go
+-- through the audit-log edge function. Clients can no longer insert directly.
+
+-- The client IP and user agent of the API request behind the current change,
+-- from the request headers PostgREST exposes to the transaction. NULL for
+-- changes made outside an API request.
+CREATE OR REPLACE FUNCTION public.request_client_info(OUT ip_address TEXT, OUT user_agent TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  headers JSON := nullif(current_setting('request.headers', true), '')::json;
+BEGIN
+  -- The gateway puts the original client first in X-Forwarded-For
+  ip_address := COALESCE(
+    nullif(trim(split_part(headers ->> 'x-forwarded-for', ',', 1)), ''),
+    headers ->> 'cf-connecting-ip',
+    headers ->> 'x-real-ip'
+  );
+  user_agent := headers ->> 'user-agent';
+END;
+$$;
+
+-- Attributes the entry to the signed-in user making the request, falling back
+-- to the given user for changes without one
+CREATE OR REPLACE FUNCTION public.write_audit_log(
+  _user_id UUID,
+  _action TEXT,
+  _resource_type TEXT,
+  _resource_id UUID,
+  _metadata JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client RECORD;
+BEGIN
+  SELECT * INTO client FROM public.request_client_info();
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, ip_address, user_agent, metadata)
+  VALUES (
+    COALESCE(auth.uid(), _user_id),
+    _action,
+    _resource_type,
+    _resource_id,
+    client.ip_address,
+    client.user_agent,
+    jsonb_strip_nulls(_metadata)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.write_audit_log(UUID, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.audit_document_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_audit_log(
+      NEW.user_id,
+      CASE WHEN NEW.signing_order IS NULL THEN 'document_uploaded' ELSE 'signing_request_created' END,
+      'document',
+      NEW.id,
+      jsonb_build_object(
+        'file_name', NEW.file_name,
+        'file_hash', NEW.file_hash,
+        'status', NEW.status,
+        'signing_order', NEW.signing_order
+      )
+    );
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      PERFORM public.write_audit_log(
+        NEW.user_id,
+        'document_status_changed',
+        'document',
+        NEW.id,
+        jsonb_build_object('file_name', NEW.file_name, 'previous_status', OLD.status, 'status', NEW.status)
+      );
+    END IF;
+  ELSE
+    PERFORM public.write_audit_log(
+      OLD.user_id,
+      'document_deleted',
+      'document',
+      OLD.id,
+      jsonb_build_object('file_name', OLD.file_name, 'file_hash', OLD.file_hash, 'status', OLD.status)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_document_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_document_change();
+
+-- Signing a request is recorded with the signature; declining and delegating here
+CREATE OR REPLACE FUNCTION public.audit_signer_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc public.documents%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM public.documents WHERE id = NEW.document_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_audit_log(
+      doc.user_id,
+      'signer_added',
+      'document',
+      NEW.document_id,
+      jsonb_build_object('file_name', doc.file_name, 'email', NEW.email, 'position', NEW.position)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'declined' THEN
+    PERFORM public.write_audit_log(
+      NEW.user_id,
+      'signing_request_declined',
+      'document',
+      NEW.document_id,
+      jsonb_build_object('file_name', doc.file_name, 'email', NEW.email, 'reason', NEW.decline_reason)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'delegated' THEN
+    PERFORM public.write_audit_log(
+      NEW.user_id,
+      'signing_request_delegated',
+      'document',
+      NEW.document_id,
+      jsonb_build_object('file_name', doc.file_name, 'email', NEW.email, 'delegated_to', NEW.delegated_to)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_signer_change
+  AFTER INSERT OR UPDATE ON public.document_signers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_signer_change();
+
+-- Records the exact key and signature value, as the browser used to
+CREATE OR REPLACE FUNCTION public.audit_signature_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc public.documents%ROWTYPE;
+  signing_key public.public_keys%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM public.documents WHERE id = NEW.document_id;
+  SELECT * INTO signing_key FROM public.public_keys WHERE id = NEW.public_key_id;
+
+  PERFORM public.write_audit_log(
+    NEW.user_id,
+    CASE WHEN NEW.parent_signature_id IS NULL THEN 'document_signed' ELSE 'signature_countersigned' END,
+    'document',
+    NEW.document_id,
+    jsonb_build_object(
+      'file_name', doc.file_name,
+      -- Signed text is stored under text/ rather than uploaded
+      'sign_mode', CASE WHEN doc.file_path LIKE 'text/%' THEN 'text' ELSE 'file' END,
+      'signing_request', doc.signing_order IS NOT NULL,
+      'signature_id', NEW.id,
+      'parent_signature_id', NEW.parent_signature_id,
+      'public_key', signing_key.spki,
+      'public_key_id', NEW.public_key_id,
+      'key_fingerprint', signing_key.fingerprint,
+      'key_version', signing_key.version,
+      'algorithm', NEW.algorithm,
+      'handwritten_signature', NEW.handwritten_signature IS NOT NULL,
+      'timestamped', NEW.timestamp_token IS NOT NULL,
+      'signature', NEW.signature_data
+    )
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_signature_insert
+  AFTER INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_signature_insert();
+
+CREATE OR REPLACE FUNCTION public.audit_key_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  details JSONB := jsonb_build_object('key_fingerprint', NEW.fingerprint, 'key_version', NEW.version);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_audit_log(
+      NEW.user_id, 'key_registered', 'public_key', NEW.id,
+      details || jsonb_build_object('algorithm', NEW.algorithm)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.revoked_at IS NOT NULL AND OLD.revoked_at IS NULL THEN
+    PERFORM public.write_audit_log(
+      NEW.user_id, 'key_revoked', 'public_key', NEW.id,
+      details || jsonb_build_object('reason', NEW.revocation_reason, 'effective_at', NEW.revoked_at)
+    );
+  END IF;
+  IF NEW.retired_at IS NOT NULL AND OLD.retired_at IS NULL THEN
+    PERFORM public.write_audit_log(NEW.user_id, 'key_retired', 'public_key', NEW.id, details);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_key_change
+  AFTER INSERT OR UPDATE ON public.public_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_key_change();
+
+-- The handwritten signature itself is not copied into the log, only that it changed
+CREATE OR REPLACE FUNCTION public.audit_profile_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_fields TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_audit_log(
+      NEW.id, 'profile_created', 'profile', NEW.id,
+      jsonb_build_object('full_name', NEW.full_name, 'organization', NEW.organization)
+    );
+    RETURN NULL;
+  END IF;
+
+  IF NEW.full_name IS DISTINCT FROM OLD.full_name THEN
+    changed_fields := array_append(changed_fields, 'full_name');
+  END IF;
+  IF NEW.organization IS DISTINCT FROM OLD.organization THEN
+    changed_fields := array_append(changed_fields, 'organization');
+  END IF;
+  IF NEW.handwritten_signature IS DISTINCT FROM OLD.handwritten_signature THEN
+    changed_fields := array_append(changed_fields, 'handwritten_signature');
+  END IF;
+
+  IF cardinality(changed_fields) > 0 THEN
+    PERFORM public.write_audit_log(
+      NEW.id, 'profile_updated', 'profile', NEW.id,
+      jsonb_build_object(
+        'changed_fields', to_jsonb(changed_fields),
+        'full_name', NEW.full_name,
+        'organization', NEW.organization
+      )
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_profile_change
+  AFTER INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_profile_change();
+
+-- Only triggers (as definer) and the edge function (as service role) write the log
+DROP POLICY "Users can insert their own audit logs" ON public.audit_logs;
+REVOKE INSERT, UPDATE, DELETE ON public.audit_logs FROM anon, authenticated;
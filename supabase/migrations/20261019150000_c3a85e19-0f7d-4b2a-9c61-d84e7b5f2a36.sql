@@ -0,0 +1,14 @@
+-- Filtering and paging the audit trail. The trail pages backwards through
+-- chain_position, which is unique and grows with every entry, and can be
+-- narrowed by action, resource, date and a free-text search over the metadata.
+-- The search runs against the metadata's text form, kept in a generated column
+-- so it can have a trigram index; it is derived, so not part of the entry hash.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.audit_logs
+  ADD COLUMN metadata_search TEXT GENERATED ALWAYS AS (metadata::text) STORED;
+
+CREATE INDEX audit_logs_metadata_search_idx
+  ON public.audit_logs USING gin (metadata_search extensions.gin_trgm_ops);
+
+CREATE INDEX audit_logs_resource_id_idx ON public.audit_logs (resource_id, chain_position);
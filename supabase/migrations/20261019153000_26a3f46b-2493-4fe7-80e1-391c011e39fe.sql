@@ -0,0 +1,179 @@
+-- Admin console. Admins already read every audit log through RLS; these
+-- functions give them the user list with emails from auth.users, role
+-- assignment and usage statistics. Each one checks the caller's admin role
+-- itself, since it runs as definer to see past the per-user policies.
+
+CREATE POLICY "Users can view their own roles"
+  ON public.user_roles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.admin_list_users()
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  full_name TEXT,
+  organization TEXT,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  roles public.app_role[],
+  document_count BIGINT,
+  signature_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can list users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::TEXT,
+    p.full_name,
+    p.organization,
+    u.created_at,
+    u.last_sign_in_at,
+    COALESCE(
+      (SELECT array_agg(r.role ORDER BY r.role) FROM public.user_roles r WHERE r.user_id = u.id),
+      ARRAY[]::public.app_role[]
+    ),
+    (SELECT count(*) FROM public.documents d WHERE d.user_id = u.id),
+    (SELECT count(*) FROM public.signatures s WHERE s.user_id = u.id)
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  ORDER BY u.created_at DESC;
+END;
+$$;
+
+-- Grants or removes a role and records who did it. Admins cannot remove their
+-- own admin role, so the last admin can never lock everyone out.
+CREATE OR REPLACE FUNCTION public.admin_set_role(_user_id UUID, _role public.app_role, _granted BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can assign roles' USING ERRCODE = '42501';
+  END IF;
+  IF _user_id = auth.uid() AND _role = 'admin' AND NOT _granted THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  IF _granted THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, _role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  ELSE
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role = _role;
+  END IF;
+
+  -- Nothing changed, nothing to record
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.write_audit_log(
+    auth.uid(),
+    CASE WHEN _granted THEN 'role_granted' ELSE 'role_revoked' END,
+    'profile',
+    _user_id,
+    jsonb_build_object(
+      'role', _role,
+      'user_id', _user_id,
+      'email', (SELECT email FROM auth.users WHERE id = _user_id)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_statistics()
+RETURNS TABLE (
+  user_count BIGINT,
+  admin_count BIGINT,
+  document_count BIGINT,
+  pending_document_count BIGINT,
+  signed_document_count BIGINT,
+  verified_document_count BIGINT,
+  rejected_document_count BIGINT,
+  signing_request_count BIGINT,
+  documents_last_30_days BIGINT,
+  signature_count BIGINT,
+  countersignature_count BIGINT,
+  timestamped_signature_count BIGINT,
+  signatures_last_30_days BIGINT,
+  active_key_count BIGINT,
+  revoked_key_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can view statistics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*) FROM auth.users),
+    (SELECT count(*) FROM public.user_roles WHERE role = 'admin'),
+    d.total,
+    d.pending,
+    d.signed,
+    d.verified,
+    d.rejected,
+    d.requests,
+    d.recent,
+    s.total,
+    s.countersignatures,
+    s.timestamped,
+    s.recent,
+    k.active,
+    k.revoked
+  FROM
+    (
+      SELECT
+        count(*) AS total,
+        count(*) FILTER (WHERE status = 'pending') AS pending,
+        count(*) FILTER (WHERE status = 'signed') AS signed,
+        count(*) FILTER (WHERE status = 'verified') AS verified,
+        count(*) FILTER (WHERE status = 'rejected') AS rejected,
+        count(*) FILTER (WHERE signing_order IS NOT NULL) AS requests,
+        count(*) FILTER (WHERE created_at > now() - INTERVAL '30 days') AS recent
+      FROM public.documents
+    ) d,
+    (
+      SELECT
+        count(*) AS total,
+        count(*) FILTER (WHERE parent_signature_id IS NOT NULL) AS countersignatures,
+        count(*) FILTER (WHERE timestamp_token IS NOT NULL) AS timestamped,
+        count(*) FILTER (WHERE created_at > now() - INTERVAL '30 days') AS recent
+      FROM public.signatures
+    ) s,
+    (
+      SELECT
+        count(*) FILTER (WHERE revoked_at IS NULL AND retired_at IS NULL) AS active,
+        count(*) FILTER (WHERE revoked_at IS NOT NULL) AS revoked
+      FROM public.public_keys
+    ) k;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_list_users() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_set_role(UUID, public.app_role, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.admin_statistics() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_list_users() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_role(UUID, public.app_role, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_statistics() TO authenticated;
@@ -0,0 +1,38 @@
+-- Per-document evidence timeline. A document's owner needs every audit entry
+-- about it, including verifications and downloads by its signers, and the
+-- names behind the user ids on its signatures and entries.
+
+CREATE POLICY "Document owners can view their documents' audit logs"
+  ON public.audit_logs FOR SELECT
+  USING (resource_type = 'document' AND public.is_document_owner(resource_id));
+
+-- Everyone who owns, signed, was asked to sign or acted on the document, for
+-- its owner, its signers and admins
+CREATE OR REPLACE FUNCTION public.get_document_participants(_document_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::TEXT, p.full_name
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  WHERE (
+      public.is_document_owner(_document_id)
+      OR public.is_document_signer(_document_id)
+      OR public.has_role(auth.uid(), 'admin')
+    )
+    AND u.id IN (
+      SELECT d.user_id FROM public.documents d WHERE d.id = _document_id
+      UNION
+      SELECT s.user_id FROM public.signatures s WHERE s.document_id = _document_id
+      UNION
+      SELECT ds.user_id FROM public.document_signers ds WHERE ds.document_id = _document_id
+      UNION
+      SELECT a.user_id FROM public.audit_logs a WHERE a.resource_type = 'document' AND a.resource_id = _document_id
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_document_participants(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_document_participants(UUID) TO authenticated;
@@ -0,0 +1,89 @@
+-- Registered keys are immutable evidence: the table-wide UPDATE policy let owners
+-- swap the SPKI behind past signatures or un-retire a key. Revocation, the only
+-- change a user may make, now goes through revoke_public_key.
+DROP POLICY "Users can update their own public keys" ON public.public_keys;
+REVOKE UPDATE ON public.public_keys FROM anon, authenticated;
+
+-- Retiring the previous keys no longer runs with the registering user's rights
+CREATE OR REPLACE FUNCTION public.retire_previous_public_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.public_keys
+  SET retired_at = now()
+  WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND retired_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Revokes one of the caller's keys from `_effective_at` onwards;
+-- protect_public_key_revocation keeps the revocation permanent
+CREATE OR REPLACE FUNCTION public.revoke_public_key(
+  _key_id UUID,
+  _reason TEXT,
+  _effective_at TIMESTAMPTZ
+)
+RETURNS public.public_keys
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked public.public_keys%ROWTYPE;
+BEGIN
+  UPDATE public.public_keys
+  SET revoked_at = _effective_at,
+      revocation_reason = _reason
+  WHERE id = _key_id
+    AND user_id = auth.uid()
+  RETURNING * INTO revoked;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Public key % not found', _key_id USING ERRCODE = '42501';
+  END IF;
+
+  RETURN revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_public_key(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_public_key(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- A signature may only reference the signer's own key, with the key's algorithm
+CREATE OR REPLACE FUNCTION public.check_signature_public_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signing_key public.public_keys%ROWTYPE;
+BEGIN
+  IF NEW.public_key_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO signing_key FROM public.public_keys WHERE id = NEW.public_key_id;
+
+  IF signing_key.user_id IS DISTINCT FROM NEW.user_id THEN
+    RAISE EXCEPTION 'Public key % does not belong to the signer', NEW.public_key_id;
+  END IF;
+
+  IF signing_key.algorithm <> NEW.algorithm THEN
+    RAISE EXCEPTION 'The signature algorithm % does not match public key %', NEW.algorithm, NEW.public_key_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_signature_public_key
+  BEFORE INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_signature_public_key();
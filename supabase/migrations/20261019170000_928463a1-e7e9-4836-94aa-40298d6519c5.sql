@@ -0,0 +1,75 @@
+-- Revocation verdicts compare revoked_at against signatures.created_at, so the
+-- signing time is taken from the database clock rather than the client, and keys
+-- that are revoked or retired can't be used to sign, whichever client inserts.
+CREATE OR REPLACE FUNCTION public.check_signature_public_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signing_key public.public_keys%ROWTYPE;
+BEGIN
+  NEW.created_at := now();
+
+  IF NEW.public_key_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO signing_key FROM public.public_keys WHERE id = NEW.public_key_id;
+
+  IF signing_key.user_id IS DISTINCT FROM NEW.user_id THEN
+    RAISE EXCEPTION 'Public key % does not belong to the signer', NEW.public_key_id;
+  END IF;
+
+  IF signing_key.algorithm <> NEW.algorithm THEN
+    RAISE EXCEPTION 'The signature algorithm % does not match public key %', NEW.algorithm, NEW.public_key_id;
+  END IF;
+
+  IF signing_key.revoked_at <= NEW.created_at THEN
+    RAISE EXCEPTION 'Public key % is revoked', NEW.public_key_id;
+  END IF;
+
+  IF signing_key.retired_at <= NEW.created_at THEN
+    RAISE EXCEPTION 'Public key % is retired; sign with your current key', NEW.public_key_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- revocation_recorded_at is only ever set here, to the time the revocation was made
+CREATE OR REPLACE FUNCTION public.protect_public_key_revocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.revocation_recorded_at := CASE WHEN NEW.revoked_at IS NOT NULL THEN now() END;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL AND (
+    NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+    OR NEW.revocation_reason IS DISTINCT FROM OLD.revocation_reason
+  ) THEN
+    RAISE EXCEPTION 'Public key % is already revoked', OLD.id;
+  END IF;
+
+  IF OLD.revoked_at IS NULL AND NEW.revoked_at IS NOT NULL THEN
+    NEW.revocation_recorded_at := now();
+  ELSE
+    NEW.revocation_recorded_at := OLD.revocation_recorded_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER protect_public_key_revocation ON public.public_keys;
+
+CREATE TRIGGER protect_public_key_revocation
+  BEFORE INSERT OR UPDATE ON public.public_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_public_key_revocation();
@@ -0,0 +1,93 @@
+-- Signing requests are resolved by the database alone. Owners could still change
+-- a request's file while it was open, so later signers signed something other
+-- than what earlier signers approved, or set its status directly, e.g. reopen a
+-- rejected request. Removing the last outstanding signer also left it pending.
+
+-- Status changes are made by the signing request functions and triggers, which run
+-- as the table owner; a signed-in user updating the row directly can't make them.
+-- Delegated signers have been replaced, so only pending ones hold a request up.
+CREATE OR REPLACE FUNCTION public.protect_signing_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.signing_order IS DISTINCT FROM OLD.signing_order THEN
+    RAISE EXCEPTION 'The signing order of document % cannot be changed', NEW.id;
+  END IF;
+
+  IF (NEW.file_hash IS DISTINCT FROM OLD.file_hash OR NEW.file_path IS DISTINCT FROM OLD.file_path)
+    AND (
+      EXISTS (SELECT 1 FROM public.document_signers WHERE document_id = NEW.id)
+      OR EXISTS (SELECT 1 FROM public.signatures WHERE document_id = NEW.id)
+    )
+  THEN
+    RAISE EXCEPTION 'The file of document % cannot be changed once it has signers or signatures', NEW.id;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'The status of document % cannot be changed directly', NEW.id;
+  END IF;
+
+  IF NEW.signing_order IS NOT NULL
+    AND NEW.status = 'signed'
+    AND OLD.status IS DISTINCT FROM 'signed'
+    AND EXISTS (
+      SELECT 1 FROM public.document_signers
+      WHERE document_id = NEW.id
+        AND status = 'pending'
+    )
+  THEN
+    RAISE EXCEPTION 'Document % still has signers who have not signed', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Once the last outstanding signer is removed, a request that others have signed
+-- is complete. A request must keep at least one signer; delete the document to
+-- withdraw it instead.
+CREATE OR REPLACE FUNCTION public.resolve_signing_request_on_signer_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc public.documents%ROWTYPE;
+BEGIN
+  -- Nothing to resolve when the signers go with their document
+  SELECT * INTO doc FROM public.documents WHERE id = OLD.document_id;
+  IF NOT FOUND OR doc.status <> 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = doc.id
+      AND status = 'pending'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = doc.id
+      AND status = 'signed'
+  ) THEN
+    RAISE EXCEPTION 'Document % must keep at least one signer; delete it to withdraw the request', doc.id;
+  END IF;
+
+  UPDATE public.documents
+  SET status = 'signed'
+  WHERE id = doc.id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER resolve_signing_request_on_signer_removal
+  AFTER DELETE ON public.document_signers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resolve_signing_request_on_signer_removal();
@@ -0,0 +1,109 @@
+-- Any signed-in user could add a top-level signature to a plain document, since
+-- only auth.uid() = user_id was checked. Document ids are printed in public
+-- verification links and QR codes, so strangers could appear as signers there
+-- and make the page report a failed verification.
+CREATE OR REPLACE FUNCTION public.check_signing_request_signature()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  doc public.documents%ROWTYPE;
+  signer public.document_signers%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM public.documents WHERE id = NEW.document_id;
+
+  IF NEW.parent_signature_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.signatures
+      WHERE id = NEW.parent_signature_id
+        AND document_id = NEW.document_id
+    ) THEN
+      RAISE EXCEPTION 'The countersigned signature does not belong to document %', NEW.document_id;
+    END IF;
+
+    IF NOT (public.is_document_owner(NEW.document_id) OR public.is_document_signer(NEW.document_id)) THEN
+      RAISE EXCEPTION 'You cannot countersign signatures on document %', NEW.document_id;
+    END IF;
+
+    IF NEW.signature_hash <> doc.file_hash THEN
+      RAISE EXCEPTION 'The countersignature does not cover the document hash';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Only the owner signs a plain document; anyone else has to be asked to
+  IF doc.signing_order IS NULL THEN
+    IF doc.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the owner can sign document %', doc.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF doc.status <> 'pending' THEN
+    RAISE EXCEPTION 'Document % is not awaiting signatures', doc.id;
+  END IF;
+
+  IF NEW.signature_hash <> doc.file_hash THEN
+    RAISE EXCEPTION 'The signature does not cover the requested document';
+  END IF;
+
+  SELECT * INTO signer
+  FROM public.document_signers
+  WHERE document_id = doc.id
+    AND email = public.current_user_email()
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a pending signer of document %', doc.id;
+  END IF;
+
+  IF doc.signing_order = 'sequential' AND EXISTS (
+    SELECT 1 FROM public.document_signers
+    WHERE document_id = doc.id
+      AND status = 'pending'
+      AND position < signer.position
+  ) THEN
+    RAISE EXCEPTION 'Earlier signers of document % have not signed yet', doc.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Signatures from before the fix are only listed if they are the owner's or were
+-- made for a signing request
+CREATE OR REPLACE FUNCTION public.get_public_verification(_document_id UUID)
+RETURNS TABLE (
+  file_hash TEXT,
+  signature_data TEXT,
+  algorithm TEXT,
+  public_key TEXT,
+  signer_name TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.file_hash,
+    s.signature_data,
+    s.algorithm,
+    pk.spki,
+    COALESCE(NULLIF(trim(p.full_name), ''), 'Unnamed signer')
+  FROM public.documents d
+  JOIN public.signatures s ON s.document_id = d.id
+  JOIN public.public_keys pk ON pk.id = s.public_key_id
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE d.id = _document_id
+    AND s.parent_signature_id IS NULL
+    AND (
+      s.user_id = d.user_id
+      OR EXISTS (SELECT 1 FROM public.document_signers ds WHERE ds.signature_id = s.id)
+    )
+  ORDER BY s.created_at
+$$;
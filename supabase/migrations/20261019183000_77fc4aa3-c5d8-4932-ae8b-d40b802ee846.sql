@@ -0,0 +1,42 @@
+-- The client IP was taken from the first X-Forwarded-For entry, which the client
+-- can set to anything; proxies only append to the header. The gateway's own
+-- headers are used instead, then the hop the last proxy appended.
+CREATE OR REPLACE FUNCTION public.request_client_info(OUT ip_address TEXT, OUT user_agent TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  headers JSON := nullif(current_setting('request.headers', true), '')::json;
+  forwarded_for TEXT[] := string_to_array(headers ->> 'x-forwarded-for', ',');
+BEGIN
+  ip_address := COALESCE(
+    nullif(trim(headers ->> 'cf-connecting-ip'), ''),
+    nullif(trim(headers ->> 'x-real-ip'), ''),
+    nullif(trim(forwarded_for[cardinality(forwarded_for)]), '')
+  );
+  user_agent := headers ->> 'user-agent';
+END;
+$$;
+
+-- Signatures used to record 'client-side' as their IP address; they now get the
+-- same request details as the audit log
+CREATE OR REPLACE FUNCTION public.set_signature_client_info()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  client RECORD;
+BEGIN
+  SELECT * INTO client FROM public.request_client_info();
+  NEW.ip_address := client.ip_address;
+  NEW.user_agent := client.user_agent;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_signature_client_info
+  BEFORE INSERT ON public.signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_signature_client_info();
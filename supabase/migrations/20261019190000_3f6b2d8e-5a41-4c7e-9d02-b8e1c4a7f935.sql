@@ -0,0 +1,32 @@
+-- Fingerprints identify a signature's key for verifiers, so they are derived from
+-- the SPKI by the database instead of trusting the value the client sends, and a
+-- public key can only be registered once.
+UPDATE public.public_keys
+SET fingerprint = encode(sha256(decode(spki, 'base64')), 'hex')
+WHERE fingerprint <> encode(sha256(decode(spki, 'base64')), 'hex');
+
+ALTER TABLE public.public_keys
+  ADD CONSTRAINT public_keys_spki_key UNIQUE (spki);
+
+CREATE OR REPLACE FUNCTION public.set_public_key_fingerprint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.fingerprint := encode(sha256(decode(NEW.spki, 'base64')), 'hex');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_public_key_fingerprint
+  BEFORE INSERT OR UPDATE ON public.public_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_public_key_fingerprint();
+
+-- Keys are registered through the register-public-key edge function, which checks
+-- that the caller holds the private key before inserting the row. Clients can't
+-- insert keys directly any more.
+DROP POLICY "Users can register their own public keys" ON public.public_keys;
+
+REVOKE INSERT ON public.public_keys FROM anon, authenticated;
@@ -0,0 +1,17 @@
+-- Signature bundles and receipts name their signer themselves. Verifiers look up the
+-- display name of the registered key's owner instead, since profiles are private.
+CREATE OR REPLACE FUNCTION public.get_public_key_owner_name(_key_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(NULLIF(trim(p.full_name), ''), 'Unnamed signer')
+  FROM public.public_keys pk
+  LEFT JOIN public.profiles p ON p.id = pk.user_id
+  WHERE pk.id = _key_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_public_key_owner_name(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_public_key_owner_name(UUID) TO authenticated;
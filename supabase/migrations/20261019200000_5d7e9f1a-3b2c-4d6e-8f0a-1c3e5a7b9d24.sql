@@ -0,0 +1,41 @@
+-- Deleting an auth user cascades to their documents, signers, keys and profile, and
+-- the audit triggers on those tables still name the deleted user, which failed
+-- audit_logs_user_id_fkey and blocked the deletion. Such entries are now written
+-- without a user, like the user's earlier entries, whose user_id the foreign key
+-- sets to NULL.
+CREATE OR REPLACE FUNCTION public.write_audit_log(
+  _user_id UUID,
+  _action TEXT,
+  _resource_type TEXT,
+  _resource_id UUID,
+  _metadata JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  client RECORD;
+  actor UUID := COALESCE(auth.uid(), _user_id);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = actor) THEN
+    actor := NULL;
+  END IF;
+
+  SELECT * INTO client FROM public.request_client_info();
+
+  INSERT INTO public.audit_logs (user_id, action, resource_type, resource_id, ip_address, user_agent, metadata)
+  VALUES (
+    actor,
+    _action,
+    _resource_type,
+    _resource_id,
+    client.ip_address,
+    client.user_agent,
+    jsonb_strip_nulls(_metadata)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.write_audit_log(UUID, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,17 @@
+-- Only the header set by the gateway in front of the project is trusted for the
+-- client IP. Hosted Supabase sits behind Cloudflare, which sets cf-connecting-ip
+-- to the connecting address and replaces any value the client sent. X-Real-IP and
+-- X-Forwarded-For can be sent by the client itself, so they are no longer used.
+-- Deployments behind a different proxy must have it set cf-connecting-ip.
+CREATE OR REPLACE FUNCTION public.request_client_info(OUT ip_address TEXT, OUT user_agent TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  headers JSON := nullif(current_setting('request.headers', true), '')::json;
+BEGIN
+  ip_address := nullif(trim(headers ->> 'cf-connecting-ip'), '');
+  user_agent := headers ->> 'user-agent';
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Once a document is deleted is_document_owner() is false, which locked its owner
+-- out of the document's audit trail and participants. The document_deleted entry
+-- now records the owner, since it is written with whoever deleted the document,
+-- and access falls back to that entry. Older entries without an owner_id were
+-- written by the owner or an admin.
+CREATE OR REPLACE FUNCTION public.audit_document_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.write_audit_log(
+      NEW.user_id,
+      CASE WHEN NEW.signing_order IS NULL THEN 'document_uploaded' ELSE 'signing_request_created' END,
+      'document',
+      NEW.id,
+      jsonb_build_object(
+        'file_name', NEW.file_name,
+        'file_hash', NEW.file_hash,
+        'status', NEW.status,
+        'signing_order', NEW.signing_order
+      )
+    );
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      PERFORM public.write_audit_log(
+        NEW.user_id,
+        'document_status_changed',
+        'document',
+        NEW.id,
+        jsonb_build_object('file_name', NEW.file_name, 'previous_status', OLD.status, 'status', NEW.status)
+      );
+    END IF;
+  ELSE
+    PERFORM public.write_audit_log(
+      OLD.user_id,
+      'document_deleted',
+      'document',
+      OLD.id,
+      jsonb_build_object(
+        'file_name', OLD.file_name,
+        'file_hash', OLD.file_hash,
+        'status', OLD.status,
+        'owner_id', OLD.user_id
+      )
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- The document's owner, or the owner recorded when it was deleted
+CREATE OR REPLACE FUNCTION public.is_recorded_document_owner(_document_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_document_owner(_document_id) OR EXISTS (
+    SELECT 1
+    FROM public.audit_logs
+    WHERE resource_type = 'document'
+      AND resource_id = _document_id
+      AND action = 'document_deleted'
+      AND COALESCE((metadata ->> 'owner_id')::UUID, user_id) = auth.uid()
+  );
+$$;
+
+DROP POLICY "Document owners can view their documents' audit logs" ON public.audit_logs;
+
+CREATE POLICY "Document owners can view their documents' audit logs"
+  ON public.audit_logs FOR SELECT
+  USING (resource_type = 'document' AND public.is_recorded_document_owner(resource_id));
+
+CREATE OR REPLACE FUNCTION public.get_document_participants(_document_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::TEXT, p.full_name
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  WHERE (
+      public.is_recorded_document_owner(_document_id)
+      OR public.is_document_signer(_document_id)
+      OR public.has_role(auth.uid(), 'admin')
+    )
+    AND u.id IN (
+      SELECT d.user_id FROM public.documents d WHERE d.id = _document_id
+      UNION
+      SELECT s.user_id FROM public.signatures s WHERE s.document_id = _document_id
+      UNION
+      SELECT ds.user_id FROM public.document_signers ds WHERE ds.document_id = _document_id
+      UNION
+      SELECT a.user_id FROM public.audit_logs a WHERE a.resource_type = 'document' AND a.resource_id = _document_id
+      UNION
+      SELECT (a.metadata ->> 'owner_id')::UUID FROM public.audit_logs a
+      WHERE a.resource_type = 'document' AND a.resource_id = _document_id AND a.action = 'document_deleted'
+    );
+$$;